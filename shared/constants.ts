@@ -16,3 +16,10 @@ export const BIRDA_CLI_VERSION = '1.8.0';
 
 /** Nvidia PCI vendor ID */
 export const NVIDIA_VENDOR_ID = 0x10de;
+
+/** AudioMoths brown out around this voltage; a card that dips below it likely stopped early. */
+export const LOW_BATTERY_V = 3.6;
+
+/** Time and frequency scale of the spectrograms that COCO training boxes refer to. */
+export const COCO_PIXELS_PER_SECOND = 100;
+export const COCO_IMAGE_HEIGHT = 256;
@@ -126,6 +126,8 @@ export interface AnalysisRun {
   completed_at: string | null;
   /** UTC offset in minutes of the recording's timezone (0 = UTC, null = unknown). */
   timezone_offset_min: number | null;
+  /** Ensemble the run was queued in together with other models' runs; null for a single-model run. */
+  ensemble_id: number | null;
 }
 
 export interface RunWithStats extends AnalysisRun {
@@ -167,6 +169,8 @@ export interface AudioFile {
   audiomoth_gain: string | null;
   audiomoth_battery_v: number | null;
   audiomoth_temperature_c: number | null;
+  /** Deployment the recording was matched to by device id and date, if any. */
+  deployment_id: number | null;
   created_at: string;
 }
 
@@ -187,6 +191,8 @@ export interface AudioFileMetadata {
 export interface EnrichedDetection extends Detection {
   common_name: string;
   audio_file: AudioFile | null; // NEW: joined audio file data
+  /** Set when the location has a site profile and the species is not expected in the recording's week. */
+  outside_expected_weeks?: boolean | undefined;
 }
 
 export type AnnotationSource = 'birda' | 'manual';
@@ -229,6 +235,8 @@ export interface SpeciesSummary {
   scientific_name: string;
   location_count: number;
   detection_count: number;
+  /** Detections merged into events: consecutive same-species segments count once. Left out unless asked for. */
+  event_count?: number;
   last_detected: string;
   avg_confidence: number;
 }
@@ -243,6 +251,7 @@ export interface RunSpeciesAggregation {
   scientific_name: string;
   common_name: string;
   detection_count: number;
+  event_count: number;
   avg_confidence: number;
   max_confidence: number;
   first_detected: string;
@@ -255,6 +264,355 @@ export interface HourlyDetectionCell {
   common_name: string;
   hour: number; // 0-23
   detection_count: number;
+  /** Events starting in this hour. */
+  event_count: number;
+}
+
+// === Deployments ===
+
+/** One stint of an AudioMoth at a location; recordings from the device in that date range belong there. */
+export interface Deployment {
+  id: number;
+  audiomoth_device_id: string;
+  location_id: number;
+  /** First local recording date, YYYY-MM-DD. */
+  start_date: string;
+  /** Last local recording date (inclusive), or null while the device is still out. */
+  end_date: string | null;
+  habitat: string | null;
+  mic_height_m: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface DeploymentWithStats extends Deployment {
+  location_name: string | null;
+  latitude: number;
+  longitude: number;
+  file_count: number;
+}
+
+/** Create/update payload. Give `location_id`, or coordinates to reuse or create a location. */
+export interface DeploymentInput {
+  audiomoth_device_id: string;
+  location_id?: number | undefined;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+  location_name?: string | undefined;
+  start_date: string;
+  end_date?: string | null | undefined;
+  habitat?: string | null | undefined;
+  mic_height_m?: number | null | undefined;
+  notes?: string | null | undefined;
+}
+
+// === Device Health ===
+
+/** One AudioMoth recording's self-reported state, from the WAV comment. */
+export interface DeviceReading {
+  recording_start: string;
+  duration_sec: number | null;
+  battery_v: number | null;
+  temperature_c: number | null;
+  gain: string | null;
+  run_id: number;
+  deployment_id: number | null;
+}
+
+/** A stretch with no recordings: `from` is the last recording before it, `to` the first after. */
+export interface RecordingGap {
+  from: string;
+  to: string;
+  hours: number;
+}
+
+export type DeviceWarning =
+  | { kind: 'low_battery'; start: string; end: string; min_battery_v: number }
+  | { kind: 'gain_change'; at: string; from_gain: string; to_gain: string };
+
+export interface DeviceHealth {
+  audiomoth_device_id: string;
+  readings: DeviceReading[];
+  gaps: RecordingGap[];
+  warnings: DeviceWarning[];
+}
+
+export interface DeviceSummary {
+  audiomoth_device_id: string;
+  recording_count: number;
+  first_recording: string | null;
+  last_recording: string | null;
+  last_battery_v: number | null;
+  last_temperature_c: number | null;
+  gains: string[];
+  gap_count: number;
+  warning_count: number;
+}
+
+// === Recording Effort ===
+
+/** Recorded seconds on one recorder-local calendar day. */
+export interface EffortDay {
+  date: string;
+  seconds: number;
+}
+
+/** Consecutive days without any recording, both ends inclusive. */
+export interface EffortGap {
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface LocationEffortSummary {
+  location_id: number;
+  name: string | null;
+  latitude: number;
+  longitude: number;
+  file_count: number;
+  total_seconds: number;
+  first_date: string | null;
+  last_date: string | null;
+}
+
+export interface LocationEffort {
+  location_id: number;
+  total_seconds: number;
+  days: EffortDay[];
+  /** Recorded seconds per local hour of day, 24 entries. */
+  hours: number[];
+  gaps: EffortGap[];
+}
+
+/** Recorded seconds behind a detection view, per hour on the same clock as the hourly heatmap. */
+export interface HourlyEffort {
+  total_seconds: number;
+  hours: number[];
+}
+
+// === Sun-relative Activity ===
+
+export type SunAnchor = 'sunrise' | 'sunset';
+
+/** Detections of one species in one recorder-local month, binned by minutes from the anchor. */
+export interface SunActivitySeries {
+  scientific_name: string;
+  common_name: string;
+  /** 1-12 */
+  month: number;
+  total: number;
+  /** Bin i covers [from_minutes + i * bin_minutes, from_minutes + (i + 1) * bin_minutes). */
+  counts: number[];
+}
+
+export interface SunActivity {
+  anchor: SunAnchor;
+  bin_minutes: number;
+  from_minutes: number;
+  series: SunActivitySeries[];
+  /** Detections without a recording time or location, or on a day the sun neither rose nor set. */
+  skipped: number;
+}
+
+// === Phenology ===
+
+/** Detections of a species on one recorder-local day; events merge consecutive detections. */
+export interface PhenologyDay {
+  date: string;
+  detections: number;
+  events: number;
+}
+
+export interface PhenologyYear {
+  year: number;
+  first_date: string;
+  last_date: string;
+  days_detected: number;
+}
+
+export interface PhenologySeries {
+  scientific_name: string;
+  common_name: string;
+  /** Days with at least one detection, in date order. */
+  days: PhenologyDay[];
+  years: PhenologyYear[];
+}
+
+export interface Phenology {
+  series: PhenologySeries[];
+  /** Recorded seconds per day at the chosen locations; days missing here were not recorded. */
+  effort: EffortDay[];
+}
+
+// === Model Evaluation ===
+
+/** Precision and recall when only detections at or above the threshold are kept. */
+export interface PrPoint {
+  threshold: number;
+  /** null when no detection reaches the threshold. */
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface EvaluationScores {
+  /** Ground-truth boxes. */
+  ground_truth: number;
+  detections: number;
+  /** Detections overlapping a ground-truth box of the same species. */
+  true_positives: number;
+  /** Ground-truth boxes overlapped by at least one detection of the same species. */
+  found: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface SpeciesEvaluation extends EvaluationScores {
+  scientific_name: string;
+  common_name: string;
+  curve: PrPoint[];
+}
+
+/** One run scored against the manual annotations on its annotated files. */
+export interface ModelEvaluation {
+  run_id: number;
+  model: string;
+  threshold: number;
+  /** Annotated files the scores cover; with several runs, only files all of them analysed. */
+  files: number;
+  overall: EvaluationScores;
+  curve: PrPoint[];
+  species: SpeciesEvaluation[];
+}
+
+// === Site Comparison ===
+
+/** A location, optionally narrowed to recorder-local dates (inclusive, YYYY-MM-DD). */
+export interface ComparisonSite {
+  location_id: number;
+  date_from?: string | undefined;
+  date_to?: string | undefined;
+}
+
+/** Detections of a species at one site and the number of distinct days it was detected. */
+export interface SiteSpeciesCount {
+  scientific_name: string;
+  detections: number;
+  presence_days: number;
+}
+
+export interface ComparisonRow {
+  scientific_name: string;
+  common_name: string;
+  /** One entry per site, in the order the sites were given; zero counts where absent. */
+  sites: { detections: number; presence_days: number }[];
+}
+
+/** Jaccard similarity of the species sets at two sites, given as indexes into the site list. */
+export interface SiteSimilarity {
+  a: number;
+  b: number;
+  jaccard: number;
+  shared: number;
+}
+
+export interface SiteComparison {
+  rows: ComparisonRow[];
+  /** Scientific names detected only at that site, per site. */
+  unique: string[][];
+  similarity: SiteSimilarity[];
+}
+
+// === Ensembles ===
+
+/** How per-model confidences of a segment are combined: the highest, the mean, or a majority vote. */
+export type EnsembleMethod = 'max' | 'mean' | 'vote';
+
+export interface EnsembleRun {
+  run_id: number;
+  model: string;
+}
+
+/** A species in a time segment of a recording, as the ensemble scores it. */
+export interface EnsembleDetection {
+  file_path: string;
+  scientific_name: string;
+  common_name: string;
+  start_time: number;
+  end_time: number;
+  /** Combined confidence. */
+  confidence: number;
+  /** Models at or above the threshold. */
+  votes: number;
+  /** Each run's confidence, in the order of the ensemble's runs; null where it did not detect the species. */
+  confidences: (number | null)[];
+}
+
+export interface EnsembleSpecies {
+  scientific_name: string;
+  common_name: string;
+  /** Segments the ensemble keeps. */
+  detections: number;
+  /** Segments each run alone has at or above the threshold, in run order. */
+  per_run: number[];
+}
+
+export interface EnsembleResult {
+  ensemble_id: number;
+  runs: EnsembleRun[];
+  method: EnsembleMethod;
+  threshold: number;
+  /** Votes a segment needs under 'vote': a majority of the runs. */
+  min_votes: number;
+  /** Recordings every run analysed; only they are combined. */
+  files: number;
+  species: EnsembleSpecies[];
+  /** Kept segments by recording and time; only the first ones when there are many, see `total`. */
+  detections: EnsembleDetection[];
+  total: number;
+}
+
+// === Run Diff ===
+
+/** One species in two runs over the recordings both analysed. */
+export interface RunDiffSpecies {
+  scientific_name: string;
+  common_name: string;
+  /** Detections at or above the threshold in the first and second run. */
+  count_a: number;
+  count_b: number;
+  /** Detection pairs overlapping in time in the same file. */
+  matched: number;
+  /** Mean confidence of the second run minus the first over matched pairs; null when none matched. */
+  mean_delta: number | null;
+}
+
+/** A matched detection pair whose confidence changed between the runs. */
+export interface RunDiffChange {
+  file_path: string;
+  scientific_name: string;
+  common_name: string;
+  start_time: number;
+  confidence_a: number;
+  confidence_b: number;
+}
+
+export interface RunDiff {
+  run_a: number;
+  run_b: number;
+  threshold: number;
+  /** Recordings both runs analysed; only their detections are compared. */
+  files: number;
+  matched: number;
+  only_a: number;
+  only_b: number;
+  mean_delta: number | null;
+  /** Scientific names detected only by the second run, and only by the first. */
+  gained: string[];
+  lost: string[];
+  species: RunDiffSpecies[];
+  /** Largest confidence changes among matched pairs, biggest first. */
+  changes: RunDiffChange[];
 }
 
 // === Analysis ===
@@ -271,22 +629,239 @@ export interface AnalysisRequest {
   day?: number | undefined;
   /** UTC offset in minutes from AudioMoth metadata (0 = UTC). Omit if unknown. */
   timezone_offset_min?: number | undefined;
+  /** Continue this run instead of starting a new one; only files it has not imported are analyzed. */
+  resume_run_id?: number | undefined;
+  /** Overrides the execution provider from settings. */
+  execution_provider?: string | undefined;
+  /** Further birda flags, written as on the command line. */
+  extra_args?: string | undefined;
+  /** Species list applied to detections as they are imported. */
+  species_list_id?: number | undefined;
+  species_list_mode?: SpeciesListMode | undefined;
+  /** Filled in when the run starts, so the run still names its list after the list is deleted. */
+  species_list_name?: string | undefined;
+  /** Preset the request was filled in from, kept with the run for reference. */
+  preset_id?: number | undefined;
+  preset_name?: string | undefined;
+  /** Further installed models to analyse the source with; each gets its own run, linked to the others. */
+  ensemble_models?: string[] | undefined;
+  /** Set on each model's job when an ensemble is queued. */
+  ensemble_id?: number | undefined;
+}
+
+// === Analysis Presets ===
+
+/** Named analysis parameters, picked on the analysis page instead of re-entering them. */
+export interface AnalysisPreset {
+  id: number;
+  name: string;
+  model: string;
+  min_confidence: number;
+  latitude: number | null;
+  longitude: number | null;
+  location_name: string | null;
+  /** Recording date for sources whose file names carry none. */
+  month: number | null;
+  day: number | null;
+  /** null uses the default from settings. */
+  execution_provider: string | null;
+  extra_args: string | null;
+  species_list_id: number | null;
+  species_list_mode: SpeciesListMode;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AnalysisPresetInput = Omit<AnalysisPreset, 'id' | 'created_at' | 'updated_at'>;
+
+// === Analysis Queue ===
+
+export type AnalysisJobStatus =
+  'pending' | 'running' | 'paused' | 'completed' | 'completed_with_errors' | 'failed' | 'cancelled';
+
+/** A queued analysis request, persisted so the queue survives app restarts. */
+export interface AnalysisJob {
+  id: number;
+  request: AnalysisRequest;
+  status: AnalysisJobStatus;
+  /** Sort key within the queue; lower runs first. */
+  position: number;
+  run_id: number | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
 }
 
 export interface DetectionFilter {
   species?: string | undefined;
   scientific_names?: string[] | undefined;
   location_id?: number | undefined;
+  /** Detections at any of these locations. */
+  location_ids?: number[] | undefined;
   min_confidence?: number | undefined;
+  max_confidence?: number | undefined;
+  /** Apply stored per-species thresholds; min_confidence still covers species without one. */
+  use_species_thresholds?: boolean | undefined;
   run_id?: number | undefined;
   audio_file_id?: number | undefined;
   species_list_id?: number | undefined;
+  /** Only detections no reviewer has ruled on yet (no annotation references them). */
+  unverified_only?: boolean | undefined;
   limit?: number | undefined;
   offset?: number | undefined;
   sort_column?: string | undefined;
   sort_dir?: 'asc' | 'desc' | undefined;
 }
 
+// === Verification ===
+
+/** A reviewer's ruling on a detection; relabel records an accepted annotation naming another species. */
+export type VerificationVerdict = 'accept' | 'reject' | 'relabel';
+
+/** Per-species review progress; precision = confirmed / verified. */
+export interface SpeciesVerificationStats {
+  scientific_name: string;
+  common_name: string;
+  total: number;
+  verified: number;
+  confirmed: number;
+  rejected: number;
+  relabeled: number;
+  precision: number | null;
+}
+
+// === Species Thresholds ===
+
+export interface SpeciesThreshold {
+  scientific_name: string;
+  threshold: number;
+  updated_at: string;
+}
+
+/** Calibration of one species from its verified detections, alongside any stored threshold. */
+export interface SpeciesCalibration {
+  scientific_name: string;
+  common_name: string;
+  /** Verified detections (accepted, rejected or relabeled). */
+  samples: number;
+  /** Of those, detections the reviewer confirmed. */
+  correct: number;
+  /** Threshold meeting the requested precision; null when the verified sample cannot support a fit. */
+  suggested_threshold: number | null;
+  threshold: number | null;
+}
+
+// === Detection Export ===
+
+/** csv = one table of all detections; raven/audacity = one selection table or label track per audio file. */
+export type DetectionExportFormat = 'csv' | 'raven' | 'audacity';
+
+export interface DetectionExportResult {
+  format: DetectionExportFormat;
+  /** Absolute paths of the files written. */
+  files: string[];
+  detections: number;
+}
+
+/** clips = per-species folders of WAV crops and a manifest; coco = one JSON of spectrogram boxes. */
+export type TrainingDatasetFormat = 'clips' | 'coco';
+
+export interface TrainingDatasetResult {
+  format: TrainingDatasetFormat;
+  /** Output folder for clips, JSON file for coco. */
+  path: string;
+  /** Accepted and manual annotations written. */
+  positives: number;
+  /** Rejected annotations written as negative samples (clips only). */
+  negatives: number;
+  /** Annotations left out because their recording is missing or not a WAV file. */
+  skipped: number;
+}
+
+// === Results Import ===
+
+/** Third-party result files: BirdNET-Analyzer CSV, Raven selection tables, Kaleidoscope CSV. */
+export type ResultsImportFormat = 'birdnet_csv' | 'raven' | 'kaleidoscope';
+
+export interface ResultsImportRequest {
+  /** A single result file or a folder searched recursively for them. */
+  results_path: string;
+  /** Folder searched recursively for the audio files the results refer to. */
+  audio_path: string;
+  /** Label stored as the run's model, e.g. "BirdNET-Analyzer 2.4". */
+  model: string;
+  min_confidence: number;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+  location_name?: string | undefined;
+  timezone_offset_min?: number | undefined;
+}
+
+export interface ResultsImportFileMatch {
+  /** Audio file as named in the results. */
+  source_file: string;
+  /** Matching audio file on disk, or null when none was found. */
+  audio_path: string | null;
+  detections: number;
+}
+
+export interface ResultsImportPreview {
+  /** Number of result files per recognised format. */
+  formats: Partial<Record<ResultsImportFormat, number>>;
+  /** Files under results_path whose header matched no supported format. */
+  unrecognized_files: string[];
+  files: ResultsImportFileMatch[];
+  detections: number;
+  /** Common names that could not be mapped to a scientific name with the current labels. */
+  unresolved_species: string[];
+}
+
+export interface ResultsImportResult {
+  run_id: number;
+  audio_files: number;
+  detections: number;
+  /** Detections dropped: audio file not found, species not resolved, or below min_confidence. */
+  skipped_detections: number;
+}
+
+/** Hand-made annotation files: Raven selection tables and Audacity label tracks (plain or spectral). */
+export type AnnotationFileFormat = 'raven' | 'audacity';
+
+export interface AnnotationImportResult {
+  /** Number of annotation files read per recognised format. */
+  formats: Partial<Record<AnnotationFileFormat, number>>;
+  unrecognized_files: number;
+  imported: number;
+  /** Boxes already stored as manual annotations. */
+  duplicates: number;
+  /** Boxes left out because their sound file or species could not be matched. */
+  skipped: number;
+  /** Sound files named in the annotations that match no analysed audio file. */
+  unmatched_files: string[];
+  /** Labels that name no species in the current labels. */
+  unresolved_labels: string[];
+}
+
+// === Recording Viewer ===
+
+/** Shape of a whole-recording overview spectrogram; its columns arrive as RecordingOverviewChunk events. */
+export interface RecordingOverviewInfo {
+  duration_sec: number;
+  sample_rate: number;
+  columns: number;
+  /** Frequency rows per column, row 0 = 0 Hz. */
+  rows: number;
+  freq_max: number;
+}
+
+export interface RecordingOverviewChunk {
+  request_id: number;
+  start_column: number;
+  /** Column-major intensities (0–255), `rows` values per column. */
+  data: Uint8Array;
+}
+
 // === birda CLI ===
 
 // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
@@ -382,6 +957,26 @@ export interface ModelInstallProgress {
   bytesTotal?: number;
 }
 
+/** A directory whose new recordings are analyzed automatically with its own preset. */
+export interface WatchFolder {
+  path: string;
+  enabled: boolean;
+  model: string;
+  min_confidence: number;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+  location_name?: string | undefined;
+}
+
+export interface WatchFolderStatus {
+  path: string;
+  /** Audio files seen but not analyzed yet, including ones still being copied. */
+  waiting_files: number;
+  queued_batches: number;
+  last_scan: string | null;
+  error: string | null;
+}
+
 export interface AppSettings {
   birda_path: string;
   clip_output_dir: string;
@@ -390,10 +985,13 @@ export interface AppSettings {
   default_execution_provider: string;
   default_freq_max: number;
   default_spectrogram_height: number;
+  /** Same-species detections in one file closer than this many seconds count as one event. */
+  event_gap_seconds: number;
   species_language: string;
   ui_language: string;
   theme: 'system' | 'light' | 'dark';
   setup_completed: boolean;
+  watch_folders: WatchFolder[];
 }
 
 // === Catalog Stats ===
@@ -497,6 +1095,29 @@ export interface ModelInstalledResult {
   labels_path: string;
 }
 
+// === Site Profiles ===
+
+/** Expected frequency of one species in each BirdNET week (index 0 = week 1); null when below the threshold. */
+export interface SiteProfileSpecies {
+  scientific_name: string;
+  common_name: string;
+  frequencies: (number | null)[];
+}
+
+/** Species expected at a location through the year, from the birda species command run for all 48 weeks. */
+export interface SiteProfile {
+  location_id: number;
+  threshold: number;
+  created_at: string;
+  species: SiteProfileSpecies[];
+}
+
+export interface SiteProfileProgress {
+  location_id: number;
+  /** Weeks fetched so far, out of 48. */
+  completed: number;
+}
+
 // === Species Lists ===
 
 /** A species list stored in the database */
@@ -513,6 +1134,9 @@ export interface SpeciesList {
   created_at: string;
 }
 
+/** Keep only the species on a list, or drop them. */
+export type SpeciesListMode = 'include' | 'exclude';
+
 /** An entry within a species list */
 export interface SpeciesListEntry {
   id: number;
@@ -527,6 +1151,52 @@ export interface EnrichedSpeciesListEntry extends SpeciesListEntry {
   resolved_common_name: string;
 }
 
+/** Builds a new list from two or more lists; difference keeps the first list minus the others. */
+export type SpeciesListSetOperation = 'union' | 'intersection' | 'difference';
+
+export type SpeciesListChangeAction =
+  'created' | 'duplicated' | 'combined' | 'renamed' | 'species_added' | 'species_removed';
+
+/** One entry in a list's change history. */
+export interface SpeciesListChange {
+  id: number;
+  list_id: number;
+  action: SpeciesListChangeAction;
+  /** Source list name for duplicated, the set expression for combined, the previous name for renamed. */
+  detail: string | null;
+  /** Species added or removed by the change. */
+  scientific_names: string[];
+  created_at: string;
+}
+
+/** birdnet = species_list.txt ("Scientific_Common" per line); ebird = checklist CSV download. */
+export type SpeciesListFileFormat = 'birdnet' | 'csv' | 'ebird';
+
+export interface SpeciesNameCandidate {
+  scientific_name: string;
+  common_name: string;
+}
+
+/** An imported name that matched a model label exactly. */
+export interface SpeciesImportMatch extends SpeciesNameCandidate {
+  /** The name as written in the file. */
+  input: string;
+}
+
+/** An imported name without an exact match, with the closest labels. */
+export interface SpeciesImportUnmatched {
+  input: string;
+  suggestions: SpeciesNameCandidate[];
+}
+
+/** A species list file read and matched against the labels, before a list is created from it. */
+export interface SpeciesListImportPreview {
+  file_name: string;
+  format: SpeciesListFileFormat;
+  matched: SpeciesImportMatch[];
+  unmatched: SpeciesImportUnmatched[];
+}
+
 /** Request to fetch species from birda CLI */
 export interface SpeciesFetchRequest {
   latitude: number;
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getTimes } from 'suncalc';
+import { binSunActivity, detectionInstantMs, minutesFromSun } from './sun-activity';
+
+const HELSINKI = { latitude: 60.17, longitude: 24.94 };
+
+describe('detectionInstantMs', () => {
+  it('prefers the recording start with its offset and falls back to an AudioMoth filename', () => {
+    expect(detectionInstantMs('2025-05-01T05:00:00+03:00', null, 90)).toBe(Date.UTC(2025, 4, 1, 2, 1, 30));
+    expect(detectionInstantMs(null, '/moth/20250501_020000.WAV', 30)).toBe(Date.UTC(2025, 4, 1, 2, 0, 30));
+    expect(detectionInstantMs(null, 'dawn.wav', 0)).toBeNull();
+  });
+});
+
+describe('minutesFromSun', () => {
+  it('measures from the same solar day and wraps late evening to before the next sunrise', () => {
+    const sunrise = getTimes(new Date(Date.UTC(2025, 5, 1, 10)), HELSINKI.latitude, HELSINKI.longitude).sunrise;
+    const at = (minutes: number) => (sunrise?.getTime() ?? NaN) + minutes * 60_000;
+    expect(minutesFromSun(at(30), HELSINKI.latitude, HELSINKI.longitude, 'sunrise')).toBeCloseTo(30, 0);
+    expect(minutesFromSun(at(-45), HELSINKI.latitude, HELSINKI.longitude, 'sunrise')).toBeCloseTo(-45, 0);
+    // 20 hours after sunrise is about four hours before the next one
+    expect(minutesFromSun(at(20 * 60), HELSINKI.latitude, HELSINKI.longitude, 'sunrise')).toBeLessThan(-200);
+  });
+
+  it('returns null under the midnight sun', () => {
+    expect(minutesFromSun(Date.UTC(2025, 5, 21, 12), 78.22, 15.65, 'sunrise')).toBeNull();
+  });
+});
+
+describe('binSunActivity', () => {
+  it('bins per species and month and skips detections without a time or place', () => {
+    const base = { ...HELSINKI, file_path: null };
+    const { series, skipped } = binSunActivity(
+      [
+        { ...base, scientific_name: 'Turdus merula', start_time: 0, recording_start: '2025-05-01T04:00:00+03:00' },
+        { ...base, scientific_name: 'Turdus merula', start_time: 60, recording_start: '2025-05-01T04:00:00+03:00' },
+        { ...base, scientific_name: 'Turdus merula', start_time: 0, recording_start: '2025-06-01T04:00:00+03:00' },
+        { ...base, scientific_name: 'Parus major', start_time: 0, recording_start: '2025-05-01T12:00:00+03:00' },
+        { ...base, scientific_name: 'Parus major', start_time: 0, recording_start: null },
+        {
+          ...base,
+          scientific_name: 'Parus major',
+          start_time: 0,
+          recording_start: '2025-05-01T12:00:00+03:00',
+          latitude: null,
+        },
+      ],
+      'sunrise',
+      60,
+      new Map([['Turdus merula', 'Common Blackbird']]),
+    );
+    expect(skipped).toBe(2);
+    expect(series.map((s) => [s.common_name, s.month, s.total])).toEqual([
+      ['Common Blackbird', 5, 2],
+      ['Common Blackbird', 6, 1],
+      ['Parus major', 5, 1],
+    ]);
+    expect(series.every((s) => s.counts.length === 24)).toBe(true);
+  });
+});
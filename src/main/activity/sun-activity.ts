@@ -0,0 +1,110 @@
+import { getTimes } from 'suncalc';
+import { filenameClockMs, localClockMs } from '../effort/effort';
+import type { SunActivitySeries, SunAnchor } from '$shared/types';
+
+const MINUTE_MS = 60_000;
+
+/** Activity is binned over the twelve hours either side of the anchor. */
+export const ACTIVITY_RANGE_MINUTES = 720;
+
+export interface ActivityDetection {
+  scientific_name: string;
+  start_time: number;
+  recording_start: string | null;
+  file_path: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/** Real instant of an offset into a recording. recording_start carries its offset; AudioMoth filenames are UTC. */
+export function detectionInstantMs(
+  recordingStart: string | null,
+  filePath: string | null,
+  offsetSec: number,
+): number | null {
+  let startMs = recordingStart ? Date.parse(recordingStart) : NaN;
+  if (isNaN(startMs)) startMs = (filePath ? filenameClockMs(filePath) : null) ?? NaN;
+  return isNaN(startMs) ? null : startMs + offsetSec * 1000;
+}
+
+/**
+ * Minutes from sunrise or sunset on the solar day of the instant, wrapped into ±12 hours so a
+ * late-evening detection reads as shortly before the next sunrise. Null when the sun never crosses
+ * the horizon that day.
+ */
+export function minutesFromSun(
+  instantMs: number,
+  latitude: number,
+  longitude: number,
+  anchor: SunAnchor,
+): number | null {
+  const times = getTimes(new Date(instantMs), latitude, longitude);
+  const at = anchor === 'sunrise' ? times.sunrise : times.sunset;
+  if (!at) return null;
+  const day = 2 * ACTIVITY_RANGE_MINUTES;
+  const minutes = (instantMs - at.getTime()) / MINUTE_MS;
+  return ((((minutes + ACTIVITY_RANGE_MINUTES) % day) + day) % day) - ACTIVITY_RANGE_MINUTES;
+}
+
+/** Month (1-12) on the recorder's own clock. */
+function localMonth(recordingStart: string | null, filePath: string | null, offsetSec: number): number | null {
+  const clockMs =
+    (recordingStart ? localClockMs(recordingStart) : null) ?? (filePath ? filenameClockMs(filePath) : null);
+  return clockMs === null ? null : new Date(clockMs + offsetSec * 1000).getUTCMonth() + 1;
+}
+
+/**
+ * Detections per species and month, binned by minutes from the anchor. Series come most
+ * detected species first, then by month.
+ */
+export function binSunActivity(
+  detections: ActivityDetection[],
+  anchor: SunAnchor,
+  binMinutes: number,
+  commonNames: Map<string, string>,
+): { series: SunActivitySeries[]; skipped: number } {
+  const binCount = Math.ceil((2 * ACTIVITY_RANGE_MINUTES) / binMinutes);
+  const bins = new Map<string, { scientific_name: string; month: number; counts: Map<number, number> }>();
+  let skipped = 0;
+
+  for (const d of detections) {
+    const instantMs = detectionInstantMs(d.recording_start, d.file_path, d.start_time);
+    const month = localMonth(d.recording_start, d.file_path, d.start_time);
+    const minutes =
+      instantMs !== null && d.latitude !== null && d.longitude !== null
+        ? minutesFromSun(instantMs, d.latitude, d.longitude, anchor)
+        : null;
+    if (minutes === null || month === null) {
+      skipped++;
+      continue;
+    }
+    const key = `${d.scientific_name}\0${month}`;
+    let entry = bins.get(key);
+    if (!entry) {
+      entry = { scientific_name: d.scientific_name, month, counts: new Map() };
+      bins.set(key, entry);
+    }
+    const bin = Math.min(binCount - 1, Math.floor((minutes + ACTIVITY_RANGE_MINUTES) / binMinutes));
+    entry.counts.set(bin, (entry.counts.get(bin) ?? 0) + 1);
+  }
+
+  const speciesTotals = new Map<string, number>();
+  const series = [...bins.values()].map(({ scientific_name, month, counts }) => {
+    const total = [...counts.values()].reduce((sum, n) => sum + n, 0);
+    speciesTotals.set(scientific_name, (speciesTotals.get(scientific_name) ?? 0) + total);
+    return {
+      scientific_name,
+      common_name: commonNames.get(scientific_name) ?? scientific_name,
+      month,
+      total,
+      counts: Array.from({ length: binCount }, (_, i) => counts.get(i) ?? 0),
+    };
+  });
+  series.sort(
+    (a, b) =>
+      (speciesTotals.get(b.scientific_name) ?? 0) - (speciesTotals.get(a.scientific_name) ?? 0) ||
+      a.scientific_name.localeCompare(b.scientific_name) ||
+      a.month - b.month,
+  );
+  return { series, skipped };
+}
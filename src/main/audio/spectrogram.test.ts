@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { hannWindow, powerSpectrum, toIntensityColumn } from './spectrogram';
+import { buildWavHeader, decodeMono, parseFmtChunk } from './wav';
+
+function sine(freq: number, sampleRate: number, n: number): Float32Array {
+  return Float32Array.from({ length: n }, (_, i) => Math.sin((2 * Math.PI * freq * i) / sampleRate));
+}
+
+describe('powerSpectrum', () => {
+  it('peaks at the bin of a sine at about 0 dB', () => {
+    // 3000 Hz at 48 kHz with 1024 points falls exactly on bin 64
+    const power = powerSpectrum(sine(3000, 48000, 1024), hannWindow(1024));
+    const peak = Math.max(...power);
+    expect(power.indexOf(peak)).toBe(64);
+    expect(10 * Math.log10(peak)).toBeCloseTo(0, 0);
+  });
+});
+
+describe('toIntensityColumn', () => {
+  it('puts a tone in the matching row and leaves silent rows at 0', () => {
+    const power = powerSpectrum(sine(3000, 48000, 1024), hannWindow(1024));
+    const column = toIntensityColumn(power, 48000, 12000, 4);
+    expect(column[1]).toBe(255); // 3000–6000 Hz
+    expect(column[3]).toBe(0);
+  });
+});
+
+describe('wav helpers', () => {
+  it('round-trips a built header through parseFmtChunk', () => {
+    const format = { encoding: 'pcm' as const, channels: 2, sampleRate: 24000, bitsPerSample: 16, blockAlign: 4 };
+    const header = buildWavHeader(format, 400);
+    expect(header.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(parseFmtChunk(header.subarray(20, 36))).toEqual(format);
+    expect(header.readUInt32LE(40)).toBe(400);
+  });
+
+  it('rejects compressed encodings', () => {
+    const fmt = Buffer.alloc(16);
+    fmt.writeUInt16LE(2, 0); // ADPCM
+    fmt.writeUInt16LE(1, 2);
+    fmt.writeUInt32LE(8000, 4);
+    fmt.writeUInt16LE(1, 12);
+    fmt.writeUInt16LE(4, 14);
+    expect(() => parseFmtChunk(fmt)).toThrow(/Unsupported/);
+  });
+
+  it('averages channels when decoding to mono', () => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeInt16LE(16384, 0);
+    bytes.writeInt16LE(0, 2);
+    bytes.writeInt16LE(-32768, 4);
+    bytes.writeInt16LE(-32768, 6);
+    expect(Array.from(decodeMono(bytes, { encoding: 'pcm', channels: 2, bitsPerSample: 16 }))).toEqual([0.25, -1]);
+  });
+});
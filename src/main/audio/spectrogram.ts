@@ -0,0 +1,93 @@
+/* eslint-disable security/detect-object-injection -- every index here is a loop counter into a typed array */
+
+/** dB range mapped onto the 0–255 intensity scale of overview columns. */
+const DB_FLOOR = -110;
+const DB_CEIL = -20;
+
+export function hannWindow(size: number): Float32Array {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  return w;
+}
+
+/** In-place iterative radix-2 FFT; `re.length` must be a power of two. */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Power spectrum (n/2 bins) of one windowed frame, scaled so a full-scale sine
+ * peaks at 1 (0 dB).
+ */
+export function powerSpectrum(samples: Float32Array, window: Float32Array): Float64Array {
+  const n = window.length;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  let windowSum = 0;
+  for (let i = 0; i < n; i++) {
+    re[i] = (samples[i] ?? 0) * window[i];
+    windowSum += window[i];
+  }
+  fft(re, im);
+  const scale = 2 / windowSum;
+  const power = new Float64Array(n / 2);
+  for (let i = 0; i < n / 2; i++) {
+    const mag = Math.hypot(re[i], im[i]) * scale;
+    power[i] = mag * mag;
+  }
+  return power;
+}
+
+/**
+ * Reduce a power spectrum to `rows` intensity values (row 0 = lowest frequency)
+ * covering 0..freqMax, taking the loudest FFT bin that falls in each row.
+ */
+export function toIntensityColumn(power: Float64Array, sampleRate: number, freqMax: number, rows: number): Uint8Array {
+  const column = new Uint8Array(rows);
+  const hzPerBin = sampleRate / 2 / power.length;
+  for (let row = 0; row < rows; row++) {
+    const lo = Math.floor(((row / rows) * freqMax) / hzPerBin);
+    const hi = Math.max(lo + 1, Math.floor((((row + 1) / rows) * freqMax) / hzPerBin));
+    let peak = 0;
+    for (let bin = lo; bin < hi && bin < power.length; bin++) {
+      peak = Math.max(peak, power[bin]);
+    }
+    const db = 10 * Math.log10(peak + 1e-20);
+    const scaled = ((db - DB_FLOOR) / (DB_CEIL - DB_FLOOR)) * 255;
+    column[row] = Math.max(0, Math.min(255, Math.round(scaled)));
+  }
+  return column;
+}
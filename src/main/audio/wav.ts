@@ -0,0 +1,138 @@
+import fs from 'fs';
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/** Layout of a WAV file's sample data, enough to read any span of frames directly from disk. */
+export interface WavInfo {
+  encoding: 'pcm' | 'float';
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  /** Bytes per frame (all channels). */
+  blockAlign: number;
+  /** File offset of the first sample. */
+  dataOffset: number;
+  dataBytes: number;
+  frames: number;
+  durationSec: number;
+}
+
+/** Decode the fmt chunk body; throws for encodings we cannot read without a decoder. */
+export function parseFmtChunk(
+  fmt: Buffer,
+): Pick<WavInfo, 'encoding' | 'channels' | 'sampleRate' | 'bitsPerSample' | 'blockAlign'> {
+  if (fmt.length < 16) throw new Error('Invalid WAV fmt chunk');
+  let formatTag = fmt.readUInt16LE(0);
+  const channels = fmt.readUInt16LE(2);
+  const sampleRate = fmt.readUInt32LE(4);
+  const blockAlign = fmt.readUInt16LE(12);
+  const bitsPerSample = fmt.readUInt16LE(14);
+  // WAVE_FORMAT_EXTENSIBLE keeps the real format in the first two bytes of the sub-format GUID
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE && fmt.length >= 26) {
+    formatTag = fmt.readUInt16LE(24);
+  }
+
+  const pcm = formatTag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample);
+  const float = formatTag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32;
+  if (!pcm && !float) {
+    throw new Error(`Unsupported WAV encoding (format ${formatTag}, ${bitsPerSample}-bit)`);
+  }
+  if (channels === 0 || sampleRate === 0 || blockAlign !== channels * (bitsPerSample / 8)) {
+    throw new Error('Invalid WAV fmt chunk');
+  }
+  return { encoding: pcm ? 'pcm' : 'float', channels, sampleRate, bitsPerSample, blockAlign };
+}
+
+/**
+ * Walk the RIFF chunks of an open WAV file to find its format and data chunk.
+ * Only chunk headers are read, so large metadata chunks (GUANO, LIST) cost nothing.
+ */
+export async function readWavInfo(handle: fs.promises.FileHandle): Promise<WavInfo> {
+  const { size: fileSize } = await handle.stat();
+  const header = Buffer.alloc(12);
+  await handle.read(header, 0, 12, 0);
+  if (header.toString('ascii', 0, 4) !== 'RIFF' || header.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: ReturnType<typeof parseFmtChunk> | null = null;
+  const chunkHeader = Buffer.alloc(8);
+  let offset = 12;
+  while (offset + 8 <= fileSize) {
+    await handle.read(chunkHeader, 0, 8, offset);
+    const id = chunkHeader.toString('ascii', 0, 4);
+    const size = chunkHeader.readUInt32LE(4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const fmt = Buffer.alloc(Math.min(size, 64));
+      await handle.read(fmt, 0, fmt.length, body);
+      format = parseFmtChunk(fmt);
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk precedes its fmt chunk');
+      // Recorders that were cut off mid-write leave the size at 0 or 0xFFFFFFFF; trust the file length then
+      const available = fileSize - body;
+      const dataBytes = size === 0 || size > available ? available : size;
+      const frames = Math.floor(dataBytes / format.blockAlign);
+      return { ...format, dataOffset: body, dataBytes, frames, durationSec: frames / format.sampleRate };
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no data chunk');
+}
+
+/** Convert interleaved frames to mono samples in [-1, 1], averaging channels. */
+export function decodeMono(
+  bytes: Buffer,
+  info: Pick<WavInfo, 'encoding' | 'channels' | 'bitsPerSample'>,
+): Float32Array {
+  const bytesPerSample = info.bitsPerSample / 8;
+  const frameBytes = bytesPerSample * info.channels;
+  const frames = Math.floor(bytes.length / frameBytes);
+  const out = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let c = 0; c < info.channels; c++) {
+      const pos = f * frameBytes + c * bytesPerSample;
+      if (info.encoding === 'float') {
+        sum += bytes.readFloatLE(pos);
+      } else if (bytesPerSample === 1) {
+        sum += (bytes.readUInt8(pos) - 128) / 128;
+      } else if (bytesPerSample === 2) {
+        sum += bytes.readInt16LE(pos) / 32768;
+      } else if (bytesPerSample === 3) {
+        sum += bytes.readIntLE(pos, 3) / 8388608;
+      } else {
+        sum += bytes.readInt32LE(pos) / 2147483648;
+      }
+    }
+    // eslint-disable-next-line security/detect-object-injection -- f is the frame counter
+    out[f] = sum / info.channels;
+  }
+  return out;
+}
+
+/** Canonical 44-byte header for `dataBytes` of sample data in the given format. */
+export function buildWavHeader(
+  info: Pick<WavInfo, 'encoding' | 'channels' | 'sampleRate' | 'bitsPerSample' | 'blockAlign'>,
+  dataBytes: number,
+): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(info.encoding === 'float' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, 20);
+  header.writeUInt16LE(info.channels, 22);
+  header.writeUInt32LE(info.sampleRate, 24);
+  header.writeUInt32LE(info.sampleRate * info.blockAlign, 28);
+  header.writeUInt16LE(info.blockAlign, 32);
+  header.writeUInt16LE(info.bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
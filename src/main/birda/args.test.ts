@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { parseExtraArgs, splitArgs } from './args';
+
+describe('splitArgs', () => {
+  it('splits on whitespace and keeps quoted values together', () => {
+    expect(splitArgs('  --overlap 1.5 --batch-size 8 ')).toEqual(['--overlap', '1.5', '--batch-size', '8']);
+    expect(splitArgs(`--note "dawn chorus" --tag='a b' ""`)).toEqual(['--note', 'dawn chorus', '--tag=a b', '']);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => splitArgs('--note "dawn')).toThrow(/Unterminated quote/);
+  });
+});
+
+describe('parseExtraArgs', () => {
+  it('rejects flags the app sets itself, also in --flag=value form', () => {
+    expect(parseExtraArgs('--overlap 1.5')).toEqual(['--overlap', '1.5']);
+    expect(() => parseExtraArgs('--overlap 1.5 -c 0.5')).toThrow(/-c is set by the app/);
+    expect(() => parseExtraArgs('--output-dir=/tmp')).toThrow(/--output-dir/);
+  });
+});
@@ -0,0 +1,70 @@
+/** Flags the app sets itself; passing them again would fight the analysis pipeline. */
+const RESERVED_FLAGS = new Set([
+  '--output-dir',
+  '--output-mode',
+  '--format',
+  '--stdout',
+  '--force',
+  '--model',
+  '-c',
+  '--min-confidence',
+  '--lat',
+  '--lon',
+  '--month',
+  '--day',
+  '--day-of-year',
+  '-q',
+  '--quiet',
+  '--gpu',
+  '--cpu',
+  '--cuda',
+  '--tensorrt',
+  '--coreml',
+  '--directml',
+  '--rocm',
+  '--openvino',
+  '--onednn',
+  '--qnn',
+  '--acl',
+  '--armnn',
+  '--xnnpack',
+]);
+
+/** Split a command-line fragment into arguments. Single or double quotes keep spaces together. */
+export function splitArgs(text: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inToken = true;
+    } else if (/\s/.test(ch)) {
+      if (inToken) args.push(current);
+      current = '';
+      inToken = false;
+    } else {
+      current += ch;
+      inToken = true;
+    }
+  }
+  if (quote) throw new Error('Unterminated quote in extra birda arguments');
+  if (inToken) args.push(current);
+  return args;
+}
+
+/** Extra birda arguments from a preset or request, rejecting flags the app already controls. */
+export function parseExtraArgs(text: string): string[] {
+  const args = splitArgs(text);
+  for (const arg of args) {
+    const flag = arg.split('=', 1).at(0) ?? arg;
+    if (RESERVED_FLAGS.has(flag)) {
+      throw new Error(`${flag} is set by the app and cannot be passed as an extra argument`);
+    }
+  }
+  return args;
+}
@@ -54,6 +54,10 @@ interface AnalysisOptions {
   dayOfYear?: number | undefined;
   quiet?: boolean | undefined;
   outputDir?: string | undefined;
+  /** Re-analyze inputs that already have output in outputDir (default true). */
+  force?: boolean | undefined;
+  /** Further flags passed through before the source path. */
+  extraArgs?: string[] | undefined;
 }
 
 export type LogLevel = 'info' | 'warn' | 'error' | 'debug';
@@ -256,6 +260,8 @@ export async function validateBirdaVersion(
 
 export function runAnalysis(sourcePath: string, options: AnalysisOptions): AnalysisHandle {
   let child: ChildProcess | null = null;
+  // Set by a cancel that arrives while findBirda is still pending
+  let cancelled = false;
   let dataCallback: ((envelope: BirdaEventEnvelope) => void) | null = null;
   let logCallback: ((level: LogLevel, message: string) => void) | null = null;
   const stderrLines: string[] = [];
@@ -274,6 +280,11 @@ export function runAnalysis(sourcePath: string, options: AnalysisOptions): Analy
         reject(e instanceof Error ? e : new Error(String(e)));
         return;
       }
+      if (cancelled) {
+        emitLog('info', 'Cancelled before birda started');
+        resolve();
+        return;
+      }
 
       const args: string[] = [];
 
@@ -286,8 +297,10 @@ export function runAnalysis(sourcePath: string, options: AnalysisOptions): Analy
         args.push('--stdout');
       }
 
-      // Existing args
-      args.push('--force', '--model', options.model, '-c', String(options.minConfidence));
+      if (options.force !== false) {
+        args.push('--force');
+      }
+      args.push('--model', options.model, '-c', String(options.minConfidence));
 
       // Execution provider
       const epFlag = getExecutionProviderFlag(options.executionProvider);
@@ -310,6 +323,9 @@ export function runAnalysis(sourcePath: string, options: AnalysisOptions): Analy
       if (options.quiet !== false) {
         args.push('-q');
       }
+      if (options.extraArgs) {
+        args.push(...options.extraArgs);
+      }
       args.push(sourcePath);
 
       emitLog('info', `Spawning: ${birdaPath} ${args.join(' ')}`);
@@ -381,6 +397,7 @@ export function runAnalysis(sourcePath: string, options: AnalysisOptions): Analy
       }
     },
     cancel: () => {
+      cancelled = true;
       if (child && !child.killed) {
         child.kill('SIGTERM');
         unregisterProcess(child);
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { diffRuns } from './run-diff';
+import type { EvalDetection } from '../evaluation/evaluation';
+
+describe('diffRuns', () => {
+  const runA: EvalDetection[] = [
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 0, end_time: 3, confidence: 0.6 },
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 3, end_time: 6, confidence: 0.9 },
+    { file_path: 'a.wav', scientific_name: 'Parus major', start_time: 6, end_time: 9, confidence: 0.5 },
+    // Below the threshold in both runs
+    { file_path: 'a.wav', scientific_name: 'Sitta europaea', start_time: 9, end_time: 12, confidence: 0.1 },
+  ];
+  const runB: EvalDetection[] = [
+    // Shifted windows still pair one to one by the largest overlap
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 1.5, end_time: 4.5, confidence: 0.8 },
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 4, end_time: 7, confidence: 0.95 },
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 12, end_time: 15, confidence: 0.7 },
+    { file_path: 'b.wav', scientific_name: 'Parus major', start_time: 6, end_time: 9, confidence: 0.5 },
+    { file_path: 'a.wav', scientific_name: 'Erithacus rubecula', start_time: 20, end_time: 23, confidence: 0.4 },
+  ];
+
+  it('matches detections by time overlap and reports species gained and lost', () => {
+    const diff = diffRuns(runA, runB, 0.25, new Map([['Turdus merula', 'Blackbird']]));
+    expect(diff).toMatchObject({ matched: 2, only_a: 1, only_b: 3 });
+    expect(diff.gained).toEqual(['Erithacus rubecula']);
+    expect(diff.lost).toEqual([]);
+
+    const blackbird = diff.species.find((s) => s.common_name === 'Blackbird');
+    expect(blackbird).toMatchObject({ count_a: 2, count_b: 3, matched: 2 });
+    expect(blackbird?.mean_delta).toBeCloseTo(0.125);
+    // Different file, so no match
+    expect(diff.species.find((s) => s.scientific_name === 'Parus major')).toMatchObject({ matched: 0 });
+  });
+
+  it('lists the largest confidence changes first', () => {
+    const { changes } = diffRuns(runA, runB, 0.25, new Map());
+    expect(changes.map((c) => [c.start_time, c.confidence_a, c.confidence_b])).toEqual([
+      [0, 0.6, 0.8],
+      [3, 0.9, 0.95],
+    ]);
+  });
+});
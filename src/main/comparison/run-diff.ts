@@ -0,0 +1,125 @@
+import type { EvalDetection } from '../evaluation/evaluation';
+import type { RunDiff, RunDiffChange, RunDiffSpecies } from '$shared/types';
+
+/** Matched pairs listed in the diff, largest confidence change first. */
+const RUN_DIFF_CHANGES = 100;
+
+interface MatchedPair {
+  a: EvalDetection;
+  b: EvalDetection;
+}
+
+function overlap(a: EvalDetection, b: EvalDetection): number {
+  return Math.min(a.end_time, b.end_time) - Math.max(a.start_time, b.start_time);
+}
+
+function groupByFileAndSpecies(detections: EvalDetection[]): Map<string, EvalDetection[]> {
+  const groups = new Map<string, EvalDetection[]>();
+  for (const d of detections) {
+    const key = `${d.file_path}|${d.scientific_name}`;
+    groups.set(key, [...(groups.get(key) ?? []), d]);
+  }
+  return groups;
+}
+
+/**
+ * Pair detections of the same species in the same file one to one, each first-run detection
+ * taking the unpaired second-run detection it overlaps most. Runs with the same segment length
+ * line up exactly; different overlap settings still pair by shared time.
+ */
+function matchDetections(a: EvalDetection[], b: EvalDetection[]): MatchedPair[] {
+  const groupsB = groupByFileAndSpecies(b);
+  const pairs: MatchedPair[] = [];
+  for (const [key, groupA] of groupByFileAndSpecies(a)) {
+    const unpaired = new Set(groupsB.get(key) ?? []);
+    for (const detection of [...groupA].sort((x, y) => x.start_time - y.start_time)) {
+      let best: EvalDetection | null = null;
+      for (const candidate of unpaired) {
+        const amount = overlap(detection, candidate);
+        if (amount > 0 && (!best || amount > overlap(detection, best))) best = candidate;
+      }
+      if (best) {
+        unpaired.delete(best);
+        pairs.push({ a: detection, b: best });
+      }
+    }
+  }
+  return pairs;
+}
+
+function meanDelta(pairs: MatchedPair[]): number | null {
+  if (pairs.length === 0) return null;
+  return pairs.reduce((sum, p) => sum + p.b.confidence - p.a.confidence, 0) / pairs.length;
+}
+
+/**
+ * Compare two runs' detections at a threshold: per-species counts and matches, species only
+ * one run found, and the matched detections whose confidence changed most. Callers pass only
+ * detections from recordings both runs analysed.
+ */
+export function diffRuns(
+  a: EvalDetection[],
+  b: EvalDetection[],
+  threshold: number,
+  commonNames: Map<string, string>,
+): Omit<RunDiff, 'run_a' | 'run_b' | 'files'> {
+  const keptA = a.filter((d) => d.confidence >= threshold);
+  const keptB = b.filter((d) => d.confidence >= threshold);
+  const pairs = matchDetections(keptA, keptB);
+  const name = (scientificName: string) => commonNames.get(scientificName) ?? scientificName;
+
+  const species = new Map<string, { row: RunDiffSpecies; pairs: MatchedPair[] }>();
+  const entry = (scientificName: string) => {
+    let found = species.get(scientificName);
+    if (!found) {
+      found = {
+        row: {
+          scientific_name: scientificName,
+          common_name: name(scientificName),
+          count_a: 0,
+          count_b: 0,
+          matched: 0,
+          mean_delta: null,
+        },
+        pairs: [],
+      };
+      species.set(scientificName, found);
+    }
+    return found;
+  };
+  for (const d of keptA) entry(d.scientific_name).row.count_a++;
+  for (const d of keptB) entry(d.scientific_name).row.count_b++;
+  for (const pair of pairs) entry(pair.a.scientific_name).pairs.push(pair);
+
+  const rows = [...species.values()].map(({ row, pairs: speciesPairs }) => ({
+    ...row,
+    matched: speciesPairs.length,
+    mean_delta: meanDelta(speciesPairs),
+  }));
+  rows.sort((x, y) => y.count_a + y.count_b - (x.count_a + x.count_b) || x.common_name.localeCompare(y.common_name));
+
+  const changes: RunDiffChange[] = pairs
+    .filter((p) => p.a.confidence !== p.b.confidence)
+    .sort((x, y) => Math.abs(y.b.confidence - y.a.confidence) - Math.abs(x.b.confidence - x.a.confidence))
+    .slice(0, RUN_DIFF_CHANGES)
+    .map((p) => ({
+      file_path: p.a.file_path,
+      scientific_name: p.a.scientific_name,
+      common_name: name(p.a.scientific_name),
+      start_time: p.a.start_time,
+      confidence_a: p.a.confidence,
+      confidence_b: p.b.confidence,
+    }));
+
+  return {
+    threshold,
+    matched: pairs.length,
+    only_a: keptA.length - pairs.length,
+    only_b: keptB.length - pairs.length,
+    mean_delta: meanDelta(pairs),
+    gained: rows.filter((r) => r.count_a === 0).map((r) => r.scientific_name),
+    lost: rows.filter((r) => r.count_b === 0).map((r) => r.scientific_name),
+    species: rows,
+    changes,
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { compareSites, jaccard } from './site-comparison';
+
+describe('jaccard', () => {
+  it('divides shared species by all species at either site', () => {
+    expect(jaccard(new Set(['a', 'b', 'c']), new Set(['b', 'c', 'd']))).toEqual({ jaccard: 0.5, shared: 2 });
+    expect(jaccard(new Set(), new Set())).toEqual({ jaccard: 0, shared: 0 });
+  });
+});
+
+describe('compareSites', () => {
+  it('lines up counts per site, lists unique species and scores each pair', () => {
+    const { rows, unique, similarity } = compareSites(
+      [
+        [
+          { scientific_name: 'Parus major', detections: 10, presence_days: 3 },
+          { scientific_name: 'Turdus merula', detections: 2, presence_days: 1 },
+        ],
+        [{ scientific_name: 'Parus major', detections: 4, presence_days: 2 }],
+        [{ scientific_name: 'Sitta europaea', detections: 1, presence_days: 1 }],
+      ],
+      new Map([['Parus major', 'Great Tit']]),
+    );
+    expect(rows.map((r) => [r.common_name, r.sites.map((s) => s.detections)])).toEqual([
+      ['Great Tit', [10, 4, 0]],
+      ['Turdus merula', [2, 0, 0]],
+      ['Sitta europaea', [0, 0, 1]],
+    ]);
+    expect(unique).toEqual([['Turdus merula'], [], ['Sitta europaea']]);
+    expect(similarity).toEqual([
+      { a: 0, b: 1, jaccard: 0.5, shared: 1 },
+      { a: 0, b: 2, jaccard: 0, shared: 0 },
+      { a: 1, b: 2, jaccard: 0, shared: 0 },
+    ]);
+  });
+});
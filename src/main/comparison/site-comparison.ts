@@ -0,0 +1,56 @@
+import type { ComparisonRow, SiteComparison, SiteSimilarity, SiteSpeciesCount } from '$shared/types';
+
+/** Shared species over all species at either site; two empty sites count as dissimilar. */
+export function jaccard(a: Set<string>, b: Set<string>): { jaccard: number; shared: number } {
+  let shared = 0;
+  for (const name of a) if (b.has(name)) shared++;
+  const union = a.size + b.size - shared;
+  return { jaccard: union === 0 ? 0 : shared / union, shared };
+}
+
+/**
+ * Side-by-side species counts for each site, the species found at only one site and the
+ * pairwise Jaccard similarity. Rows are ordered by total detections across the sites.
+ */
+export function compareSites(sites: SiteSpeciesCount[][], commonNames: Map<string, string>): SiteComparison {
+  const empty = () => sites.map(() => ({ detections: 0, presence_days: 0 }));
+  const rowsByName = new Map<string, ComparisonRow>();
+  sites.forEach((counts, index) => {
+    for (const { scientific_name, detections, presence_days } of counts) {
+      let row = rowsByName.get(scientific_name);
+      if (!row) {
+        row = {
+          scientific_name,
+          common_name: commonNames.get(scientific_name) ?? scientific_name,
+          sites: empty(),
+        };
+        rowsByName.set(scientific_name, row);
+      }
+      row.sites.splice(index, 1, { detections, presence_days });
+    }
+  });
+
+  const total = (row: ComparisonRow) => row.sites.reduce((sum, site) => sum + site.detections, 0);
+  const rows = [...rowsByName.values()].sort(
+    (a, b) => total(b) - total(a) || a.common_name.localeCompare(b.common_name),
+  );
+
+  const present = sites.map((counts) => new Set(counts.filter((c) => c.detections > 0).map((c) => c.scientific_name)));
+  const unique = present.map((names, index) =>
+    rows
+      .filter(
+        (row) =>
+          names.has(row.scientific_name) && present.every((other, i) => i === index || !other.has(row.scientific_name)),
+      )
+      .map((row) => row.scientific_name),
+  );
+
+  const similarity: SiteSimilarity[] = [];
+  present.forEach((a, i) => {
+    present.slice(i + 1).forEach((b, offset) => {
+      similarity.push({ a: i, b: i + 1 + offset, ...jaccard(a, b) });
+    });
+  });
+
+  return { rows, unique, similarity };
+}
@@ -0,0 +1,144 @@
+import { getDb } from './database';
+import type { AnalysisJob, AnalysisJobStatus, AnalysisRequest } from '$shared/types';
+
+type AnalysisJobRow = Omit<AnalysisJob, 'request'> & { request_json: string };
+
+/** Statuses of jobs still waiting in the queue; only these may be reordered. */
+const QUEUED_STATUSES: AnalysisJobStatus[] = ['pending', 'paused'];
+
+function toJob(row: AnalysisJobRow): AnalysisJob {
+  const { request_json, ...rest } = row;
+  return { ...rest, request: JSON.parse(request_json) as AnalysisRequest };
+}
+
+export function getJob(id: number): AnalysisJob | undefined {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM analysis_jobs WHERE id = ?').get(id) as AnalysisJobRow | undefined;
+  return row ? toJob(row) : undefined;
+}
+
+/** All jobs in queue order, finished ones included until cleared. */
+export function listJobs(): AnalysisJob[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT * FROM analysis_jobs ORDER BY position ASC, id ASC').all() as AnalysisJobRow[];
+  return rows.map(toJob);
+}
+
+/** Append a request to the end of the queue. */
+export function enqueueJob(request: AnalysisRequest): AnalysisJob {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `INSERT INTO analysis_jobs (request_json, status, position)
+       VALUES (?, 'pending', (SELECT COALESCE(MAX(position), 0) + 1 FROM analysis_jobs))`,
+    )
+    .run(JSON.stringify(request));
+  const job = getJob(result.lastInsertRowid as number);
+  if (!job) throw new Error('Failed to enqueue analysis job');
+  return job;
+}
+
+/** Mark the first pending job as running and return it, or undefined if nothing is pending. */
+export function claimNextJob(): AnalysisJob | undefined {
+  const db = getDb();
+  return db.transaction(() => {
+    const row = db
+      .prepare("SELECT id FROM analysis_jobs WHERE status = 'pending' ORDER BY position ASC, id ASC LIMIT 1")
+      .get() as { id: number } | undefined;
+    if (!row) return undefined;
+    db.prepare(
+      "UPDATE analysis_jobs SET status = 'running', error = NULL, started_at = datetime('now'), completed_at = NULL WHERE id = ?",
+    ).run(row.id);
+    return getJob(row.id);
+  })();
+}
+
+export function finishJob(
+  id: number,
+  status: Exclude<AnalysisJobStatus, 'pending' | 'running'>,
+  runId: number | null,
+  error?: string | null,
+): void {
+  const db = getDb();
+  if (status === 'paused') {
+    // A paused job goes back into the queue, so it has no completion time yet.
+    db.prepare('UPDATE analysis_jobs SET status = ?, run_id = COALESCE(?, run_id), error = ? WHERE id = ?').run(
+      status,
+      runId,
+      error ?? null,
+      id,
+    );
+  } else {
+    db.prepare(
+      "UPDATE analysis_jobs SET status = ?, run_id = COALESCE(?, run_id), error = ?, completed_at = datetime('now') WHERE id = ?",
+    ).run(status, runId, error ?? null, id);
+  }
+}
+
+/** Hold a pending job in the queue; returns false if the job was not pending. */
+export function pauseJob(id: number): boolean {
+  const db = getDb();
+  const result = db.prepare("UPDATE analysis_jobs SET status = 'paused' WHERE id = ? AND status = 'pending'").run(id);
+  return result.changes > 0;
+}
+
+/** Put a paused, failed or cancelled job back into the queue; returns false if nothing changed. */
+export function resumeJob(id: number): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(
+      "UPDATE analysis_jobs SET status = 'pending', error = NULL, completed_at = NULL WHERE id = ? AND status IN ('paused', 'failed', 'cancelled')",
+    )
+    .run(id);
+  return result.changes > 0;
+}
+
+/**
+ * Swap a queued job with its nearest queued neighbour in the given direction.
+ * Running and finished jobs keep their place.
+ */
+export function moveJob(id: number, direction: 'up' | 'down'): void {
+  const db = getDb();
+  const statuses = QUEUED_STATUSES.map(() => '?').join(', ');
+  db.transaction(() => {
+    const job = db
+      .prepare(`SELECT id, position FROM analysis_jobs WHERE id = ? AND status IN (${statuses})`)
+      .get(id, ...QUEUED_STATUSES) as { id: number; position: number } | undefined;
+    if (!job) return;
+
+    const neighbour = db
+      .prepare(
+        direction === 'up'
+          ? `SELECT id, position FROM analysis_jobs WHERE status IN (${statuses}) AND position < ? ORDER BY position DESC LIMIT 1`
+          : `SELECT id, position FROM analysis_jobs WHERE status IN (${statuses}) AND position > ? ORDER BY position ASC LIMIT 1`,
+      )
+      .get(...QUEUED_STATUSES, job.position) as { id: number; position: number } | undefined;
+    if (!neighbour) return;
+
+    const update = db.prepare('UPDATE analysis_jobs SET position = ? WHERE id = ?');
+    update.run(neighbour.position, job.id);
+    update.run(job.position, neighbour.id);
+  })();
+}
+
+export function deleteJob(id: number): void {
+  const db = getDb();
+  db.prepare('DELETE FROM analysis_jobs WHERE id = ?').run(id);
+}
+
+/** Remove completed, failed and cancelled jobs from the queue. */
+export function clearFinishedJobs(): number {
+  const db = getDb();
+  const result = db.prepare("DELETE FROM analysis_jobs WHERE status NOT IN ('pending', 'running', 'paused')").run();
+  return result.changes;
+}
+
+/**
+ * Pause any jobs left in 'running' state; they were interrupted by a previous session.
+ * They are not restarted automatically so a crash during analysis cannot loop on launch.
+ */
+export function pauseStaleJobs(): number {
+  const db = getDb();
+  const result = db.prepare("UPDATE analysis_jobs SET status = 'paused' WHERE status = 'running'").run();
+  return result.changes;
+}
@@ -0,0 +1,59 @@
+import { getDb } from './database';
+import type { AnalysisPreset, AnalysisPresetInput } from '$shared/types';
+
+export function getPresets(): AnalysisPreset[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM analysis_presets ORDER BY name COLLATE NOCASE').all() as AnalysisPreset[];
+}
+
+function getPresetById(id: number): AnalysisPreset | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM analysis_presets WHERE id = ?').get(id) as AnalysisPreset | undefined;
+}
+
+function assertNameFree(name: string, exceptId: number | null): void {
+  const db = getDb();
+  const clash = db.prepare('SELECT id FROM analysis_presets WHERE name = ? AND id IS NOT ?').get(name, exceptId) as
+    { id: number } | undefined;
+  if (clash) throw new Error(`A preset named "${name}" already exists`);
+}
+
+export function createPreset(fields: AnalysisPresetInput): AnalysisPreset {
+  const db = getDb();
+  assertNameFree(fields.name, null);
+  const result = db
+    .prepare(
+      `INSERT INTO analysis_presets
+         (name, model, min_confidence, latitude, longitude, location_name, month, day, execution_provider, extra_args,
+          species_list_id, species_list_mode)
+       VALUES (@name, @model, @min_confidence, @latitude, @longitude, @location_name, @month, @day,
+         @execution_provider, @extra_args, @species_list_id, @species_list_mode)`,
+    )
+    .run(fields);
+  const preset = getPresetById(result.lastInsertRowid as number);
+  if (!preset) throw new Error('Failed to create preset');
+  return preset;
+}
+
+export function updatePreset(id: number, fields: AnalysisPresetInput): AnalysisPreset {
+  const db = getDb();
+  assertNameFree(fields.name, id);
+  const result = db
+    .prepare(
+      `UPDATE analysis_presets SET name = @name, model = @model, min_confidence = @min_confidence,
+         latitude = @latitude, longitude = @longitude, location_name = @location_name, month = @month, day = @day,
+         execution_provider = @execution_provider, extra_args = @extra_args, species_list_id = @species_list_id,
+         species_list_mode = @species_list_mode, updated_at = datetime('now')
+       WHERE id = @id`,
+    )
+    .run({ ...fields, id });
+  if (result.changes === 0) throw new Error(`Preset ${id} not found`);
+  const preset = getPresetById(id);
+  if (!preset) throw new Error(`Preset ${id} not found`);
+  return preset;
+}
+
+export function deletePreset(id: number): void {
+  const db = getDb();
+  db.prepare('DELETE FROM analysis_presets WHERE id = ?').run(id);
+}
@@ -1,5 +1,7 @@
 import { getDb } from './database';
-import type { Annotation, AnnotationInput } from '$shared/types';
+import type { Annotation, AnnotationInput, VerificationVerdict } from '$shared/types';
+import type { DatasetAnnotation } from '../export/training-dataset';
+import type { EvalBox } from '../evaluation/evaluation';
 
 const ANNOTATION_COLUMNS = `id, audio_file_id, detection_id, start_time, end_time, low_freq_hz, high_freq_hz,
        scientific_name, confidence, source, status, created_at, updated_at`;
@@ -83,6 +85,103 @@ export function upsertAnnotation(input: AnnotationInput): Annotation {
     ) as Annotation;
 }
 
+/**
+ * Store a reviewer's verdict on a detection as its annotation, replacing an earlier verdict.
+ * Frequency bounds drawn in the annotation editor are kept.
+ */
+export function recordVerification(
+  detectionId: number,
+  verdict: VerificationVerdict,
+  scientificName?: string,
+): Annotation {
+  if (verdict === 'relabel' && !scientificName) {
+    throw new Error('A relabel needs the species that was actually heard');
+  }
+  const db = getDb();
+  const detection = db
+    .prepare('SELECT audio_file_id, start_time, end_time, scientific_name, confidence FROM detections WHERE id = ?')
+    .get(detectionId) as
+    | { audio_file_id: number; start_time: number; end_time: number; scientific_name: string; confidence: number }
+    | undefined;
+  if (!detection) throw new Error(`Detection ${detectionId} no longer exists; its run may have been deleted`);
+
+  const existing = db
+    .prepare('SELECT id, low_freq_hz, high_freq_hz FROM annotations WHERE detection_id = ? ORDER BY id DESC LIMIT 1')
+    .get(detectionId) as { id: number; low_freq_hz: number | null; high_freq_hz: number | null } | undefined;
+
+  return upsertAnnotation({
+    id: existing?.id,
+    audio_file_id: detection.audio_file_id,
+    detection_id: detectionId,
+    start_time: detection.start_time,
+    end_time: detection.end_time,
+    low_freq_hz: existing?.low_freq_hz ?? null,
+    high_freq_hz: existing?.high_freq_hz ?? null,
+    scientific_name: verdict === 'relabel' && scientificName ? scientificName : detection.scientific_name,
+    confidence: detection.confidence,
+    source: 'birda',
+    status: verdict === 'reject' ? 'rejected' : 'accepted',
+  });
+}
+
+/**
+ * Store imported manual annotations in one transaction. A box already stored as a manual
+ * annotation of the same species is skipped, so importing a file twice adds nothing; returns
+ * the number inserted.
+ */
+export function importManualAnnotations(inputs: AnnotationInput[]): number {
+  const db = getDb();
+  const exists = db.prepare(
+    `SELECT 1 FROM annotations
+     WHERE audio_file_id = ? AND source = 'manual' AND scientific_name = ?
+       AND ABS(start_time - ?) < 0.001 AND ABS(end_time - ?) < 0.001
+     LIMIT 1`,
+  );
+  return db.transaction(() => {
+    let inserted = 0;
+    for (const input of inputs) {
+      if (exists.get(input.audio_file_id, input.scientific_name, input.start_time, input.end_time)) continue;
+      upsertAnnotation(input);
+      inserted++;
+    }
+    return inserted;
+  })();
+}
+
+/**
+ * Manual ground-truth boxes on the files a run analysed, wherever they were drawn: boxes
+ * imported against another run of the same recordings count too.
+ */
+export function getGroundTruthBoxes(runId: number): EvalBox[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT DISTINCT af.file_path, a.scientific_name, a.start_time, a.end_time
+       FROM annotations a
+       JOIN audio_files af ON a.audio_file_id = af.id
+       WHERE a.source = 'manual' AND a.status != 'rejected'
+         AND af.file_path IN (SELECT file_path FROM audio_files WHERE run_id = ?)`,
+    )
+    .all(runId) as EvalBox[];
+}
+
+/** Annotations with their recording, for training-data export; all runs when runId is null. */
+export function listDatasetAnnotations(runId: number | null): DatasetAnnotation[] {
+  const db = getDb();
+  const columns = ANNOTATION_COLUMNS.split(',')
+    .map((column) => `a.${column.trim()}`)
+    .join(', ');
+  return db
+    .prepare(
+      `SELECT ${columns}, af.file_path, af.duration_sec, af.sample_rate
+       FROM annotations a
+       JOIN audio_files af ON a.audio_file_id = af.id
+       WHERE ? IS NULL OR af.run_id = ?
+       ORDER BY a.scientific_name, af.file_path, a.start_time`,
+    )
+    .all(runId, runId) as DatasetAnnotation[];
+}
+
 export function deleteAnnotation(id: number): void {
   const db = getDb();
   db.prepare('DELETE FROM annotations WHERE id = ?').run(id);
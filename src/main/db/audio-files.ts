@@ -6,7 +6,12 @@ import path from 'path';
  * Create or retrieve existing audio_file record for idempotency.
  * Returns the audio_file_id.
  */
-export function createAudioFile(runId: number, filePath: string, metadata: AudioFileMetadata): number {
+export function createAudioFile(
+  runId: number,
+  filePath: string,
+  metadata: AudioFileMetadata,
+  deploymentId: number | null = null,
+): number {
   const db = getDb();
 
   // Check if already exists (for retry scenarios)
@@ -22,8 +27,8 @@ export function createAudioFile(runId: number, filePath: string, metadata: Audio
     INSERT INTO audio_files (
       run_id, file_path, file_name, recording_start, timezone_offset_min,
       duration_sec, sample_rate, channels,
-      audiomoth_device_id, audiomoth_gain, audiomoth_battery_v, audiomoth_temperature_c
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      audiomoth_device_id, audiomoth_gain, audiomoth_battery_v, audiomoth_temperature_c, deployment_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `,
     )
     .run(
@@ -39,7 +44,35 @@ export function createAudioFile(runId: number, filePath: string, metadata: Audio
       metadata.audiomoth_gain ?? null,
       metadata.audiomoth_battery_v ?? null,
       metadata.audiomoth_temperature_c ?? null,
+      deploymentId,
     );
 
   return result.lastInsertRowid as number;
 }
+
+/** File paths of every audio file already imported into a run. */
+export function getAudioFilePathsForRun(runId: number): string[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT file_path FROM audio_files WHERE run_id = ?').all(runId) as { file_path: string }[];
+  return rows.map((r) => r.file_path);
+}
+
+/** Distinct file paths of every audio file in any run. */
+export function getAllAudioFilePaths(): string[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT DISTINCT file_path FROM audio_files').all() as { file_path: string }[];
+  return rows.map((r) => r.file_path);
+}
+
+/** The subset of the given paths that some run has already imported. */
+export function getAnalyzedFilePaths(filePaths: string[]): Set<string> {
+  const db = getDb();
+  const stmt = db.prepare('SELECT 1 FROM audio_files WHERE file_path = ? LIMIT 1');
+  return new Set(filePaths.filter((filePath) => stmt.get(filePath) !== undefined));
+}
+
+/** Delete an audio file record; its detections and annotations cascade. */
+export function deleteAudioFile(id: number): void {
+  const db = getDb();
+  db.prepare('DELETE FROM audio_files WHERE id = ?').run(id);
+}
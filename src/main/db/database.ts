@@ -100,6 +100,16 @@ function runMigrations(db: Database.Database): void {
     })();
   }
 
+  // A database created from schema.ts already allows completed_with_errors, and rebuilding its
+  // analysis_runs with the fixed column list below would drop the columns added since
+  const runsTable = db
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'analysis_runs'")
+    .get() as { sql: string } | undefined;
+  if (!applied.has(4) && runsTable?.sql.includes('completed_with_errors')) {
+    db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(4);
+    applied.add(4);
+  }
+
   // Migration 4: Add completed_with_errors status
   if (!applied.has(4)) {
     console.log('Migrating to version 4: Add completed_with_errors status');
@@ -157,169 +167,168 @@ function runMigrations(db: Database.Database): void {
       // New database with current schema - audio_files table already exists via schema.ts
       console.log('Detections table already uses audio_file_id - skipping migration');
       db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(5);
-      return;
-    }
-
-    // Temporarily disable foreign keys for table recreation
-    db.pragma('foreign_keys = OFF');
+    } else {
+      // Temporarily disable foreign keys for table recreation
+      db.pragma('foreign_keys = OFF');
 
-    try {
-      db.transaction(() => {
-        // Create audio_files table
-        db.exec(`
-          CREATE TABLE IF NOT EXISTS audio_files (
-            id                      INTEGER PRIMARY KEY AUTOINCREMENT,
-            run_id                  INTEGER NOT NULL REFERENCES analysis_runs(id) ON DELETE CASCADE,
-            file_path               TEXT NOT NULL,
-            file_name               TEXT NOT NULL,
-            recording_start         TEXT,
-            timezone_offset_min     INTEGER,
-            duration_sec            REAL,
-            sample_rate             INTEGER,
-            channels                INTEGER,
-            audiomoth_device_id     TEXT,
-            audiomoth_gain          TEXT,
-            audiomoth_battery_v     REAL,
-            audiomoth_temperature_c REAL,
-            created_at              TEXT NOT NULL DEFAULT (datetime('now'))
-          );
+      try {
+        db.transaction(() => {
+          // Create audio_files table
+          db.exec(`
+            CREATE TABLE IF NOT EXISTS audio_files (
+              id                      INTEGER PRIMARY KEY AUTOINCREMENT,
+              run_id                  INTEGER NOT NULL REFERENCES analysis_runs(id) ON DELETE CASCADE,
+              file_path               TEXT NOT NULL,
+              file_name               TEXT NOT NULL,
+              recording_start         TEXT,
+              timezone_offset_min     INTEGER,
+              duration_sec            REAL,
+              sample_rate             INTEGER,
+              channels                INTEGER,
+              audiomoth_device_id     TEXT,
+              audiomoth_gain          TEXT,
+              audiomoth_battery_v     REAL,
+              audiomoth_temperature_c REAL,
+              created_at              TEXT NOT NULL DEFAULT (datetime('now'))
+            );
 
-          CREATE INDEX IF NOT EXISTS idx_audio_files_run ON audio_files(run_id);
-          CREATE INDEX IF NOT EXISTS idx_audio_files_path ON audio_files(file_path);
-          CREATE INDEX IF NOT EXISTS idx_audio_files_device ON audio_files(audiomoth_device_id);
-          CREATE INDEX IF NOT EXISTS idx_audio_files_recording_start ON audio_files(recording_start);
-        `);
+            CREATE INDEX IF NOT EXISTS idx_audio_files_run ON audio_files(run_id);
+            CREATE INDEX IF NOT EXISTS idx_audio_files_path ON audio_files(file_path);
+            CREATE INDEX IF NOT EXISTS idx_audio_files_device ON audio_files(audiomoth_device_id);
+            CREATE INDEX IF NOT EXISTS idx_audio_files_recording_start ON audio_files(recording_start);
+          `);
 
-        // Migrate existing data: group detections by (run_id, source_file)
-        const uniqueFiles = db
-          .prepare(
-            `
-          SELECT DISTINCT run_id, source_file
-          FROM detections
-          ORDER BY run_id, source_file
-        `,
-          )
-          .all() as { run_id: number; source_file: string }[];
+          // Migrate existing data: group detections by (run_id, source_file)
+          const uniqueFiles = db
+            .prepare(
+              `
+            SELECT DISTINCT run_id, source_file
+            FROM detections
+            ORDER BY run_id, source_file
+          `,
+            )
+            .all() as { run_id: number; source_file: string }[];
 
-        console.log(`Migrating ${uniqueFiles.length} unique audio files`);
+          console.log(`Migrating ${uniqueFiles.length} unique audio files`);
 
-        const insertAudioFile = db.prepare(`
-          INSERT INTO audio_files (run_id, file_path, file_name, recording_start, timezone_offset_min)
-          VALUES (?, ?, ?, ?, ?)
-        `);
+          const insertAudioFile = db.prepare(`
+            INSERT INTO audio_files (run_id, file_path, file_name, recording_start, timezone_offset_min)
+            VALUES (?, ?, ?, ?, ?)
+          `);
 
-        const getRunTimezone = db.prepare(`
-          SELECT timezone_offset_min FROM analysis_runs WHERE id = ?
-        `);
+          const getRunTimezone = db.prepare(`
+            SELECT timezone_offset_min FROM analysis_runs WHERE id = ?
+          `);
 
-        // Create temporary mapping table
-        db.exec(`
-          CREATE TEMP TABLE audio_file_mapping (
-            run_id INTEGER NOT NULL,
-            source_file TEXT NOT NULL,
-            audio_file_id INTEGER NOT NULL,
-            PRIMARY KEY (run_id, source_file)
-          )
-        `);
+          // Create temporary mapping table
+          db.exec(`
+            CREATE TEMP TABLE audio_file_mapping (
+              run_id INTEGER NOT NULL,
+              source_file TEXT NOT NULL,
+              audio_file_id INTEGER NOT NULL,
+              PRIMARY KEY (run_id, source_file)
+            )
+          `);
 
-        const insertMapping = db.prepare(`
-          INSERT INTO audio_file_mapping (run_id, source_file, audio_file_id)
-          VALUES (?, ?, ?)
-        `);
+          const insertMapping = db.prepare(`
+            INSERT INTO audio_file_mapping (run_id, source_file, audio_file_id)
+            VALUES (?, ?, ?)
+          `);
 
-        for (const { run_id, source_file } of uniqueFiles) {
-          // Extract file name from path
-          const fileName = source_file.replace(/\\/g, '/').split('/').pop() ?? source_file;
-
-          // Try to parse AudioMoth timestamp from filename (YYYYMMDD_HHMMSS)
-          let recordingStart: string | null = null;
-          const audioMothMatch = /(\d{8})_(\d{6})/.exec(fileName);
-          if (audioMothMatch) {
-            const [, dateStr, timeStr] = audioMothMatch;
-            // Parse: YYYYMMDD -> YYYY-MM-DD, HHMMSS -> HH:MM:SS
-            const year = dateStr.slice(0, 4);
-            const month = dateStr.slice(4, 6);
-            const day = dateStr.slice(6, 8);
-            const hour = timeStr.slice(0, 2);
-            const minute = timeStr.slice(2, 4);
-            const second = timeStr.slice(4, 6);
-            recordingStart = `${year}-${month}-${day} ${hour}:${minute}:${second}`;
+          for (const { run_id, source_file } of uniqueFiles) {
+            // Extract file name from path
+            const fileName = source_file.replace(/\\/g, '/').split('/').pop() ?? source_file;
+
+            // Try to parse AudioMoth timestamp from filename (YYYYMMDD_HHMMSS)
+            let recordingStart: string | null = null;
+            const audioMothMatch = /(\d{8})_(\d{6})/.exec(fileName);
+            if (audioMothMatch) {
+              const [, dateStr, timeStr] = audioMothMatch;
+              // Parse: YYYYMMDD -> YYYY-MM-DD, HHMMSS -> HH:MM:SS
+              const year = dateStr.slice(0, 4);
+              const month = dateStr.slice(4, 6);
+              const day = dateStr.slice(6, 8);
+              const hour = timeStr.slice(0, 2);
+              const minute = timeStr.slice(2, 4);
+              const second = timeStr.slice(4, 6);
+              recordingStart = `${year}-${month}-${day} ${hour}:${minute}:${second}`;
+            }
+
+            // Get timezone from run
+            const runData = getRunTimezone.get(run_id) as { timezone_offset_min: number | null } | undefined;
+            const timezoneOffset = runData?.timezone_offset_min ?? null;
+
+            // Insert audio file record
+            const result = insertAudioFile.run(run_id, source_file, fileName, recordingStart, timezoneOffset);
+
+            // Store mapping for later use
+            insertMapping.run(run_id, source_file, result.lastInsertRowid);
           }
 
-          // Get timezone from run
-          const runData = getRunTimezone.get(run_id) as { timezone_offset_min: number | null } | undefined;
-          const timezoneOffset = runData?.timezone_offset_min ?? null;
-
-          // Insert audio file record
-          const result = insertAudioFile.run(run_id, source_file, fileName, recordingStart, timezoneOffset);
-
-          // Store mapping for later use
-          insertMapping.run(run_id, source_file, result.lastInsertRowid);
-        }
-
-        console.log('Audio files migration completed');
+          console.log('Audio files migration completed');
 
-        // Drop views that depend on detections table
-        db.exec('DROP VIEW IF EXISTS species_summary');
+          // Drop views that depend on detections table
+          db.exec('DROP VIEW IF EXISTS species_summary');
 
-        // Recreate detections table with audio_file_id instead of source_file
-        db.exec(`
-          CREATE TABLE detections_new (
-            id              INTEGER PRIMARY KEY AUTOINCREMENT,
-            run_id          INTEGER NOT NULL REFERENCES analysis_runs(id) ON DELETE CASCADE,
-            location_id     INTEGER REFERENCES locations(id) ON DELETE SET NULL,
-            audio_file_id   INTEGER NOT NULL REFERENCES audio_files(id) ON DELETE CASCADE,
-            start_time      REAL NOT NULL,
-            end_time        REAL NOT NULL,
-            scientific_name TEXT NOT NULL,
-            confidence      REAL NOT NULL,
-            clip_path       TEXT,
-            detected_at     TEXT NOT NULL DEFAULT (datetime('now'))
-          );
-        `);
+          // Recreate detections table with audio_file_id instead of source_file
+          db.exec(`
+            CREATE TABLE detections_new (
+              id              INTEGER PRIMARY KEY AUTOINCREMENT,
+              run_id          INTEGER NOT NULL REFERENCES analysis_runs(id) ON DELETE CASCADE,
+              location_id     INTEGER REFERENCES locations(id) ON DELETE SET NULL,
+              audio_file_id   INTEGER NOT NULL REFERENCES audio_files(id) ON DELETE CASCADE,
+              start_time      REAL NOT NULL,
+              end_time        REAL NOT NULL,
+              scientific_name TEXT NOT NULL,
+              confidence      REAL NOT NULL,
+              clip_path       TEXT,
+              detected_at     TEXT NOT NULL DEFAULT (datetime('now'))
+            );
+          `);
 
-        // Copy data with audio_file_id from mapping
-        db.exec(`
-          INSERT INTO detections_new (id, run_id, location_id, audio_file_id, start_time, end_time, scientific_name, confidence, clip_path, detected_at)
-          SELECT d.id, d.run_id, d.location_id, m.audio_file_id, d.start_time, d.end_time, d.scientific_name, d.confidence, d.clip_path, d.detected_at
-          FROM detections d
-          INNER JOIN audio_file_mapping m ON d.run_id = m.run_id AND d.source_file = m.source_file
-        `);
+          // Copy data with audio_file_id from mapping
+          db.exec(`
+            INSERT INTO detections_new (id, run_id, location_id, audio_file_id, start_time, end_time, scientific_name, confidence, clip_path, detected_at)
+            SELECT d.id, d.run_id, d.location_id, m.audio_file_id, d.start_time, d.end_time, d.scientific_name, d.confidence, d.clip_path, d.detected_at
+            FROM detections d
+            INNER JOIN audio_file_mapping m ON d.run_id = m.run_id AND d.source_file = m.source_file
+          `);
 
-        // Drop old table and rename new one
-        db.exec('DROP TABLE detections');
-        db.exec('ALTER TABLE detections_new RENAME TO detections');
+          // Drop old table and rename new one
+          db.exec('DROP TABLE detections');
+          db.exec('ALTER TABLE detections_new RENAME TO detections');
 
-        // Recreate indexes
-        db.exec(`
-          CREATE INDEX IF NOT EXISTS idx_detections_species ON detections(scientific_name);
-          CREATE INDEX IF NOT EXISTS idx_detections_location ON detections(location_id);
-          CREATE INDEX IF NOT EXISTS idx_detections_run ON detections(run_id);
-          CREATE INDEX IF NOT EXISTS idx_detections_confidence ON detections(confidence);
-          CREATE INDEX IF NOT EXISTS idx_detections_audio_file ON detections(audio_file_id);
-        `);
+          // Recreate indexes
+          db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_detections_species ON detections(scientific_name);
+            CREATE INDEX IF NOT EXISTS idx_detections_location ON detections(location_id);
+            CREATE INDEX IF NOT EXISTS idx_detections_run ON detections(run_id);
+            CREATE INDEX IF NOT EXISTS idx_detections_confidence ON detections(confidence);
+            CREATE INDEX IF NOT EXISTS idx_detections_audio_file ON detections(audio_file_id);
+          `);
 
-        // Recreate species_summary view
-        db.exec(`
-          CREATE VIEW IF NOT EXISTS species_summary AS
-          SELECT
-            scientific_name,
-            COUNT(DISTINCT location_id) AS location_count,
-            COUNT(*) AS detection_count,
-            MAX(detected_at) AS last_detected,
-            AVG(confidence) AS avg_confidence
-          FROM detections
-          GROUP BY scientific_name
-        `);
+          // Recreate species_summary view
+          db.exec(`
+            CREATE VIEW IF NOT EXISTS species_summary AS
+            SELECT
+              scientific_name,
+              COUNT(DISTINCT location_id) AS location_count,
+              COUNT(*) AS detection_count,
+              MAX(detected_at) AS last_detected,
+              AVG(confidence) AS avg_confidence
+            FROM detections
+            GROUP BY scientific_name
+          `);
 
-        // Clean up temp table
-        db.exec('DROP TABLE audio_file_mapping');
+          // Clean up temp table
+          db.exec('DROP TABLE audio_file_mapping');
 
-        db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(5);
-      })();
-    } finally {
-      // Re-enable foreign keys even if migration fails
-      db.pragma('foreign_keys = ON');
+          db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(5);
+        })();
+      } finally {
+        // Re-enable foreign keys even if migration fails
+        db.pragma('foreign_keys = ON');
+      }
     }
   }
 
@@ -430,6 +439,192 @@ function runMigrations(db: Database.Database): void {
       db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(7);
     })();
   }
+
+  // Migration 8: Add persistent analysis job queue
+  if (!applied.has(8)) {
+    console.log('Migrating to version 8: Add analysis_jobs table');
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS analysis_jobs (
+          id           INTEGER PRIMARY KEY AUTOINCREMENT,
+          request_json TEXT NOT NULL,
+          status       TEXT NOT NULL DEFAULT 'pending'
+                       CHECK (status IN ('pending','running','paused','completed','completed_with_errors','failed','cancelled')),
+          position     INTEGER NOT NULL,
+          run_id       INTEGER REFERENCES analysis_runs(id) ON DELETE SET NULL,
+          error        TEXT,
+          created_at   TEXT NOT NULL DEFAULT (datetime('now')),
+          started_at   TEXT,
+          completed_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status, position);
+      `);
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(8);
+    })();
+  }
+
+  // Migration 9: Per-species confidence thresholds
+  if (!applied.has(9)) {
+    console.log('Migrating to version 9: Add species_thresholds table');
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS species_thresholds (
+          scientific_name TEXT PRIMARY KEY,
+          threshold       REAL NOT NULL CHECK (threshold >= 0 AND threshold <= 1),
+          updated_at      TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(9);
+    })();
+  }
+
+  // Migration 10: Device deployments that place recordings at a location
+  if (!applied.has(10)) {
+    console.log('Migrating to version 10: Add deployments table');
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS deployments (
+          id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+          audiomoth_device_id TEXT NOT NULL,
+          location_id         INTEGER NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+          start_date          TEXT NOT NULL,
+          end_date            TEXT,
+          habitat             TEXT,
+          mic_height_m        REAL,
+          notes               TEXT,
+          created_at          TEXT NOT NULL DEFAULT (datetime('now')),
+          CHECK (end_date IS NULL OR end_date >= start_date)
+        );
+        CREATE INDEX IF NOT EXISTS idx_deployments_device ON deployments(audiomoth_device_id, start_date);
+      `);
+      const columns = db.prepare('PRAGMA table_info(audio_files)').all() as { name: string }[];
+      if (!columns.some((c) => c.name === 'deployment_id')) {
+        db.exec(
+          'ALTER TABLE audio_files ADD COLUMN deployment_id INTEGER REFERENCES deployments(id) ON DELETE SET NULL',
+        );
+      }
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(10);
+    })();
+  }
+
+  // Migration 11: Named analysis presets
+  if (!applied.has(11)) {
+    console.log('Migrating to version 11: Add analysis_presets table');
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS analysis_presets (
+          id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+          name               TEXT NOT NULL UNIQUE,
+          model              TEXT NOT NULL,
+          min_confidence     REAL NOT NULL CHECK (min_confidence >= 0 AND min_confidence <= 1),
+          latitude           REAL,
+          longitude          REAL,
+          location_name      TEXT,
+          month              INTEGER CHECK (month BETWEEN 1 AND 12),
+          day                INTEGER CHECK (day BETWEEN 1 AND 31),
+          execution_provider TEXT,
+          extra_args         TEXT,
+          created_at         TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at         TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(11);
+    })();
+  }
+
+  // Migration 12: Species list applied by analysis presets
+  if (!applied.has(12)) {
+    console.log('Migrating to version 12: Add species list to analysis_presets');
+    db.transaction(() => {
+      const columns = db.prepare('PRAGMA table_info(analysis_presets)').all() as { name: string }[];
+      if (!columns.some((c) => c.name === 'species_list_id')) {
+        db.exec(`
+          ALTER TABLE analysis_presets ADD COLUMN species_list_id INTEGER REFERENCES species_lists(id) ON DELETE SET NULL;
+          ALTER TABLE analysis_presets ADD COLUMN species_list_mode TEXT NOT NULL DEFAULT 'include'
+            CHECK (species_list_mode IN ('include','exclude'));
+        `);
+      }
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(12);
+    })();
+  }
+
+  // Migration 13: Species list change history
+  if (!applied.has(13)) {
+    console.log('Migrating to version 13: Add species list change history');
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS species_list_changes (
+          id                    INTEGER PRIMARY KEY AUTOINCREMENT,
+          list_id               INTEGER NOT NULL REFERENCES species_lists(id) ON DELETE CASCADE,
+          action                TEXT NOT NULL CHECK (action IN ('created','duplicated','combined','renamed','species_added','species_removed')),
+          detail                TEXT,
+          scientific_names_json TEXT NOT NULL DEFAULT '[]',
+          created_at            TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS idx_slc_list ON species_list_changes(list_id);
+        -- Existing lists start their history at creation
+        INSERT INTO species_list_changes (list_id, action, created_at)
+          SELECT id, 'created', created_at FROM species_lists;
+      `);
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(13);
+    })();
+  }
+
+  // Migration 14: Site profiles of expected species per week
+  if (!applied.has(14)) {
+    console.log('Migrating to version 14: Add site profiles');
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS site_profiles (
+          location_id INTEGER PRIMARY KEY REFERENCES locations(id) ON DELETE CASCADE,
+          threshold   REAL NOT NULL,
+          created_at  TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS site_profile_species (
+          location_id     INTEGER NOT NULL REFERENCES site_profiles(location_id) ON DELETE CASCADE,
+          week            INTEGER NOT NULL CHECK (week BETWEEN 1 AND 48),
+          scientific_name TEXT NOT NULL,
+          frequency       REAL NOT NULL,
+          PRIMARY KEY (location_id, week, scientific_name)
+        );
+      `);
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(14);
+    })();
+  }
+
+  // Migration 15: Index detections for event merging
+  if (!applied.has(15)) {
+    console.log('Migrating to version 15: Index detections for event merging');
+    db.transaction(() => {
+      db.exec(
+        'CREATE INDEX IF NOT EXISTS idx_detections_event ON detections(audio_file_id, scientific_name, start_time)',
+      );
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(15);
+    })();
+  }
+
+  // Migration 16: Run ensembles
+  if (!applied.has(16)) {
+    console.log('Migrating to version 16: Add run ensembles');
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS run_ensembles (
+          id          INTEGER PRIMARY KEY AUTOINCREMENT,
+          source_path TEXT NOT NULL,
+          models_json TEXT NOT NULL,
+          created_at  TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+      const columns = db.prepare('PRAGMA table_info(analysis_runs)').all() as { name: string }[];
+      if (!columns.some((c) => c.name === 'ensemble_id')) {
+        db.exec(
+          'ALTER TABLE analysis_runs ADD COLUMN ensemble_id INTEGER REFERENCES run_ensembles(id) ON DELETE SET NULL',
+        );
+      }
+      db.prepare('INSERT INTO schema_migrations (version) VALUES (?)').run(16);
+    })();
+  }
 }
 
 export function clearDatabase(): ClearDatabaseResult {
@@ -440,10 +635,16 @@ export function clearDatabase(): ClearDatabaseResult {
     const locations = (d.prepare('SELECT COUNT(*) as c FROM locations').get() as { c: number }).c;
     // Annotations cascade-delete via audio_files when analysis_runs are removed; count them for the report.
     const annotations = (d.prepare('SELECT COUNT(*) as c FROM annotations').get() as { c: number }).c;
+    d.exec('DELETE FROM species_list_changes');
     d.exec('DELETE FROM species_list_entries');
     d.exec('DELETE FROM species_lists');
+    d.exec('DELETE FROM species_thresholds');
+    d.exec('DELETE FROM site_profile_species');
+    d.exec('DELETE FROM site_profiles');
     d.exec('DELETE FROM detections');
     d.exec('DELETE FROM analysis_runs');
+    d.exec('DELETE FROM run_ensembles');
+    d.exec('DELETE FROM deployments');
     d.exec('DELETE FROM locations');
     return { detections, runs, locations, annotations };
   })();
@@ -0,0 +1,142 @@
+import { getDb } from './database';
+import type { AudioFileMetadata, Deployment, DeploymentWithStats } from '$shared/types';
+
+/**
+ * Deployment covering a device id on a recording's local date. recording_start keeps
+ * the recorder's own offset, so its first ten characters are the local date.
+ * Overlapping deployments resolve to the one that started last.
+ */
+function matchSql(columns: string, deviceExpr: string, recordingStartExpr: string): string {
+  return `
+    SELECT ${columns} FROM deployments
+    WHERE audiomoth_device_id = ${deviceExpr}
+      AND start_date <= substr(${recordingStartExpr}, 1, 10)
+      AND (end_date IS NULL OR end_date >= substr(${recordingStartExpr}, 1, 10))
+    ORDER BY start_date DESC, id DESC
+    LIMIT 1
+  `;
+}
+
+interface DeploymentFields {
+  audiomoth_device_id: string;
+  location_id: number;
+  start_date: string;
+  end_date: string | null;
+  habitat: string | null;
+  mic_height_m: number | null;
+  notes: string | null;
+}
+
+export function getDeployments(): DeploymentWithStats[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `
+    SELECT dp.*, l.name AS location_name, l.latitude, l.longitude,
+      (SELECT COUNT(*) FROM audio_files af WHERE af.deployment_id = dp.id) AS file_count
+    FROM deployments dp
+    JOIN locations l ON l.id = dp.location_id
+    ORDER BY dp.start_date DESC, dp.audiomoth_device_id
+  `,
+    )
+    .all() as DeploymentWithStats[];
+}
+
+function getDeploymentById(id: number): Deployment | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM deployments WHERE id = ?').get(id) as Deployment | undefined;
+}
+
+export function createDeployment(fields: DeploymentFields): Deployment {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `INSERT INTO deployments (audiomoth_device_id, location_id, start_date, end_date, habitat, mic_height_m, notes)
+       VALUES (@audiomoth_device_id, @location_id, @start_date, @end_date, @habitat, @mic_height_m, @notes)`,
+    )
+    .run(fields);
+  const deployment = getDeploymentById(result.lastInsertRowid as number);
+  if (!deployment) throw new Error('Failed to create deployment');
+  assignDeployments();
+  return deployment;
+}
+
+export function updateDeployment(id: number, fields: DeploymentFields): Deployment {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `UPDATE deployments SET audiomoth_device_id = @audiomoth_device_id, location_id = @location_id,
+         start_date = @start_date, end_date = @end_date, habitat = @habitat, mic_height_m = @mic_height_m,
+         notes = @notes
+       WHERE id = @id`,
+    )
+    .run({ ...fields, id });
+  if (result.changes === 0) throw new Error(`Deployment ${id} not found`);
+  assignDeployments();
+  const deployment = getDeploymentById(id);
+  if (!deployment) throw new Error(`Deployment ${id} not found`);
+  return deployment;
+}
+
+export function deleteDeployment(id: number): void {
+  const db = getDb();
+  db.prepare('DELETE FROM deployments WHERE id = ?').run(id);
+  assignDeployments();
+}
+
+/** AudioMoth device ids seen in imported recordings, for suggesting in the deployment form. */
+export function getKnownDeviceIds(): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT audiomoth_device_id FROM audio_files
+       WHERE audiomoth_device_id IS NOT NULL ORDER BY audiomoth_device_id`,
+    )
+    .all() as { audiomoth_device_id: string }[];
+  return rows.map((r) => r.audiomoth_device_id);
+}
+
+/**
+ * Deployment and location for a recording about to be imported. Without a matching
+ * deployment the run's own location (if any) applies.
+ */
+export function resolveDeployment(
+  metadata: AudioFileMetadata,
+  fallbackLocationId: number | null,
+): { deploymentId: number | null; locationId: number | null } {
+  if (!metadata.audiomoth_device_id || !metadata.recording_start) {
+    return { deploymentId: null, locationId: fallbackLocationId };
+  }
+  const db = getDb();
+  const match = db
+    .prepare(matchSql('id, location_id', '@device', '@start'))
+    .get({ device: metadata.audiomoth_device_id, start: metadata.recording_start }) as
+    { id: number; location_id: number } | undefined;
+  return match
+    ? { deploymentId: match.id, locationId: match.location_id }
+    : { deploymentId: null, locationId: fallbackLocationId };
+}
+
+/**
+ * Re-match every device-tagged recording after deployments change, and move its
+ * detections to the deployment's location, or back to the run's when none matches.
+ */
+function assignDeployments(): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(
+      `UPDATE audio_files
+       SET deployment_id = (${matchSql('id', 'audio_files.audiomoth_device_id', 'audio_files.recording_start')})
+       WHERE audiomoth_device_id IS NOT NULL AND recording_start IS NOT NULL`,
+    ).run();
+    db.prepare(
+      `UPDATE detections
+       SET location_id = COALESCE(
+         (SELECT dp.location_id FROM audio_files af JOIN deployments dp ON dp.id = af.deployment_id
+          WHERE af.id = detections.audio_file_id),
+         (SELECT ar.location_id FROM analysis_runs ar WHERE ar.id = detections.run_id)
+       )
+       WHERE audio_file_id IN (SELECT id FROM audio_files WHERE audiomoth_device_id IS NOT NULL)`,
+    ).run();
+  })();
+}
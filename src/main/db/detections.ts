@@ -1,6 +1,19 @@
 import { getDb } from './database';
-import type { Detection, DetectionFilter, SpeciesSummary, CatalogStats, AudioFile } from '$shared/types';
+import type {
+  Detection,
+  DetectionFilter,
+  SpeciesSummary,
+  CatalogStats,
+  AudioFile,
+  SpeciesListMode,
+  ComparisonSite,
+  SiteSpeciesCount,
+} from '$shared/types';
 import type { BirdaDetection } from '../birda/types';
+import type { ActivityDetection } from '../activity/sun-activity';
+import type { DailySpeciesCount } from '../phenology/phenology';
+import type { EvalDetection } from '../evaluation/evaluation';
+import { countEvents, eventStartTracker, mergeEvents, type EventDetection } from '../events/events';
 import fs from 'fs';
 import { z } from 'zod';
 
@@ -10,18 +23,53 @@ const BASE_RETRY_DELAY_MS = 100;
 interface RawRunSpeciesAggregation {
   scientific_name: string;
   detection_count: number;
+  event_count: number;
   avg_confidence: number;
   max_confidence: number;
   first_detected: string;
   last_detected: string;
 }
 
+interface RawVerificationStats {
+  scientific_name: string;
+  total: number;
+  verified: number;
+  confirmed: number;
+  rejected: number;
+  relabeled: number;
+}
+
 interface RawGridDetection {
   scientific_name: string;
   start_time: number;
   file_path: string;
 }
 
+/** Consecutive same-species detections in one file, merged into a single vocalisation. */
+interface RawDetectionEvent {
+  scientific_name: string;
+  start_time: number;
+  end_time: number;
+  max_confidence: number;
+  detection_count: number;
+  file_path: string;
+}
+
+/** Species list a run applies to detections as they are imported. */
+export interface ImportSpeciesFilter {
+  names: Set<string>;
+  mode: SpeciesListMode;
+}
+
+export function applySpeciesFilter<T extends { scientific_name: string }>(
+  detections: T[],
+  filter: ImportSpeciesFilter | undefined,
+): T[] {
+  if (!filter) return detections;
+  const keep = filter.mode === 'include';
+  return detections.filter((d) => filter.names.has(d.scientific_name) === keep);
+}
+
 function escapeLike(str: string): string {
   return str.replace(/[%_\\]/g, '\\$&');
 }
@@ -51,6 +99,8 @@ function buildWhereClause(filter: DetectionFilter, tableAlias?: string): { where
   const conditions: string[] = [];
   const params: unknown[] = [];
   const prefix = tableAlias ? `${tableAlias}.` : '';
+  // Correlated subqueries need the outer table named explicitly
+  const outer = tableAlias ?? 'detections';
 
   if (filter.scientific_names && filter.scientific_names.length > 0) {
     const placeholders = filter.scientific_names.map(() => '?').join(', ');
@@ -70,10 +120,24 @@ function buildWhereClause(filter: DetectionFilter, tableAlias?: string): { where
     conditions.push(`${prefix}location_id = ?`);
     params.push(filter.location_id);
   }
-  if (filter.min_confidence) {
+  if (filter.location_ids && filter.location_ids.length > 0) {
+    conditions.push(`${prefix}location_id IN (${filter.location_ids.map(() => '?').join(', ')})`);
+    params.push(...filter.location_ids);
+  }
+  if (filter.use_species_thresholds) {
+    // A stored per-species threshold replaces the global minimum for that species
+    conditions.push(
+      `${prefix}confidence >= COALESCE((SELECT threshold FROM species_thresholds st WHERE st.scientific_name = ${outer}.scientific_name), ?)`,
+    );
+    params.push(filter.min_confidence ?? 0);
+  } else if (filter.min_confidence) {
     conditions.push(`${prefix}confidence >= ?`);
     params.push(filter.min_confidence);
   }
+  if (filter.max_confidence !== undefined) {
+    conditions.push(`${prefix}confidence <= ?`);
+    params.push(filter.max_confidence);
+  }
   if (filter.run_id) {
     conditions.push(`${prefix}run_id = ?`);
     params.push(filter.run_id);
@@ -86,11 +150,34 @@ function buildWhereClause(filter: DetectionFilter, tableAlias?: string): { where
     conditions.push(`${prefix}scientific_name IN (SELECT scientific_name FROM species_list_entries WHERE list_id = ?)`);
     params.push(filter.species_list_id);
   }
+  if (filter.unverified_only) {
+    conditions.push(`NOT EXISTS (SELECT 1 FROM annotations a WHERE a.detection_id = ${outer}.id)`);
+  }
 
   const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
   return { where, params };
 }
 
+/** The order the event rule walks detections in: by file, species and start time. */
+const EVENT_ORDER = 'ORDER BY d.audio_file_id, d.scientific_name, d.start_time, d.id';
+
+/** Event counts per species for the detections the clause selects. */
+function countSpeciesEvents(where: string, params: unknown[], eventGapSec: number): Map<string, number> {
+  const rows = getDb()
+    .prepare(
+      `SELECT d.audio_file_id, d.scientific_name, d.start_time, d.end_time
+       FROM detections d
+       ${where}
+       ${EVENT_ORDER}`,
+    )
+    .iterate(...params) as IterableIterator<EventDetection>;
+  return countEvents(rows, eventGapSec, (d) => d.scientific_name);
+}
+
+function withEventCounts(rows: SpeciesSummary[], eventCounts: Map<string, number>): SpeciesSummary[] {
+  return rows.map((r) => ({ ...r, event_count: eventCounts.get(r.scientific_name) ?? 0 }));
+}
+
 export function getDetections(filter: DetectionFilter): {
   detections: (Detection & { audio_file: AudioFile | null })[];
   total: number;
@@ -136,7 +223,7 @@ export function getDetections(filter: DetectionFilter): {
         af.duration_sec as af_duration_sec, af.sample_rate as af_sample_rate, af.channels as af_channels,
         af.audiomoth_device_id as af_audiomoth_device_id, af.audiomoth_gain as af_audiomoth_gain,
         af.audiomoth_battery_v as af_audiomoth_battery_v, af.audiomoth_temperature_c as af_audiomoth_temperature_c,
-        af.created_at as af_created_at
+        af.deployment_id as af_deployment_id, af.created_at as af_created_at
       FROM detections d
       LEFT JOIN audio_files af ON d.audio_file_id = af.id
       ${where}
@@ -167,6 +254,7 @@ export function getDetections(filter: DetectionFilter): {
     af_audiomoth_gain: string | null;
     af_audiomoth_battery_v: number | null;
     af_audiomoth_temperature_c: number | null;
+    af_deployment_id: number | null;
     af_created_at: string | null;
   }[];
 
@@ -198,6 +286,7 @@ export function getDetections(filter: DetectionFilter): {
             audiomoth_gain: row.af_audiomoth_gain,
             audiomoth_battery_v: row.af_audiomoth_battery_v,
             audiomoth_temperature_c: row.af_audiomoth_temperature_c,
+            deployment_id: row.af_deployment_id,
             created_at: row.af_created_at ?? '',
           }
         : null,
@@ -206,13 +295,14 @@ export function getDetections(filter: DetectionFilter): {
   return { detections, total };
 }
 
-export function getRunSpeciesAggregation(filter: DetectionFilter): RawRunSpeciesAggregation[] {
+export function getRunSpeciesAggregation(filter: DetectionFilter, eventGapSec: number): RawRunSpeciesAggregation[] {
   const db = getDb();
-  const { where, params } = buildWhereClause(filter);
+  const { where, params } = buildWhereClause(filter, 'd');
 
   const allowedSortColumns = new Set([
     'scientific_name',
     'detection_count',
+    'event_count',
     'avg_confidence',
     'max_confidence',
     'first_detected',
@@ -221,8 +311,10 @@ export function getRunSpeciesAggregation(filter: DetectionFilter): RawRunSpecies
   const sortCol =
     filter.sort_column && allowedSortColumns.has(filter.sort_column) ? filter.sort_column : 'detection_count';
   const sortDir = filter.sort_dir === 'asc' ? 'ASC' : 'DESC';
+  // Events are counted outside SQL, so sorting by them happens after
+  const orderBy = sortCol === 'event_count' ? '' : `ORDER BY ${sortCol} ${sortDir}`;
 
-  return db
+  const rows = db
     .prepare(
       `SELECT scientific_name,
               COUNT(*) AS detection_count,
@@ -230,11 +322,44 @@ export function getRunSpeciesAggregation(filter: DetectionFilter): RawRunSpecies
               MAX(confidence) AS max_confidence,
               MIN(detected_at) AS first_detected,
               MAX(detected_at) AS last_detected
-       FROM detections ${where}
+       FROM detections d
+       ${where}
        GROUP BY scientific_name
-       ORDER BY ${sortCol} ${sortDir}`,
+       ${orderBy}`,
     )
-    .all(...params) as RawRunSpeciesAggregation[];
+    .all(...params) as Omit<RawRunSpeciesAggregation, 'event_count'>[];
+
+  const eventCounts = countSpeciesEvents(where, params, eventGapSec);
+  const result = rows.map((r) => ({ ...r, event_count: eventCounts.get(r.scientific_name) ?? 0 }));
+  if (sortCol === 'event_count') {
+    result.sort((a, b) => (sortDir === 'ASC' ? a.event_count - b.event_count : b.event_count - a.event_count));
+  }
+  return result;
+}
+
+/**
+ * Review counts per detected species. A detection's verdict is its newest annotation;
+ * an accepted annotation under another name counts as a relabel, not a confirmation.
+ */
+export function getVerificationStats(filter: DetectionFilter): RawVerificationStats[] {
+  const db = getDb();
+  const { where, params } = buildWhereClause({ ...filter, unverified_only: false }, 'd');
+
+  return db
+    .prepare(
+      `SELECT d.scientific_name,
+              COUNT(*) AS total,
+              COUNT(v.id) AS verified,
+              COALESCE(SUM(v.status = 'accepted' AND v.scientific_name = d.scientific_name), 0) AS confirmed,
+              COALESCE(SUM(v.status = 'rejected'), 0) AS rejected,
+              COALESCE(SUM(v.status = 'accepted' AND v.scientific_name <> d.scientific_name), 0) AS relabeled
+       FROM detections d
+       LEFT JOIN annotations v ON v.id = (SELECT MAX(id) FROM annotations WHERE detection_id = d.id)
+       ${where}
+       GROUP BY d.scientific_name
+       ORDER BY verified DESC, total DESC`,
+    )
+    .all(...params) as RawVerificationStats[];
 }
 
 export function getDetectionsForGrid(filter: DetectionFilter): RawGridDetection[] {
@@ -253,14 +378,141 @@ export function getDetectionsForGrid(filter: DetectionFilter): RawGridDetection[
     .all(...params) as RawGridDetection[];
 }
 
-export function searchSpecies(query: string, scientificNames?: string[]): SpeciesSummary[] {
+/** Detections matching the filter with what placing them against the sun needs: recording time and coordinates. */
+export function getActivityDetections(filter: DetectionFilter): ActivityDetection[] {
+  const db = getDb();
+  const { where, params } = buildWhereClause(filter, 'd');
+
+  return db
+    .prepare(
+      `
+      SELECT d.scientific_name, d.start_time, af.recording_start, af.file_path, l.latitude, l.longitude
+      FROM detections d
+      LEFT JOIN audio_files af ON d.audio_file_id = af.id
+      LEFT JOIN locations l ON d.location_id = l.id
+      ${where}
+    `,
+    )
+    .all(...params) as ActivityDetection[];
+}
+
+/**
+ * Detections and events per species and recorder-local day. The first 19 characters of
+ * recording_start are its local wall clock; undated recordings are left out, as in effort.
+ */
+export function getDailySpeciesCounts(filter: DetectionFilter, eventGapSec: number): DailySpeciesCount[] {
+  const db = getDb();
+  const { where, params } = buildWhereClause(filter, 'd');
+
+  const rows = db
+    .prepare(
+      `
+      SELECT d.audio_file_id, d.scientific_name, d.start_time, d.end_time,
+             date(substr(af.recording_start, 1, 19), '+' || d.start_time || ' seconds') AS date
+      FROM detections d
+      JOIN audio_files af ON d.audio_file_id = af.id
+      ${where ? `${where} AND` : 'WHERE'} af.recording_start IS NOT NULL
+      ${EVENT_ORDER}
+    `,
+    )
+    .iterate(...params) as IterableIterator<EventDetection & { date: string }>;
+
+  // An event counts on the day it starts
+  const startsEvent = eventStartTracker(eventGapSec);
+  const counts = new Map<string, DailySpeciesCount>();
+  for (const row of rows) {
+    const key = `${row.scientific_name}\0${row.date}`;
+    let count = counts.get(key);
+    if (!count) {
+      count = { scientific_name: row.scientific_name, date: row.date, detections: 0, events: 0 };
+      counts.set(key, count);
+    }
+    count.detections++;
+    if (startsEvent(row)) count.events++;
+  }
+  return [...counts.values()];
+}
+
+/** Every detection of a run with the path of its recording, for evaluation against ground truth. */
+export function getEvaluationDetections(runId: number): EvalDetection[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT af.file_path, d.scientific_name, d.start_time, d.end_time, d.confidence
+       FROM detections d
+       JOIN audio_files af ON d.audio_file_id = af.id
+       WHERE d.run_id = ?`,
+    )
+    .all(runId) as EvalDetection[];
+}
+
+/** Detections and distinct recorder-local detection days per species at one site. */
+export function getSiteSpeciesCounts(site: ComparisonSite, minConfidence: number): SiteSpeciesCount[] {
+  const db = getDb();
+  const { where, params } = buildWhereClause({ location_id: site.location_id, min_confidence: minConfidence }, 'd');
+  const localDate = `date(substr(af.recording_start, 1, 19), '+' || d.start_time || ' seconds')`;
+  const conditions = [where || 'WHERE 1'];
+  // A date range leaves out detections from recordings without a known start
+  if (site.date_from) {
+    conditions.push(`${localDate} >= ?`);
+    params.push(site.date_from);
+  }
+  if (site.date_to) {
+    conditions.push(`${localDate} <= ?`);
+    params.push(site.date_to);
+  }
+
+  return db
+    .prepare(
+      `
+      SELECT d.scientific_name,
+             COUNT(*) AS detections,
+             COUNT(DISTINCT ${localDate}) AS presence_days
+      FROM detections d
+      JOIN audio_files af ON d.audio_file_id = af.id
+      ${conditions.join(' AND ')}
+      GROUP BY d.scientific_name
+    `,
+    )
+    .all(...params) as SiteSpeciesCount[];
+}
+
+/** Detections matching the filter merged into events; detections closer than the gap share one. */
+export function getDetectionEvents(filter: DetectionFilter, eventGapSec: number): RawDetectionEvent[] {
+  const db = getDb();
+  const { where, params } = buildWhereClause(filter, 'd');
+
+  const rows = db
+    .prepare(
+      `
+      SELECT d.audio_file_id, d.scientific_name, d.start_time, d.end_time, d.confidence, af.file_path
+      FROM detections d
+      LEFT JOIN audio_files af ON d.audio_file_id = af.id
+      ${where}
+      ${EVENT_ORDER}
+    `,
+    )
+    .all(...params) as (EventDetection & { confidence: number; file_path: string })[];
+
+  return mergeEvents(rows, eventGapSec).map((event) => ({
+    scientific_name: event[0].scientific_name,
+    start_time: event[0].start_time,
+    end_time: event.reduce((end, d) => Math.max(end, d.end_time), 0),
+    max_confidence: event.reduce((max, d) => Math.max(max, d.confidence), 0),
+    detection_count: event.length,
+    file_path: event[0].file_path,
+  }));
+}
+
+export function searchSpecies(query: string, eventGapSec: number, scientificNames?: string[]): SpeciesSummary[] {
   const db = getDb();
   const escaped = escapeLike(query);
 
+  let rows: SpeciesSummary[];
   if (scientificNames && scientificNames.length > 0) {
     // Search by scientific name LIKE or by pre-resolved names from label service
     const placeholders = scientificNames.map(() => '?').join(', ');
-    return db
+    rows = db
       .prepare(
         `
       SELECT * FROM species_summary
@@ -270,23 +522,31 @@ export function searchSpecies(query: string, scientificNames?: string[]): Specie
     `,
       )
       .all(`%${escaped}%`, ...scientificNames) as SpeciesSummary[];
-  }
-
-  return db
-    .prepare(
-      `
+  } else {
+    rows = db
+      .prepare(
+        `
     SELECT * FROM species_summary
     WHERE scientific_name LIKE ? ESCAPE '\\'
     ORDER BY detection_count DESC
     LIMIT 20
   `,
-    )
-    .all(`%${escaped}%`) as SpeciesSummary[];
+      )
+      .all(`%${escaped}%`) as SpeciesSummary[];
+  }
+  if (rows.length === 0) return [];
+
+  // Only merge events for the species actually returned
+  const { where, params } = buildWhereClause({ scientific_names: rows.map((r) => r.scientific_name) }, 'd');
+  return withEventCounts(rows, countSpeciesEvents(where, params, eventGapSec));
 }
 
-export function getSpeciesSummary(): SpeciesSummary[] {
+/** Every detected species; events are merged across the whole catalog only when a gap is given. */
+export function getSpeciesSummary(eventGapSec?: number): SpeciesSummary[] {
   const db = getDb();
-  return db.prepare('SELECT * FROM species_summary ORDER BY detection_count DESC').all() as SpeciesSummary[];
+  const rows = db.prepare('SELECT * FROM species_summary ORDER BY detection_count DESC').all() as SpeciesSummary[];
+  if (eventGapSec === undefined) return rows;
+  return withEventCounts(rows, countSpeciesEvents('', [], eventGapSec));
 }
 
 export function getSpeciesLocations(
@@ -312,9 +572,10 @@ export function getSpeciesLocations(
   }[];
 }
 
-export function getLocationSpecies(locationId: number): SpeciesSummary[] {
+export function getLocationSpecies(locationId: number, eventGapSec: number): SpeciesSummary[] {
   const db = getDb();
-  return db
+  const { where, params } = buildWhereClause({ location_id: locationId }, 'd');
+  const rows = db
     .prepare(
       `
     SELECT scientific_name,
@@ -322,13 +583,14 @@ export function getLocationSpecies(locationId: number): SpeciesSummary[] {
            COUNT(*) as detection_count,
            MAX(detected_at) as last_detected,
            AVG(confidence) as avg_confidence
-    FROM detections
-    WHERE location_id = ?
+    FROM detections d
+    ${where}
     GROUP BY scientific_name
     ORDER BY detection_count DESC
   `,
     )
-    .all(locationId) as SpeciesSummary[];
+    .all(...params) as SpeciesSummary[];
+  return withEventCounts(rows, countSpeciesEvents(where, params, eventGapSec));
 }
 
 export function getCatalogStats(): CatalogStats {
@@ -401,6 +663,7 @@ export async function importDetectionsFromJson(
   locationId: number | null,
   audioFileId: number,
   jsonPath: string,
+  speciesFilter?: ImportSpeciesFilter,
 ): Promise<{ detections: number; sourceFile: string }> {
   // Read with retry logic for Windows file locking
   const content = await readJsonWithRetry(jsonPath);
@@ -412,7 +675,7 @@ export async function importDetectionsFromJson(
   const sourceFile = data.source_file;
 
   // Convert to BirdaDetection format (add missing fields)
-  const birdaDetections: BirdaDetection[] = data.detections.map((d) => ({
+  const birdaDetections: BirdaDetection[] = applySpeciesFilter(data.detections, speciesFilter).map((d) => ({
     start_time: d.start_time,
     end_time: d.end_time,
     scientific_name: d.scientific_name,
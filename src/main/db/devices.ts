@@ -0,0 +1,28 @@
+import { getDb } from './database';
+import type { DeviceReading } from '$shared/types';
+
+/**
+ * Self-reported state of every dated AudioMoth recording, optionally for one device.
+ * A file analyzed by several runs has a row per run, so rows are collapsed per recording.
+ */
+export function getDeviceReadings(deviceId?: string): (DeviceReading & { audiomoth_device_id: string })[] {
+  const db = getDb();
+  const deviceFilter = deviceId !== undefined ? 'AND audiomoth_device_id = ?' : '';
+  return db
+    .prepare(
+      `
+    SELECT audiomoth_device_id, recording_start,
+      MAX(duration_sec) AS duration_sec,
+      MIN(audiomoth_battery_v) AS battery_v,
+      MAX(audiomoth_temperature_c) AS temperature_c,
+      MAX(audiomoth_gain) AS gain,
+      MAX(run_id) AS run_id,
+      MAX(deployment_id) AS deployment_id
+    FROM audio_files
+    WHERE audiomoth_device_id IS NOT NULL AND recording_start IS NOT NULL ${deviceFilter}
+    GROUP BY audiomoth_device_id, recording_start
+    ORDER BY audiomoth_device_id, recording_start
+  `,
+    )
+    .all(...(deviceId !== undefined ? [deviceId] : [])) as (DeviceReading & { audiomoth_device_id: string })[];
+}
@@ -0,0 +1,49 @@
+import { getDb } from './database';
+import type { DetectionFilter } from '$shared/types';
+
+export interface RecordingSpan {
+  file_path: string;
+  recording_start: string | null;
+  duration_sec: number;
+  location_id: number | null;
+}
+
+// Matches the location assignDeployments writes onto detections
+const LOCATION_SQL = 'COALESCE(dp.location_id, r.location_id)';
+
+/**
+ * Recordings with a known duration, optionally narrowed like a detection filter.
+ * A file analyzed by several runs counts once per location.
+ */
+export function getRecordingSpans(
+  scope: Pick<DetectionFilter, 'run_id' | 'location_id' | 'audio_file_id'> = {},
+): RecordingSpan[] {
+  const db = getDb();
+  const conditions = ['af.duration_sec IS NOT NULL'];
+  const params: number[] = [];
+  if (scope.run_id !== undefined) {
+    conditions.push('af.run_id = ?');
+    params.push(scope.run_id);
+  }
+  if (scope.location_id !== undefined) {
+    conditions.push(`${LOCATION_SQL} = ?`);
+    params.push(scope.location_id);
+  }
+  if (scope.audio_file_id !== undefined) {
+    conditions.push('af.id = ?');
+    params.push(scope.audio_file_id);
+  }
+  return db
+    .prepare(
+      `
+    SELECT af.file_path, MAX(af.recording_start) AS recording_start, MAX(af.duration_sec) AS duration_sec,
+      ${LOCATION_SQL} AS location_id
+    FROM audio_files af
+    JOIN analysis_runs r ON r.id = af.run_id
+    LEFT JOIN deployments dp ON dp.id = af.deployment_id
+    WHERE ${conditions.join(' AND ')}
+    GROUP BY af.file_path, ${LOCATION_SQL}
+  `,
+    )
+    .all(...params) as RecordingSpan[];
+}
@@ -0,0 +1,17 @@
+import { getDb } from './database';
+import type { AnalysisRun } from '$shared/types';
+
+/** Record an ensemble before its models' runs are queued; the runs link to it as they start. */
+export function createEnsemble(sourcePath: string, models: string[]): number {
+  const db = getDb();
+  const result = db
+    .prepare('INSERT INTO run_ensembles (source_path, models_json) VALUES (?, ?)')
+    .run(sourcePath, JSON.stringify(models));
+  return result.lastInsertRowid as number;
+}
+
+/** Runs of an ensemble in the order they were started. */
+export function getEnsembleRuns(ensembleId: number): AnalysisRun[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM analysis_runs WHERE ensemble_id = ? ORDER BY id').all(ensembleId) as AnalysisRun[];
+}
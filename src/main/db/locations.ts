@@ -20,7 +20,7 @@ export function getLocations(): Location[] {
   return db.prepare('SELECT * FROM locations ORDER BY created_at DESC').all() as Location[];
 }
 
-function getLocationById(id: number): Location | undefined {
+export function getLocationById(id: number): Location | undefined {
   const db = getDb();
   return db.prepare('SELECT * FROM locations WHERE id = ?').get(id) as Location | undefined;
 }
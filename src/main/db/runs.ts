@@ -8,11 +8,12 @@ export function createRun(
   locationId?: number | null,
   settingsJson?: string | null,
   timezoneOffsetMin?: number | null,
+  ensembleId?: number | null,
 ): AnalysisRun {
   const db = getDb();
   const stmt = db.prepare(`
-    INSERT INTO analysis_runs (location_id, source_path, model, min_confidence, settings_json, timezone_offset_min, status, started_at)
-    VALUES (?, ?, ?, ?, ?, ?, 'running', datetime('now'))
+    INSERT INTO analysis_runs (location_id, source_path, model, min_confidence, settings_json, timezone_offset_min, ensemble_id, status, started_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'running', datetime('now'))
   `);
   const result = stmt.run(
     locationId ?? null,
@@ -21,6 +22,7 @@ export function createRun(
     minConfidence,
     settingsJson ?? null,
     timezoneOffsetMin ?? null,
+    ensembleId ?? null,
   );
   const run = getRunById(result.lastInsertRowid as number);
   if (!run) throw new Error('Failed to create run');
@@ -31,12 +33,15 @@ export function updateRunStatus(id: number, status: AnalysisRun['status']): void
   const db = getDb();
   if (status === 'completed' || status === 'failed' || status === 'completed_with_errors') {
     db.prepare("UPDATE analysis_runs SET status = ?, completed_at = datetime('now') WHERE id = ?").run(status, id);
+  } else if (status === 'running') {
+    // A resumed run is no longer finished
+    db.prepare('UPDATE analysis_runs SET status = ?, completed_at = NULL WHERE id = ?').run(status, id);
   } else {
     db.prepare('UPDATE analysis_runs SET status = ? WHERE id = ?').run(status, id);
   }
 }
 
-function getRunById(id: number): AnalysisRun | undefined {
+export function getRunById(id: number): AnalysisRun | undefined {
   const db = getDb();
   return db.prepare('SELECT * FROM analysis_runs WHERE id = ?').get(id) as AnalysisRun | undefined;
 }
@@ -50,6 +55,16 @@ function findCompletedRuns(sourcePath: string, model: string): AnalysisRun[] {
     .all(sourcePath, model) as AnalysisRun[];
 }
 
+/** Most recent finished run of a source with a model, which a later pass can resume. */
+export function findLatestRunForSource(sourcePath: string, model: string): AnalysisRun | undefined {
+  const db = getDb();
+  return db
+    .prepare(
+      "SELECT * FROM analysis_runs WHERE source_path = ? AND model = ? AND status != 'running' ORDER BY id DESC LIMIT 1",
+    )
+    .get(sourcePath, model) as AnalysisRun | undefined;
+}
+
 export function deleteRun(id: number): void {
   const db = getDb();
   // detections, audio_files, and (via audio_files) annotations all cascade-delete
@@ -57,7 +72,7 @@ export function deleteRun(id: number): void {
   db.prepare('DELETE FROM analysis_runs WHERE id = ?').run(id);
 }
 
-/** Mark any runs left in 'running' state as 'failed'; they are stale from a previous session. */
+/** Mark any runs left in 'running' state as 'failed'; they are stale from a previous session and can be resumed. */
 export function markStaleRunsAsFailed(): number {
   const db = getDb();
   const result = db
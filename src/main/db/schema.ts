@@ -8,6 +8,28 @@ CREATE TABLE IF NOT EXISTS locations (
     created_at  TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
+CREATE TABLE IF NOT EXISTS deployments (
+    id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+    audiomoth_device_id TEXT NOT NULL,
+    location_id         INTEGER NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+    start_date          TEXT NOT NULL,
+    end_date            TEXT,
+    habitat             TEXT,
+    mic_height_m        REAL,
+    notes               TEXT,
+    created_at          TEXT NOT NULL DEFAULT (datetime('now')),
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployments_device ON deployments(audiomoth_device_id, start_date);
+
+CREATE TABLE IF NOT EXISTS run_ensembles (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    source_path TEXT NOT NULL,
+    models_json TEXT NOT NULL,
+    created_at  TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
 CREATE TABLE IF NOT EXISTS analysis_runs (
     id                  INTEGER PRIMARY KEY AUTOINCREMENT,
     location_id         INTEGER REFERENCES locations(id),
@@ -19,7 +41,8 @@ CREATE TABLE IF NOT EXISTS analysis_runs (
                         CHECK (status IN ('pending','running','completed','failed','completed_with_errors')),
     started_at          TEXT,
     completed_at        TEXT,
-    timezone_offset_min INTEGER
+    timezone_offset_min INTEGER,
+    ensemble_id         INTEGER REFERENCES run_ensembles(id) ON DELETE SET NULL
 );
 
 CREATE TABLE IF NOT EXISTS detections (
@@ -40,6 +63,7 @@ CREATE INDEX IF NOT EXISTS idx_detections_location ON detections(location_id);
 CREATE INDEX IF NOT EXISTS idx_detections_run ON detections(run_id);
 CREATE INDEX IF NOT EXISTS idx_detections_confidence ON detections(confidence);
 CREATE INDEX IF NOT EXISTS idx_detections_audio_file ON detections(audio_file_id);
+CREATE INDEX IF NOT EXISTS idx_detections_event ON detections(audio_file_id, scientific_name, start_time);
 
 CREATE TABLE IF NOT EXISTS audio_files (
     id                      INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -55,6 +79,7 @@ CREATE TABLE IF NOT EXISTS audio_files (
     audiomoth_gain          TEXT,
     audiomoth_battery_v     REAL,
     audiomoth_temperature_c REAL,
+    deployment_id           INTEGER REFERENCES deployments(id) ON DELETE SET NULL,
     created_at              TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
@@ -84,6 +109,70 @@ CREATE TABLE IF NOT EXISTS annotations (
 CREATE INDEX IF NOT EXISTS idx_annotations_audio_file ON annotations(audio_file_id);
 CREATE INDEX IF NOT EXISTS idx_annotations_detection ON annotations(detection_id);
 
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_json TEXT NOT NULL,
+    status       TEXT NOT NULL DEFAULT 'pending'
+                 CHECK (status IN ('pending','running','paused','completed','completed_with_errors','failed','cancelled')),
+    position     INTEGER NOT NULL,
+    run_id       INTEGER REFERENCES analysis_runs(id) ON DELETE SET NULL,
+    error        TEXT,
+    created_at   TEXT NOT NULL DEFAULT (datetime('now')),
+    started_at   TEXT,
+    completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status, position);
+
+CREATE TABLE IF NOT EXISTS species_thresholds (
+    scientific_name TEXT PRIMARY KEY,
+    threshold       REAL NOT NULL CHECK (threshold >= 0 AND threshold <= 1),
+    updated_at      TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS analysis_presets (
+    id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+    name               TEXT NOT NULL UNIQUE,
+    model              TEXT NOT NULL,
+    min_confidence     REAL NOT NULL CHECK (min_confidence >= 0 AND min_confidence <= 1),
+    latitude           REAL,
+    longitude          REAL,
+    location_name      TEXT,
+    month              INTEGER CHECK (month BETWEEN 1 AND 12),
+    day                INTEGER CHECK (day BETWEEN 1 AND 31),
+    execution_provider TEXT,
+    extra_args         TEXT,
+    species_list_id    INTEGER REFERENCES species_lists(id) ON DELETE SET NULL,
+    species_list_mode  TEXT NOT NULL DEFAULT 'include' CHECK (species_list_mode IN ('include','exclude')),
+    created_at         TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at         TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS species_list_changes (
+    id                    INTEGER PRIMARY KEY AUTOINCREMENT,
+    list_id               INTEGER NOT NULL REFERENCES species_lists(id) ON DELETE CASCADE,
+    action                TEXT NOT NULL CHECK (action IN ('created','duplicated','combined','renamed','species_added','species_removed')),
+    detail                TEXT,
+    scientific_names_json TEXT NOT NULL DEFAULT '[]',
+    created_at            TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_slc_list ON species_list_changes(list_id);
+
+CREATE TABLE IF NOT EXISTS site_profiles (
+    location_id INTEGER PRIMARY KEY REFERENCES locations(id) ON DELETE CASCADE,
+    threshold   REAL NOT NULL,
+    created_at  TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS site_profile_species (
+    location_id     INTEGER NOT NULL REFERENCES site_profiles(location_id) ON DELETE CASCADE,
+    week            INTEGER NOT NULL CHECK (week BETWEEN 1 AND 48),
+    scientific_name TEXT NOT NULL,
+    frequency       REAL NOT NULL,
+    PRIMARY KEY (location_id, week, scientific_name)
+);
+
 CREATE VIEW IF NOT EXISTS species_summary AS
 SELECT
     scientific_name,
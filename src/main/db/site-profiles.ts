@@ -0,0 +1,71 @@
+import { getDb } from './database';
+import type { ExpectedSpeciesByWeek, SiteProfileRow } from '../site-profile/site-profile';
+import type { BirdaSpeciesResponse } from '$shared/types';
+
+export interface SiteProfileRecord {
+  location_id: number;
+  threshold: number;
+  created_at: string;
+}
+
+/** Replace a location's profile with the species lists fetched for each week. */
+export function saveSiteProfile(locationId: number, threshold: number, weeks: BirdaSpeciesResponse[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('DELETE FROM site_profiles WHERE location_id = ?').run(locationId);
+    db.prepare('INSERT INTO site_profiles (location_id, threshold) VALUES (?, ?)').run(locationId, threshold);
+    const stmt = db.prepare(
+      'INSERT OR REPLACE INTO site_profile_species (location_id, week, scientific_name, frequency) VALUES (?, ?, ?, ?)',
+    );
+    for (const response of weeks) {
+      for (const s of response.species) {
+        stmt.run(locationId, response.week, s.scientific_name, s.frequency);
+      }
+    }
+  })();
+}
+
+export function getSiteProfileRecord(locationId: number): SiteProfileRecord | undefined {
+  const db = getDb();
+  return db.prepare('SELECT * FROM site_profiles WHERE location_id = ?').get(locationId) as
+    SiteProfileRecord | undefined;
+}
+
+export function getSiteProfileRows(locationId: number): SiteProfileRow[] {
+  const db = getDb();
+  return db
+    .prepare('SELECT week, scientific_name, frequency FROM site_profile_species WHERE location_id = ?')
+    .all(locationId) as SiteProfileRow[];
+}
+
+export function deleteSiteProfile(locationId: number): void {
+  const db = getDb();
+  db.prepare('DELETE FROM site_profiles WHERE location_id = ?').run(locationId);
+}
+
+/** Expected species per week for each of the given locations that has a profile. */
+export function getExpectedSpecies(locationIds: number[]): Map<number, ExpectedSpeciesByWeek> {
+  const result = new Map<number, ExpectedSpeciesByWeek>();
+  if (locationIds.length === 0) return result;
+  const db = getDb();
+  const placeholders = locationIds.map(() => '?').join(', ');
+  const rows = db
+    .prepare(
+      `SELECT location_id, week, scientific_name FROM site_profile_species WHERE location_id IN (${placeholders})`,
+    )
+    .all(...locationIds) as { location_id: number; week: number; scientific_name: string }[];
+  for (const row of rows) {
+    let byWeek = result.get(row.location_id);
+    if (!byWeek) {
+      byWeek = new Map();
+      result.set(row.location_id, byWeek);
+    }
+    let species = byWeek.get(row.week);
+    if (!species) {
+      species = new Set();
+      byWeek.set(row.week, species);
+    }
+    species.add(row.scientific_name);
+  }
+  return result;
+}
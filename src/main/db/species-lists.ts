@@ -1,5 +1,50 @@
 import { getDb } from './database';
-import type { SpeciesList, SpeciesListEntry, BirdaSpeciesResult } from '$shared/types';
+import { combineListEntries, describeSetOperation, type ListEntryValues } from '../species-lists/set-operations';
+import type {
+  SpeciesList,
+  SpeciesListEntry,
+  SpeciesListChange,
+  SpeciesListChangeAction,
+  SpeciesListSetOperation,
+  BirdaSpeciesResult,
+} from '$shared/types';
+
+type SpeciesListChangeRow = Omit<SpeciesListChange, 'scientific_names'> & { scientific_names_json: string };
+
+function recordChange(
+  listId: number,
+  action: SpeciesListChangeAction,
+  detail: string | null = null,
+  scientificNames: string[] = [],
+): void {
+  getDb()
+    .prepare('INSERT INTO species_list_changes (list_id, action, detail, scientific_names_json) VALUES (?, ?, ?, ?)')
+    .run(listId, action, detail, JSON.stringify(scientificNames));
+}
+
+function insertEntries(listId: number, entries: ListEntryValues[]): void {
+  const stmt = getDb().prepare(
+    `INSERT INTO species_list_entries (list_id, scientific_name, common_name, frequency)
+     VALUES (?, ?, ?, ?)`,
+  );
+  for (const e of entries) {
+    stmt.run(listId, e.scientific_name, e.common_name, e.frequency);
+  }
+}
+
+function updateSpeciesCount(listId: number): void {
+  getDb()
+    .prepare(
+      'UPDATE species_lists SET species_count = (SELECT COUNT(*) FROM species_list_entries WHERE list_id = ?) WHERE id = ?',
+    )
+    .run(listId, listId);
+}
+
+function requireSpeciesList(id: number): SpeciesList {
+  const list = getSpeciesListById(id);
+  if (!list) throw new Error(`Species list ${id} not found`);
+  return list;
+}
 
 export function createSpeciesList(
   name: string,
@@ -39,6 +84,7 @@ export function createSpeciesList(
     for (const s of species) {
       stmt.run(listId, s.scientific_name, s.common_name, s.frequency);
     }
+    recordChange(listId, 'created');
 
     const created = getSpeciesListById(listId);
     if (!created) throw new Error(`Failed to retrieve species list ${listId} after creation`);
@@ -51,7 +97,7 @@ export function getSpeciesLists(): SpeciesList[] {
   return db.prepare('SELECT * FROM species_lists ORDER BY created_at DESC').all() as SpeciesList[];
 }
 
-function getSpeciesListById(id: number): SpeciesList | undefined {
+export function getSpeciesListById(id: number): SpeciesList | undefined {
   const db = getDb();
   return db.prepare('SELECT * FROM species_lists WHERE id = ?').get(id) as SpeciesList | undefined;
 }
@@ -90,9 +136,110 @@ export function createCustomSpeciesList(name: string, scientificNames: string[],
     for (const sn of scientificNames) {
       stmt.run(listId, sn);
     }
+    recordChange(listId, 'created');
 
     const created = getSpeciesListById(listId);
     if (!created) throw new Error(`Failed to retrieve custom species list ${listId} after creation`);
     return created;
   })();
 }
+
+/** Rename a list and replace its description; a new name is recorded in the history. */
+export function renameSpeciesList(id: number, name: string, description: string | null): SpeciesList {
+  const db = getDb();
+  return db.transaction(() => {
+    const list = requireSpeciesList(id);
+    db.prepare('UPDATE species_lists SET name = ?, description = ? WHERE id = ?').run(name, description, id);
+    if (list.name !== name) recordChange(id, 'renamed', list.name);
+    return requireSpeciesList(id);
+  })();
+}
+
+/** Add species to a list; ones already on it are ignored. */
+export function addSpeciesListEntries(listId: number, scientificNames: string[]): SpeciesList {
+  const db = getDb();
+  return db.transaction(() => {
+    requireSpeciesList(listId);
+    const stmt = db.prepare('INSERT OR IGNORE INTO species_list_entries (list_id, scientific_name) VALUES (?, ?)');
+    const added = scientificNames.filter((sn) => stmt.run(listId, sn).changes > 0);
+    if (added.length > 0) {
+      updateSpeciesCount(listId);
+      recordChange(listId, 'species_added', null, added);
+    }
+    return requireSpeciesList(listId);
+  })();
+}
+
+export function removeSpeciesListEntries(listId: number, scientificNames: string[]): SpeciesList {
+  const db = getDb();
+  return db.transaction(() => {
+    requireSpeciesList(listId);
+    const stmt = db.prepare('DELETE FROM species_list_entries WHERE list_id = ? AND scientific_name = ?');
+    const removed = scientificNames.filter((sn) => stmt.run(listId, sn).changes > 0);
+    if (removed.length > 0) {
+      updateSpeciesCount(listId);
+      recordChange(listId, 'species_removed', null, removed);
+    }
+    return requireSpeciesList(listId);
+  })();
+}
+
+/** Copy a list with its entries, location and week under a new name. */
+export function duplicateSpeciesList(id: number, name: string): SpeciesList {
+  const db = getDb();
+  return db.transaction(() => {
+    const source = requireSpeciesList(id);
+    const result = db
+      .prepare(
+        `INSERT INTO species_lists (name, description, source, latitude, longitude, week, threshold, species_count)
+         SELECT ?, description, source, latitude, longitude, week, threshold, species_count
+         FROM species_lists WHERE id = ?`,
+      )
+      .run(name, id);
+    const listId = result.lastInsertRowid as number;
+    insertEntries(listId, getSpeciesListEntries(id));
+    recordChange(listId, 'duplicated', source.name);
+    return requireSpeciesList(listId);
+  })();
+}
+
+/** Create a custom list from two or more lists; see combineListEntries for the rules. */
+export function combineSpeciesLists(name: string, operation: SpeciesListSetOperation, listIds: number[]): SpeciesList {
+  if (listIds.length < 2) throw new Error('Select at least two species lists to combine');
+  const db = getDb();
+  return db.transaction(() => {
+    const lists = listIds.map(requireSpeciesList);
+    const entries = combineListEntries(
+      operation,
+      listIds.map((id) => getSpeciesListEntries(id)),
+    );
+    if (entries.length === 0) throw new Error('The combined list has no species');
+
+    const expression = describeSetOperation(
+      operation,
+      lists.map((l) => l.name),
+    );
+    const result = db
+      .prepare(
+        `INSERT INTO species_lists (name, description, source, species_count)
+         VALUES (?, ?, 'custom', ?)`,
+      )
+      .run(name, expression, entries.length);
+    const listId = result.lastInsertRowid as number;
+    insertEntries(listId, entries);
+    recordChange(listId, 'combined', expression);
+    return requireSpeciesList(listId);
+  })();
+}
+
+/** Change history of a list, newest first. */
+export function getSpeciesListChanges(listId: number): SpeciesListChange[] {
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT * FROM species_list_changes WHERE list_id = ? ORDER BY created_at DESC, id DESC')
+    .all(listId) as SpeciesListChangeRow[];
+  return rows.map(({ scientific_names_json, ...rest }) => ({
+    ...rest,
+    scientific_names: JSON.parse(scientific_names_json) as string[],
+  }));
+}
@@ -0,0 +1,48 @@
+import { getDb } from './database';
+import type { SpeciesThreshold } from '$shared/types';
+
+interface RawCalibrationSample {
+  scientific_name: string;
+  confidence: number;
+  correct: number;
+}
+
+export function getSpeciesThresholds(): SpeciesThreshold[] {
+  const db = getDb();
+  return db
+    .prepare('SELECT scientific_name, threshold, updated_at FROM species_thresholds ORDER BY scientific_name')
+    .all() as SpeciesThreshold[];
+}
+
+/** Store a species' threshold, or remove it with null so the global minimum applies again. */
+export function setSpeciesThreshold(scientificName: string, threshold: number | null): void {
+  const db = getDb();
+  if (threshold === null) {
+    db.prepare('DELETE FROM species_thresholds WHERE scientific_name = ?').run(scientificName);
+    return;
+  }
+  if (!(threshold >= 0 && threshold <= 1)) {
+    throw new Error(`Invalid threshold ${threshold}: must be between 0 and 1`);
+  }
+  db.prepare(
+    `INSERT INTO species_thresholds (scientific_name, threshold) VALUES (?, ?)
+     ON CONFLICT(scientific_name) DO UPDATE SET threshold = excluded.threshold, updated_at = datetime('now')`,
+  ).run(scientificName, threshold);
+}
+
+/**
+ * Confidence and reviewer outcome of every verified detection. The newest annotation
+ * is the verdict; an accepted annotation under another name counts as incorrect.
+ */
+export function getCalibrationSamples(): RawCalibrationSample[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT d.scientific_name, d.confidence,
+              (v.status = 'accepted' AND v.scientific_name = d.scientific_name) AS correct
+       FROM detections d
+       JOIN annotations v ON v.id = (SELECT MAX(id) FROM annotations WHERE detection_id = d.id)
+       WHERE v.status IN ('accepted', 'rejected')`,
+    )
+    .all() as RawCalibrationSample[];
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { findGaps, findWarnings, sortReadings } from './health';
+import type { DeviceReading } from '$shared/types';
+
+function reading(recordingStart: string, overrides: Partial<DeviceReading> = {}): DeviceReading {
+  return {
+    recording_start: recordingStart,
+    duration_sec: 60,
+    battery_v: 4.5,
+    temperature_c: 12,
+    gain: 'medium',
+    run_id: 1,
+    deployment_id: null,
+    ...overrides,
+  };
+}
+
+describe('findGaps', () => {
+  it('reports only silences of a day or more, measured from the end of the earlier file', () => {
+    const gaps = findGaps(
+      sortReadings([
+        reading('2025-05-03T06:00:00+02:00'),
+        reading('2025-05-01T06:00:00+02:00'),
+        reading('2025-05-01T18:00:00+02:00'),
+      ]),
+    );
+    expect(gaps).toHaveLength(1);
+    expect(gaps.at(0)?.from).toBe('2025-05-01T18:00:00+02:00');
+    expect(gaps.at(0)?.hours).toBeCloseTo(36 - 1 / 60);
+  });
+});
+
+describe('findWarnings', () => {
+  it('flags a card whose battery dipped below the brown-out voltage', () => {
+    const warnings = findWarnings([
+      reading('2025-05-01T06:00:00Z', { battery_v: 4.2 }),
+      reading('2025-05-02T06:00:00Z', { battery_v: 3.4 }),
+    ]);
+    expect(warnings).toEqual([
+      { kind: 'low_battery', start: '2025-05-01T06:00:00Z', end: '2025-05-02T06:00:00Z', min_battery_v: 3.4 },
+    ]);
+  });
+
+  it('flags a gain change between cards but ignores unknown gains', () => {
+    const warnings = findWarnings([
+      reading('2025-05-01T06:00:00Z', { deployment_id: 1 }),
+      reading('2025-06-01T06:00:00Z', { deployment_id: 2, gain: 'unknown' }),
+      reading('2025-07-01T06:00:00Z', { deployment_id: 3, gain: 'high' }),
+      reading('2025-07-02T06:00:00Z', { deployment_id: 3, gain: 'high' }),
+    ]);
+    expect(warnings).toEqual([
+      { kind: 'gain_change', at: '2025-07-01T06:00:00Z', from_gain: 'medium', to_gain: 'high' },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { LOW_BATTERY_V } from '$shared/constants';
+import type { DeviceReading, DeviceWarning, RecordingGap } from '$shared/types';
+
+/** Schedules that record at least daily never leave a full day empty, so a longer silence is a gap. */
+const MIN_GAP_HOURS = 24;
+
+const HOUR_MS = 3_600_000;
+
+/** Recordings from one card: the same deployment, or the same run when no deployment matched. */
+function cardKey(reading: DeviceReading): string {
+  return reading.deployment_id !== null ? `deployment:${reading.deployment_id}` : `run:${reading.run_id}`;
+}
+
+function splitCards(readings: DeviceReading[]): DeviceReading[][] {
+  const cards: DeviceReading[][] = [];
+  let current: DeviceReading[] = [];
+  for (const reading of readings) {
+    const last = current.at(-1);
+    if (last && cardKey(last) !== cardKey(reading)) {
+      cards.push(current);
+      current = [];
+    }
+    current.push(reading);
+  }
+  if (current.length > 0) cards.push(current);
+  return cards;
+}
+
+/** Most common known gain on a card; AudioMoth writes "unknown" when the comment lacks one. */
+function dominantGain(card: DeviceReading[]): string | null {
+  const counts = new Map<string, number>();
+  for (const r of card) {
+    if (r.gain && r.gain !== 'unknown') counts.set(r.gain, (counts.get(r.gain) ?? 0) + 1);
+  }
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [gain, count] of counts) {
+    if (count > bestCount) {
+      best = gain;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function sortReadings(readings: DeviceReading[]): DeviceReading[] {
+  return [...readings].sort((a, b) => Date.parse(a.recording_start) - Date.parse(b.recording_start));
+}
+
+/** Silences of at least MIN_GAP_HOURS between the end of one recording and the start of the next. */
+export function findGaps(sorted: DeviceReading[]): RecordingGap[] {
+  const gaps: RecordingGap[] = [];
+  let prev: DeviceReading | undefined;
+  for (const next of sorted) {
+    if (!prev) {
+      prev = next;
+      continue;
+    }
+    const prevEnd = Date.parse(prev.recording_start) + (prev.duration_sec ?? 0) * 1000;
+    const hours = (Date.parse(next.recording_start) - prevEnd) / HOUR_MS;
+    if (hours >= MIN_GAP_HOURS) {
+      gaps.push({ from: prev.recording_start, to: next.recording_start, hours });
+    }
+    prev = next;
+  }
+  return gaps;
+}
+
+/** Cards whose battery fell below LOW_BATTERY_V, and gain settings that differ from the previous card. */
+export function findWarnings(sorted: DeviceReading[]): DeviceWarning[] {
+  const warnings: DeviceWarning[] = [];
+  let previousGain: string | null = null;
+  for (const card of splitCards(sorted)) {
+    const voltages = card.flatMap((r) => (r.battery_v !== null ? [r.battery_v] : []));
+    const minBattery = voltages.length > 0 ? Math.min(...voltages) : null;
+    if (minBattery !== null && minBattery < LOW_BATTERY_V) {
+      warnings.push({
+        kind: 'low_battery',
+        start: card[0].recording_start,
+        end: card[card.length - 1].recording_start,
+        min_battery_v: minBattery,
+      });
+    }
+
+    const gain = dominantGain(card);
+    if (gain !== null) {
+      if (previousGain !== null && gain !== previousGain) {
+        warnings.push({ kind: 'gain_change', at: card[0].recording_start, from_gain: previousGain, to_gain: gain });
+      }
+      previousGain = gain;
+    }
+  }
+  return warnings;
+}
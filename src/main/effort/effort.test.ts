@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { filenameClockMs, localClockMs, splitByHour, summarizeEffort } from './effort';
+
+describe('localClockMs', () => {
+  it('keeps the recorder-local date and time instead of converting the offset', () => {
+    const clock = localClockMs('2025-05-01T23:30:00+02:00');
+    expect(clock).not.toBeNull();
+    expect(new Date(clock ?? 0).toISOString()).toBe('2025-05-01T23:30:00.000Z');
+    expect(localClockMs('yesterday')).toBeNull();
+  });
+});
+
+describe('filenameClockMs', () => {
+  it('parses AudioMoth names and rejects impossible dates', () => {
+    expect(filenameClockMs('/data/20250501_053000.WAV')).toBe(Date.UTC(2025, 4, 1, 5, 30, 0));
+    expect(filenameClockMs('C:\\moth\\20251301_000000.wav')).toBeNull();
+    expect(filenameClockMs('dawn-chorus.wav')).toBeNull();
+  });
+});
+
+describe('splitByHour', () => {
+  it('splits a recording at every hour boundary it crosses', () => {
+    const start = Date.UTC(2025, 4, 1, 5, 50, 0);
+    expect(splitByHour(start, 3600)).toEqual([
+      { hourMs: Date.UTC(2025, 4, 1, 5), seconds: 600 },
+      { hourMs: Date.UTC(2025, 4, 1, 6), seconds: 3000 },
+    ]);
+  });
+});
+
+describe('summarizeEffort', () => {
+  it('counts seconds per day and hour across midnight and reports empty days as gaps', () => {
+    const summary = summarizeEffort([
+      { clockMs: Date.UTC(2025, 4, 1, 23, 30), durationSec: 3600 },
+      { clockMs: Date.UTC(2025, 4, 5, 6, 0), durationSec: 60 },
+    ]);
+    expect(summary.total_seconds).toBe(3660);
+    expect(summary.days).toEqual([
+      { date: '2025-05-01', seconds: 1800 },
+      { date: '2025-05-02', seconds: 1800 },
+      { date: '2025-05-05', seconds: 60 },
+    ]);
+    expect(summary.hours.at(23)).toBe(1800);
+    expect(summary.hours.at(0)).toBe(1800);
+    expect(summary.hours.at(6)).toBe(60);
+    expect(summary.gaps).toEqual([{ from: '2025-05-03', to: '2025-05-04', days: 2 }]);
+  });
+});
@@ -0,0 +1,120 @@
+import type { EffortDay, EffortGap } from '$shared/types';
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+/** A recording placed on a wall clock, as a UTC timestamp whose UTC fields read as local time. */
+export interface ClockedRecording {
+  clockMs: number;
+  durationSec: number;
+}
+
+export interface EffortSummary {
+  total_seconds: number;
+  days: EffortDay[];
+  hours: number[];
+  gaps: EffortGap[];
+}
+
+/**
+ * Wall clock of a recording_start. It keeps the recorder's own offset, so its date
+ * and time fields are already local and are read as-is rather than converted.
+ */
+export function localClockMs(recordingStart: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/.exec(recordingStart);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match;
+  return Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+}
+
+/** Calendar effort needs a real date, so undated recordings are left out. */
+export function onLocalClock(spans: { recording_start: string | null; duration_sec: number }[]): ClockedRecording[] {
+  return spans.flatMap((span) => {
+    const clockMs = span.recording_start !== null ? localClockMs(span.recording_start) : null;
+    return clockMs !== null ? [{ clockMs, durationSec: span.duration_sec }] : [];
+  });
+}
+
+/**
+ * Wall clock from an AudioMoth-style filename (YYYYMMDD_HHMMSS). AudioMoth names
+ * files in UTC. Returns null for other names and for impossible dates.
+ */
+export function filenameClockMs(filePath: string): number | null {
+  const base = filePath.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+  const match = /^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})$/.exec(base);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match;
+  const date = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  // Validate parsed date wasn't silently corrected (e.g. month 13 → next year)
+  if (date.getUTCFullYear() !== +y || date.getUTCMonth() !== +mo - 1 || date.getUTCDate() !== +d) {
+    return null;
+  }
+  return date.getTime();
+}
+
+/** Seconds a recording spends in each clock hour it touches, keyed by the start of that hour. */
+export function splitByHour(clockMs: number, durationSec: number): { hourMs: number; seconds: number }[] {
+  const segments: { hourMs: number; seconds: number }[] = [];
+  const endMs = clockMs + durationSec * 1000;
+  let cursor = clockMs;
+  while (cursor < endMs) {
+    const hourMs = Math.floor(cursor / HOUR_MS) * HOUR_MS;
+    const next = Math.min(hourMs + HOUR_MS, endMs);
+    segments.push({ hourMs, seconds: (next - cursor) / 1000 });
+    cursor = next;
+  }
+  return segments;
+}
+
+/** Recorded seconds per hour of day (24 entries). */
+export function effortByHour(recordings: ClockedRecording[]): number[] {
+  const byHour = new Map<number, number>();
+  for (const { clockMs, durationSec } of recordings) {
+    for (const { hourMs, seconds } of splitByHour(clockMs, durationSec)) {
+      const hour = new Date(hourMs).getUTCHours();
+      byHour.set(hour, (byHour.get(hour) ?? 0) + seconds);
+    }
+  }
+  return Array.from({ length: 24 }, (_, hour) => byHour.get(hour) ?? 0);
+}
+
+/** Runs of days with no recording between the first and last recorded day. `days` must be sorted. */
+function findEffortGaps(days: EffortDay[]): EffortGap[] {
+  const gaps: EffortGap[] = [];
+  let prev: EffortDay | null = null;
+  for (const day of days) {
+    if (prev) {
+      const prevMs = Date.parse(`${prev.date}T00:00:00Z`);
+      const missing = Math.round((Date.parse(`${day.date}T00:00:00Z`) - prevMs) / DAY_MS) - 1;
+      if (missing > 0) {
+        gaps.push({
+          from: new Date(prevMs + DAY_MS).toISOString().slice(0, 10),
+          to: new Date(prevMs + missing * DAY_MS).toISOString().slice(0, 10),
+          days: missing,
+        });
+      }
+    }
+    prev = day;
+  }
+  return gaps;
+}
+
+/** Recorded seconds per local day and per local hour of day, with the empty days in between. */
+export function summarizeEffort(recordings: ClockedRecording[]): EffortSummary {
+  const byDay = new Map<string, number>();
+  let total = 0;
+  for (const { clockMs, durationSec } of recordings) {
+    for (const { hourMs, seconds } of splitByHour(clockMs, durationSec)) {
+      const date = new Date(hourMs).toISOString().slice(0, 10);
+      byDay.set(date, (byDay.get(date) ?? 0) + seconds);
+      total += seconds;
+    }
+  }
+  const days = [...byDay].map(([date, seconds]) => ({ date, seconds })).sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    total_seconds: total,
+    days,
+    hours: effortByHour(recordings),
+    gaps: findEffortGaps(days),
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { combineRuns, majority } from './ensemble';
+import type { EvalDetection } from '../evaluation/evaluation';
+
+describe('combineRuns', () => {
+  const runs: EvalDetection[][] = [
+    [
+      { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 0, end_time: 3, confidence: 0.9 },
+      { file_path: 'a.wav', scientific_name: 'Parus major', start_time: 6, end_time: 9, confidence: 0.4 },
+    ],
+    [
+      { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 0, end_time: 3, confidence: 0.3 },
+      { file_path: 'a.wav', scientific_name: 'Parus major', start_time: 6, end_time: 9, confidence: 0.6 },
+    ],
+    // A 5-second window covers the segments it overlaps by at least half: 0-3 and 3-6
+    [{ file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 0, end_time: 5, confidence: 0.6 }],
+  ];
+
+  it('combines confidences per segment with max, mean and a majority vote', () => {
+    const score = (method: 'max' | 'mean' | 'vote') =>
+      combineRuns(runs, method, 0.5, majority(3), new Map()).detections.map((d) => [
+        d.scientific_name,
+        d.start_time,
+        Number(d.confidence.toFixed(3)),
+        d.votes,
+      ]);
+
+    expect(score('max')).toEqual([
+      ['Turdus merula', 0, 0.9, 2],
+      ['Turdus merula', 3, 0.6, 1],
+      ['Parus major', 6, 0.6, 1],
+    ]);
+    expect(score('mean')).toEqual([['Turdus merula', 0, 0.6, 2]]);
+    expect(score('vote')).toEqual([['Turdus merula', 0, 0.75, 2]]);
+  });
+
+  it('counts segments per species for the ensemble and each run', () => {
+    const { species } = combineRuns(runs, 'vote', 0.5, 2, new Map([['Turdus merula', 'Blackbird']]));
+    expect(species.map((s) => [s.common_name, s.detections, s.per_run])).toEqual([
+      ['Blackbird', 1, [1, 0, 2]],
+      ['Parus major', 0, [0, 1, 0]],
+    ]);
+  });
+});
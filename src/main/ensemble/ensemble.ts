@@ -0,0 +1,124 @@
+import type { EvalDetection } from '../evaluation/evaluation';
+import type { EnsembleDetection, EnsembleMethod, EnsembleSpecies } from '$shared/types';
+
+/** Segment length the runs are aligned on, BirdNET's window; other models' windows are spread over it. */
+const ENSEMBLE_SEGMENT_SECONDS = 3;
+
+/** Votes a segment needs under 'vote': more than half of the runs. */
+export function majority(runCount: number): number {
+  return Math.floor(runCount / 2) + 1;
+}
+
+/** Segments a detection covers: those it overlaps by at least half a segment. */
+function segmentsOf(detection: EvalDetection): number[] {
+  const half = ENSEMBLE_SEGMENT_SECONDS / 2;
+  const first = Math.floor(detection.start_time / ENSEMBLE_SEGMENT_SECONDS);
+  const last = Math.ceil(detection.end_time / ENSEMBLE_SEGMENT_SECONDS) - 1;
+  const segments: number[] = [];
+  for (let k = first; k <= last; k++) {
+    const start = k * ENSEMBLE_SEGMENT_SECONDS;
+    const covered =
+      Math.min(detection.end_time, start + ENSEMBLE_SEGMENT_SECONDS) - Math.max(detection.start_time, start);
+    if (covered >= half) segments.push(k);
+  }
+  return segments;
+}
+
+interface Segment {
+  file_path: string;
+  scientific_name: string;
+  index: number;
+  confidences: (number | null)[];
+}
+
+function combine(confidences: (number | null)[], method: EnsembleMethod, threshold: number): number {
+  const present = confidences.filter((c): c is number => c !== null);
+  switch (method) {
+    case 'max':
+      return Math.max(0, ...present);
+    case 'mean':
+      // A run without the species scored it below its own cut-off, counted as zero
+      return present.reduce((sum, c) => sum + c, 0) / confidences.length;
+    case 'vote': {
+      const voters = present.filter((c) => c >= threshold);
+      return voters.length > 0 ? voters.reduce((sum, c) => sum + c, 0) / voters.length : 0;
+    }
+  }
+}
+
+/**
+ * Combine several runs over the same recordings per segment and species. Each run's
+ * confidence in a segment is its highest detection covering it; 'max' and 'mean' keep
+ * segments whose combined confidence reaches the threshold, 'vote' those where enough runs
+ * reach it on their own, scored by the mean of the runs that voted.
+ */
+export function combineRuns(
+  runs: EvalDetection[][],
+  method: EnsembleMethod,
+  threshold: number,
+  minVotes: number,
+  commonNames: Map<string, string>,
+): { detections: EnsembleDetection[]; species: EnsembleSpecies[] } {
+  const segments = new Map<string, Segment>();
+  runs.forEach((detections, runIndex) => {
+    for (const detection of detections) {
+      for (const index of segmentsOf(detection)) {
+        const key = `${detection.file_path}|${detection.scientific_name}|${index}`;
+        let segment = segments.get(key);
+        if (!segment) {
+          segment = {
+            file_path: detection.file_path,
+            scientific_name: detection.scientific_name,
+            index,
+            confidences: runs.map(() => null),
+          };
+          segments.set(key, segment);
+        }
+        const previous = segment.confidences.at(runIndex) ?? null;
+        segment.confidences.splice(runIndex, 1, Math.max(previous ?? 0, detection.confidence));
+      }
+    }
+  });
+
+  const name = (scientificName: string) => commonNames.get(scientificName) ?? scientificName;
+  const species = new Map<string, EnsembleSpecies>();
+  const detections: EnsembleDetection[] = [];
+  for (const segment of segments.values()) {
+    let row = species.get(segment.scientific_name);
+    if (!row) {
+      row = {
+        scientific_name: segment.scientific_name,
+        common_name: name(segment.scientific_name),
+        detections: 0,
+        per_run: runs.map(() => 0),
+      };
+      species.set(segment.scientific_name, row);
+    }
+    const above = segment.confidences.map((c) => c !== null && c >= threshold);
+    row.per_run = row.per_run.map((count, i) => count + (above.at(i) ? 1 : 0));
+
+    const votes = above.filter(Boolean).length;
+    const confidence = combine(segment.confidences, method, threshold);
+    const kept = method === 'vote' ? votes >= minVotes : confidence >= threshold;
+    if (!kept) continue;
+    row.detections++;
+    detections.push({
+      file_path: segment.file_path,
+      scientific_name: segment.scientific_name,
+      common_name: row.common_name,
+      start_time: segment.index * ENSEMBLE_SEGMENT_SECONDS,
+      end_time: (segment.index + 1) * ENSEMBLE_SEGMENT_SECONDS,
+      confidence,
+      votes,
+      confidences: segment.confidences,
+    });
+  }
+
+  detections.sort(
+    (a, b) => a.file_path.localeCompare(b.file_path) || a.start_time - b.start_time || b.confidence - a.confidence,
+  );
+  const rows = [...species.values()]
+    .filter((s) => s.detections > 0 || s.per_run.some((count) => count > 0))
+    .sort((a, b) => b.detections - a.detections || a.common_name.localeCompare(b.common_name));
+  return { detections, species: rows };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { PR_THRESHOLDS, evaluateDetections, type EvalBox, type EvalDetection } from './evaluation';
+
+describe('evaluateDetections', () => {
+  const boxes: EvalBox[] = [
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 1, end_time: 7 },
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 20, end_time: 21 },
+    { file_path: 'a.wav', scientific_name: 'Parus major', start_time: 10, end_time: 11 },
+  ];
+  const detections: EvalDetection[] = [
+    // Two windows over one long song count as two true positives and one found box
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 0, end_time: 3, confidence: 0.9 },
+    { file_path: 'a.wav', scientific_name: 'Turdus merula', start_time: 3, end_time: 6, confidence: 0.4 },
+    // Right time, wrong file
+    { file_path: 'b.wav', scientific_name: 'Parus major', start_time: 9, end_time: 12, confidence: 0.8 },
+    { file_path: 'a.wav', scientific_name: 'Sitta europaea', start_time: 30, end_time: 33, confidence: 0.6 },
+  ];
+
+  it('scores per species at the threshold with overlap matching', () => {
+    const { overall, species } = evaluateDetections(detections, boxes, 0.3, new Map([['Turdus merula', 'Blackbird']]));
+    expect(overall).toMatchObject({ ground_truth: 3, detections: 4, true_positives: 2, found: 1 });
+    expect(overall.precision).toBe(0.5);
+    expect(overall.recall).toBeCloseTo(1 / 3);
+
+    expect(species.map((s) => [s.common_name, s.precision, s.recall])).toEqual([
+      ['Blackbird', 1, 0.5],
+      ['Parus major', 0, 0],
+      ['Sitta europaea', 0, null],
+    ]);
+    expect(species.at(1)?.f1).toBe(0);
+  });
+
+  it('samples a precision-recall curve across thresholds', () => {
+    const { curve } = evaluateDetections(detections, boxes, 0.5, new Map());
+    expect(curve.map((p) => p.threshold)).toEqual(PR_THRESHOLDS);
+    const at = (threshold: number) => curve.find((p) => p.threshold === threshold);
+    expect(at(0.5)).toEqual({ threshold: 0.5, precision: 1 / 3, recall: 1 / 3 });
+    expect(at(0.95)).toEqual({ threshold: 0.95, precision: null, recall: 0 });
+  });
+});
@@ -0,0 +1,134 @@
+import type { EvaluationScores, PrPoint, SpeciesEvaluation } from '$shared/types';
+
+/** A model's detection in a recording, identified by file path so runs can be compared. */
+export interface EvalDetection {
+  file_path: string;
+  scientific_name: string;
+  start_time: number;
+  end_time: number;
+  confidence: number;
+}
+
+/** A ground-truth box; only its time span is used for matching. */
+export interface EvalBox {
+  file_path: string;
+  scientific_name: string;
+  start_time: number;
+  end_time: number;
+}
+
+/** Confidence thresholds the precision-recall curve is sampled at: 0.05 to 0.95. */
+export const PR_THRESHOLDS = Array.from({ length: 19 }, (_, i) => Math.round((i + 1) * 5) / 100);
+
+interface ScoredDetection {
+  scientific_name: string;
+  confidence: number;
+  /** Overlaps a ground-truth box of the same species. */
+  hit: boolean;
+}
+
+interface ScoredBox {
+  scientific_name: string;
+  /** Highest confidence among overlapping detections of the same species, null if none. */
+  best: number | null;
+}
+
+function overlaps(a: { start_time: number; end_time: number }, b: { start_time: number; end_time: number }): boolean {
+  return a.start_time < b.end_time && b.start_time < a.end_time;
+}
+
+/**
+ * Match detections to boxes by time overlap within the same file and species. A detection
+ * counts once however many boxes it touches, and a box is found by any detection over it, so
+ * BirdNET's fixed 3-second windows are not penalized for covering a long call several times.
+ */
+function scoreMatches(
+  detections: EvalDetection[],
+  boxes: EvalBox[],
+): { detections: ScoredDetection[]; boxes: ScoredBox[] } {
+  const boxesByKey = new Map<string, { box: EvalBox; scored: ScoredBox }[]>();
+  const scoredBoxes: ScoredBox[] = [];
+  for (const box of boxes) {
+    const scored: ScoredBox = { scientific_name: box.scientific_name, best: null };
+    scoredBoxes.push(scored);
+    const key = `${box.file_path}|${box.scientific_name}`;
+    boxesByKey.set(key, [...(boxesByKey.get(key) ?? []), { box, scored }]);
+  }
+
+  const scoredDetections = detections.map((detection) => {
+    let hit = false;
+    for (const { box, scored } of boxesByKey.get(`${detection.file_path}|${detection.scientific_name}`) ?? []) {
+      if (!overlaps(detection, box)) continue;
+      hit = true;
+      scored.best = Math.max(scored.best ?? 0, detection.confidence);
+    }
+    return { scientific_name: detection.scientific_name, confidence: detection.confidence, hit };
+  });
+  return { detections: scoredDetections, boxes: scoredBoxes };
+}
+
+function scoresAt(detections: ScoredDetection[], boxes: ScoredBox[], threshold: number): EvaluationScores {
+  const kept = detections.filter((d) => d.confidence >= threshold);
+  const truePositives = kept.filter((d) => d.hit).length;
+  const found = boxes.filter((b) => b.best !== null && b.best >= threshold).length;
+  const precision = kept.length > 0 ? truePositives / kept.length : null;
+  const recall = boxes.length > 0 ? found / boxes.length : null;
+  const f1 =
+    precision === null || recall === null
+      ? null
+      : precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : 0;
+  return {
+    ground_truth: boxes.length,
+    detections: kept.length,
+    true_positives: truePositives,
+    found,
+    precision,
+    recall,
+    f1,
+  };
+}
+
+function curveOf(detections: ScoredDetection[], boxes: ScoredBox[]): PrPoint[] {
+  return PR_THRESHOLDS.map((threshold) => {
+    const { precision, recall } = scoresAt(detections, boxes, threshold);
+    return { threshold, precision, recall };
+  });
+}
+
+/**
+ * Score detections against ground truth at a confidence threshold, overall and per species,
+ * with precision-recall curves. Species appear if they have ground truth or detections at
+ * the threshold; the most annotated come first.
+ */
+export function evaluateDetections(
+  detections: EvalDetection[],
+  boxes: EvalBox[],
+  threshold: number,
+  commonNames: Map<string, string>,
+): { overall: EvaluationScores; curve: PrPoint[]; species: SpeciesEvaluation[] } {
+  const scored = scoreMatches(detections, boxes);
+  const names = new Set([
+    ...boxes.map((b) => b.scientific_name),
+    ...detections.filter((d) => d.confidence >= threshold).map((d) => d.scientific_name),
+  ]);
+
+  const species = [...names].map((name) => {
+    const speciesDetections = scored.detections.filter((d) => d.scientific_name === name);
+    const speciesBoxes = scored.boxes.filter((b) => b.scientific_name === name);
+    return {
+      scientific_name: name,
+      common_name: commonNames.get(name) ?? name,
+      ...scoresAt(speciesDetections, speciesBoxes, threshold),
+      curve: curveOf(speciesDetections, speciesBoxes),
+    };
+  });
+  species.sort((a, b) => b.ground_truth - a.ground_truth || a.common_name.localeCompare(b.common_name));
+
+  return {
+    overall: scoresAt(scored.detections, scored.boxes, threshold),
+    curve: curveOf(scored.detections, scored.boxes),
+    species,
+  };
+}
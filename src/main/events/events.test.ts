@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { countEvents, mergeEvents } from './events';
+
+const starts = (events: { start_time: number }[][]) => events.map((event) => event.map((d) => d.start_time));
+
+describe('mergeEvents', () => {
+  it('starts a new event once the gap is reached, not before', () => {
+    // Ends at 3; the next starts 2 s later (merged), then 3 s after the latest end (new event)
+    const events = mergeEvents(
+      [
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 0, end_time: 3 },
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 5, end_time: 8 },
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 11, end_time: 14 },
+      ],
+      3,
+    );
+    expect(starts(events)).toEqual([[0, 5], [11]]);
+  });
+
+  it('measures the gap from the latest end of every earlier detection', () => {
+    // The long detection ends at 20, so the one at 12 is still inside its event
+    const events = mergeEvents(
+      [
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 0, end_time: 20 },
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 4, end_time: 7 },
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 12, end_time: 15 },
+      ],
+      3,
+    );
+    expect(starts(events)).toEqual([[0, 4, 12]]);
+  });
+
+  it('keeps overlapping detections together with a gap of 0 but splits touching ones', () => {
+    const events = mergeEvents(
+      [
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 0, end_time: 3 },
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 2, end_time: 5 },
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 5, end_time: 8 },
+      ],
+      0,
+    );
+    expect(starts(events)).toEqual([[0, 2], [5]]);
+  });
+
+  it('never merges across species or files', () => {
+    const events = mergeEvents(
+      [
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 0, end_time: 3 },
+        { audio_file_id: 2, scientific_name: 'Turdus merula', start_time: 1, end_time: 4 },
+        { audio_file_id: 2, scientific_name: 'Parus major', start_time: 2, end_time: 5 },
+      ],
+      10,
+    );
+    expect(events).toHaveLength(3);
+  });
+});
+
+describe('countEvents', () => {
+  it('counts each event under the key of the detection that starts it', () => {
+    const counts = countEvents(
+      [
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 0, end_time: 3 },
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 4, end_time: 7 },
+        { audio_file_id: 1, scientific_name: 'Turdus merula', start_time: 30, end_time: 33 },
+        { audio_file_id: 1, scientific_name: 'Parus major', start_time: 0, end_time: 3 },
+      ],
+      3,
+      (d) => d.scientific_name,
+    );
+    expect(counts).toEqual(
+      new Map([
+        ['Turdus merula', 2],
+        ['Parus major', 1],
+      ]),
+    );
+  });
+});
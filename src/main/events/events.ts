@@ -0,0 +1,59 @@
+/** What the event rule reads from a detection. */
+export interface EventDetection {
+  audio_file_id: number;
+  scientific_name: string;
+  start_time: number;
+  end_time: number;
+}
+
+/**
+ * Feed detections sorted by file, species and start time; says whether each begins a new event.
+ * One does when it is the first of its species in the file, or starts at least the gap after
+ * every earlier one ended. Overlapping detections always share an event, even with a gap of 0.
+ */
+export function eventStartTracker(gapSec: number): (detection: EventDetection) => boolean {
+  let previous: EventDetection | null = null;
+  let latestEnd = 0;
+  return (detection) => {
+    const sameGroup =
+      previous !== null &&
+      previous.audio_file_id === detection.audio_file_id &&
+      previous.scientific_name === detection.scientific_name;
+    const starts = !sameGroup || detection.start_time - latestEnd >= gapSec;
+    latestEnd = sameGroup ? Math.max(latestEnd, detection.end_time) : detection.end_time;
+    previous = detection;
+    return starts;
+  };
+}
+
+/** Events per key, each counted under the key of the detection that starts it. */
+export function countEvents<T extends EventDetection>(
+  detections: Iterable<T>,
+  gapSec: number,
+  key: (detection: T) => string,
+): Map<string, number> {
+  const startsEvent = eventStartTracker(gapSec);
+  const counts = new Map<string, number>();
+  for (const detection of detections) {
+    if (!startsEvent(detection)) continue;
+    const k = key(detection);
+    counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Detections grouped into their events, in the order given. */
+export function mergeEvents<T extends EventDetection>(detections: Iterable<T>, gapSec: number): T[][] {
+  const startsEvent = eventStartTracker(gapSec);
+  const events: T[][] = [];
+  let current: T[] = [];
+  for (const detection of detections) {
+    if (startsEvent(detection) && current.length > 0) {
+      events.push(current);
+      current = [];
+    }
+    current.push(detection);
+  }
+  if (current.length > 0) events.push(current);
+  return events;
+}
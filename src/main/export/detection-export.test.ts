@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { AudioFile, EnrichedDetection } from '$shared/types';
+import { absoluteTimestamp, perFileExportName, toAudacityLabels, toCsv } from './detection-export';
+
+function detection(overrides: Partial<EnrichedDetection> = {}, audioFile: Partial<AudioFile> = {}): EnrichedDetection {
+  return {
+    id: 1,
+    run_id: 7,
+    location_id: 3,
+    audio_file_id: 11,
+    start_time: 3,
+    end_time: 6,
+    scientific_name: 'Turdus merula',
+    confidence: 0.8734,
+    clip_path: null,
+    detected_at: '2024-05-11 00:00:00',
+    common_name: 'Eurasian Blackbird',
+    audio_file: {
+      id: 11,
+      run_id: 7,
+      file_path: '/data/20240510_050000.WAV',
+      file_name: '20240510_050000.WAV',
+      recording_start: '2024-05-10T05:00:00+02:00',
+      timezone_offset_min: 120,
+      duration_sec: 60,
+      sample_rate: 48000,
+      channels: 1,
+      audiomoth_device_id: null,
+      audiomoth_gain: null,
+      audiomoth_battery_v: null,
+      audiomoth_temperature_c: null,
+      deployment_id: null,
+      created_at: '2024-05-11 00:00:00',
+      ...audioFile,
+    },
+    ...overrides,
+  };
+}
+
+describe('absoluteTimestamp', () => {
+  it('adds the offset and keeps the recording timezone', () => {
+    expect(absoluteTimestamp('2024-05-10T05:00:00+02:00', 120, 65.5)).toBe('2024-05-10T05:01:05+02:00');
+  });
+
+  it('formats negative offsets and UTC', () => {
+    expect(absoluteTimestamp('2024-05-10T12:00:00Z', -330, 0)).toBe('2024-05-10T06:30:00-05:30');
+    expect(absoluteTimestamp('2024-05-10T12:00:00Z', 0, 3)).toBe('2024-05-10T12:00:03Z');
+  });
+
+  it('returns null without a usable recording start', () => {
+    expect(absoluteTimestamp(null, 0, 3)).toBeNull();
+    expect(absoluteTimestamp('not a date', 0, 3)).toBeNull();
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields containing commas or quotes', () => {
+    const csv = toCsv([detection({ common_name: 'Blackbird, "common"' })]);
+    const row = csv.split('\n')[1];
+    expect(row).toContain('"Blackbird, ""common"""');
+    expect(row).toContain('2024-05-10T05:00:03+02:00');
+  });
+});
+
+describe('toAudacityLabels', () => {
+  it('writes one tab-separated label per detection', () => {
+    expect(toAudacityLabels([detection()])).toBe('3.000\t6.000\tEurasian Blackbird (0.87)\n');
+  });
+});
+
+describe('perFileExportName', () => {
+  it('appends the audio file id when base names collide', () => {
+    const used = new Set<string>();
+    expect(perFileExportName('raven', 1, '/a/REC.WAV', used)).toBe('REC.selections.txt');
+    expect(perFileExportName('raven', 2, '/b/rec.wav', used)).toBe('rec_2.selections.txt');
+    expect(perFileExportName('audacity', 3, null, used)).toBe('audio-file-3.labels.txt');
+  });
+});
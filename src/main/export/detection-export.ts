@@ -0,0 +1,163 @@
+import type { DetectionExportFormat, EnrichedDetection } from '$shared/types';
+
+/** Frequency bounds for Raven selections when the file's sample rate is unknown (BirdNET's default band). */
+const DEFAULT_LOW_FREQ_HZ = 0;
+const DEFAULT_HIGH_FREQ_HZ = 15000;
+
+/**
+ * Wall-clock timestamp of an offset within a recording, as ISO 8601 in the
+ * recording's own timezone. Returns null when the recording start is unknown.
+ */
+export function absoluteTimestamp(
+  recordingStart: string | null | undefined,
+  timezoneOffsetMin: number | null | undefined,
+  offsetSec: number,
+): string | null {
+  if (!recordingStart) return null;
+  const start = new Date(recordingStart);
+  if (isNaN(start.getTime())) return null;
+
+  const offsetMin = timezoneOffsetMin ?? 0;
+  // Shift into the recording's timezone, then read the components back as UTC
+  const local = new Date(start.getTime() + Math.round(offsetSec * 1000) + offsetMin * 60_000);
+  const date = local.toISOString().slice(0, 19);
+  if (offsetMin === 0) return `${date}Z`;
+  const sign = offsetMin > 0 ? '+' : '-';
+  const abs = Math.abs(offsetMin);
+  return `${date}${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+export function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Tabs and newlines would break the column layout of Raven and Audacity files. */
+function tsvField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
+
+function seconds(value: number): string {
+  return value.toFixed(3);
+}
+
+/** One CSV with every detection, one row each. */
+export function toCsv(detections: EnrichedDetection[]): string {
+  const header = [
+    'file_path',
+    'start_time',
+    'end_time',
+    'absolute_start',
+    'absolute_end',
+    'scientific_name',
+    'common_name',
+    'confidence',
+    'run_id',
+    'location_id',
+  ];
+  const rows = detections.map((d) =>
+    [
+      csvField(d.audio_file?.file_path ?? null),
+      seconds(d.start_time),
+      seconds(d.end_time),
+      csvField(absoluteTimestamp(d.audio_file?.recording_start, d.audio_file?.timezone_offset_min, d.start_time)),
+      csvField(absoluteTimestamp(d.audio_file?.recording_start, d.audio_file?.timezone_offset_min, d.end_time)),
+      csvField(d.scientific_name),
+      csvField(d.common_name),
+      d.confidence.toFixed(4),
+      d.run_id,
+      d.location_id ?? '',
+    ].join(','),
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/** Raven Pro selection table for the detections of a single audio file. */
+export function toRavenSelectionTable(detections: EnrichedDetection[]): string {
+  const header = [
+    'Selection',
+    'View',
+    'Channel',
+    'Begin Time (s)',
+    'End Time (s)',
+    'Low Freq (Hz)',
+    'High Freq (Hz)',
+    'Common Name',
+    'Scientific Name',
+    'Confidence',
+    'Begin Path',
+    'File Offset (s)',
+    'Begin Date Time',
+  ];
+  const rows = detections.map((d, i) => {
+    const sampleRate = d.audio_file?.sample_rate;
+    const highFreq = sampleRate ? Math.floor(sampleRate / 2) : DEFAULT_HIGH_FREQ_HZ;
+    return [
+      String(i + 1),
+      'Spectrogram 1',
+      '1',
+      seconds(d.start_time),
+      seconds(d.end_time),
+      String(DEFAULT_LOW_FREQ_HZ),
+      String(highFreq),
+      tsvField(d.common_name),
+      tsvField(d.scientific_name),
+      d.confidence.toFixed(4),
+      tsvField(d.audio_file?.file_path ?? ''),
+      seconds(d.start_time),
+      absoluteTimestamp(d.audio_file?.recording_start, d.audio_file?.timezone_offset_min, d.start_time) ?? '',
+    ].join('\t');
+  });
+  return [header.join('\t'), ...rows].join('\n') + '\n';
+}
+
+/** Audacity label track (start, end, label) for the detections of a single audio file. */
+export function toAudacityLabels(detections: EnrichedDetection[]): string {
+  return detections
+    .map((d) =>
+      [seconds(d.start_time), seconds(d.end_time), tsvField(`${d.common_name} (${d.confidence.toFixed(2)})`)].join(
+        '\t',
+      ),
+    )
+    .map((line) => line + '\n')
+    .join('');
+}
+
+/** Group detections by audio file, each group sorted by start time. */
+export function groupByAudioFile(detections: EnrichedDetection[]): Map<number, EnrichedDetection[]> {
+  const groups = new Map<number, EnrichedDetection[]>();
+  for (const d of detections) {
+    const group = groups.get(d.audio_file_id);
+    if (group) {
+      group.push(d);
+    } else {
+      groups.set(d.audio_file_id, [d]);
+    }
+  }
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.start_time - b.start_time);
+  }
+  return groups;
+}
+
+/**
+ * Output file name for one audio file's export. Audio files that share a base name
+ * (e.g. the same AudioMoth file name on two cards) get their id appended so
+ * neither overwrites the other.
+ */
+export function perFileExportName(
+  format: Exclude<DetectionExportFormat, 'csv'>,
+  audioFileId: number,
+  filePath: string | null,
+  usedNames: Set<string>,
+): string {
+  const base = (filePath ?? `audio-file-${audioFileId}`).replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+  const suffix = format === 'raven' ? '.selections.txt' : '.labels.txt';
+  let name = `${base}${suffix}`;
+  if (usedNames.has(name.toLowerCase())) {
+    name = `${base}_${audioFileId}${suffix}`;
+  }
+  usedNames.add(name.toLowerCase());
+  return name;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clipWindow,
+  toCocoDataset,
+  toManifestCsv,
+  trainingClipName,
+  trainingFolderName,
+  type DatasetAnnotation,
+} from './training-dataset';
+
+function annotation(overrides: Partial<DatasetAnnotation> = {}): DatasetAnnotation {
+  return {
+    id: 5,
+    audio_file_id: 11,
+    detection_id: null,
+    start_time: 10,
+    end_time: 11,
+    low_freq_hz: 2000,
+    high_freq_hz: 6000,
+    scientific_name: 'Turdus merula',
+    confidence: null,
+    source: 'manual',
+    status: 'manual',
+    created_at: '2025-05-01 00:00:00',
+    updated_at: '2025-05-01 00:00:00',
+    file_path: '/data/20250501_050000.WAV',
+    duration_sec: 60,
+    sample_rate: 48000,
+    ...overrides,
+  };
+}
+
+describe('clipWindow', () => {
+  it('centers the clip on the box and keeps it inside the recording', () => {
+    expect(clipWindow(10, 11, 60)).toEqual({ start: 9, end: 12 });
+    expect(clipWindow(0, 0.5, 60)).toEqual({ start: 0, end: 3 });
+    expect(clipWindow(59, 60, 60)).toEqual({ start: 57, end: 60 });
+    expect(clipWindow(0.5, 1, 2)).toEqual({ start: 0, end: 2 });
+  });
+});
+
+describe('training file names', () => {
+  it('uses BirdNET label folders with a dash for negatives and strips unsafe characters', () => {
+    expect(trainingFolderName('Turdus merula', 'Eurasian Blackbird', false)).toBe('Turdus merula_Eurasian Blackbird');
+    expect(trainingFolderName('Turdus merula', 'Eurasian Blackbird', true)).toBe('-Turdus merula_Eurasian Blackbird');
+    expect(trainingFolderName('Strix aluco', 'Tawny Owl/Brown Owl', false)).toBe('Strix aluco_Tawny Owl_Brown Owl');
+    expect(trainingClipName(annotation(), 9)).toBe('20250501_050000_9.0s_5.wav');
+  });
+
+  it('writes one manifest line per clip', () => {
+    const csv = toManifestCsv([
+      {
+        file: 'a/b.wav',
+        label: 'Turdus merula_Eurasian Blackbird',
+        negative: true,
+        annotation: annotation(),
+        clip_start: 9,
+        clip_end: 12,
+      },
+    ]);
+    expect(csv.split('\n').at(1)).toBe(
+      'a/b.wav,Turdus merula_Eurasian Blackbird,negative,Turdus merula,manual,/data/20250501_050000.WAV,9.000,12.000,10.000,11.000,2000,6000',
+    );
+  });
+});
+
+describe('toCocoDataset', () => {
+  it('places boxes on a spectrogram per recording and leaves rejected annotations out', () => {
+    const coco = toCocoDataset(
+      [
+        annotation(),
+        annotation({ id: 6, low_freq_hz: null, high_freq_hz: null, start_time: 20, end_time: 23 }),
+        annotation({ id: 7, status: 'rejected', scientific_name: 'Parus major' }),
+      ],
+      new Map([['Turdus merula', 'Eurasian Blackbird']]),
+    );
+    expect(coco.images).toEqual([
+      { id: 11, audio_path: '/data/20250501_050000.WAV', duration_sec: 60, freq_max_hz: 24000 },
+    ]);
+    expect(coco.categories.map((c) => c.name)).toEqual(['Turdus merula_Eurasian Blackbird']);
+    expect(coco.annotations.map((a) => a.bbox)).toEqual([
+      [1000, 192, 100, 42.7],
+      [2000, 0, 300, 256],
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import path from 'path';
+import { csvField } from './detection-export';
+import { COCO_IMAGE_HEIGHT, COCO_PIXELS_PER_SECOND } from '$shared/constants';
+import type { Annotation } from '$shared/types';
+
+/** BirdNET classifies 3-second windows, so training crops match that length. */
+const TRAINING_CLIP_SECONDS = 3;
+/** Nyquist frequency assumed when a recording's sample rate is unknown (48 kHz audio). */
+const DEFAULT_FREQ_MAX_HZ = 24000;
+
+/** An annotation with the recording it was drawn on. */
+export interface DatasetAnnotation extends Annotation {
+  file_path: string;
+  duration_sec: number | null;
+  sample_rate: number | null;
+}
+
+export interface ManifestRow {
+  file: string;
+  label: string;
+  negative: boolean;
+  annotation: DatasetAnnotation;
+  clip_start: number;
+  clip_end: number;
+}
+
+/**
+ * A window of `clipSec` centered on the box, shifted to stay inside the recording.
+ * Recordings shorter than the window are used whole.
+ */
+export function clipWindow(
+  startTime: number,
+  endTime: number,
+  durationSec: number,
+  clipSec = TRAINING_CLIP_SECONDS,
+): { start: number; end: number } {
+  if (durationSec <= clipSec) return { start: 0, end: durationSec };
+  const center = (startTime + endTime) / 2;
+  const start = Math.min(Math.max(0, center - clipSec / 2), durationSec - clipSec);
+  return { start, end: start + clipSec };
+}
+
+/** Characters that are not allowed in file names on some platform. */
+function safeName(value: string): string {
+  return value.replace(/[\\/:*?"<>|]+/g, '_').trim();
+}
+
+/**
+ * BirdNET-Analyzer training folder for a label: `Scientific name_Common Name`. A leading
+ * dash marks negative samples of that species.
+ */
+export function trainingFolderName(scientificName: string, commonName: string, negative: boolean): string {
+  return `${negative ? '-' : ''}${safeName(`${scientificName}_${commonName}`)}`;
+}
+
+/** Crop file name: source recording, clip start and annotation id, so re-exports are stable. */
+export function trainingClipName(annotation: DatasetAnnotation, clipStart: number): string {
+  const base = path.basename(annotation.file_path).replace(/\.[^.]+$/, '');
+  return `${safeName(base)}_${clipStart.toFixed(1)}s_${annotation.id}.wav`;
+}
+
+/** One line per written crop, paths relative to the dataset folder. */
+export function toManifestCsv(rows: ManifestRow[]): string {
+  const header = [
+    'file',
+    'label',
+    'kind',
+    'scientific_name',
+    'status',
+    'source_file',
+    'clip_start',
+    'clip_end',
+    'box_start',
+    'box_end',
+    'low_freq_hz',
+    'high_freq_hz',
+  ];
+  const lines = rows.map(({ file, label, negative, annotation: a, clip_start, clip_end }) =>
+    [
+      csvField(file),
+      csvField(label),
+      negative ? 'negative' : 'positive',
+      csvField(a.scientific_name),
+      a.status,
+      csvField(a.file_path),
+      clip_start.toFixed(3),
+      clip_end.toFixed(3),
+      a.start_time.toFixed(3),
+      a.end_time.toFixed(3),
+      a.low_freq_hz ?? '',
+      a.high_freq_hz ?? '',
+    ].join(','),
+  );
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+export interface CocoDataset {
+  info: { description: string; pixels_per_second: number; image_height: number };
+  images: {
+    id: number;
+    audio_path: string;
+    duration_sec: number;
+    freq_max_hz: number;
+  }[];
+  categories: { id: number; name: string; scientific_name: string; common_name: string }[];
+  annotations: {
+    id: number;
+    image_id: number;
+    category_id: number;
+    bbox: [number, number, number, number];
+    area: number;
+    iscrowd: 0;
+    status: Annotation['status'];
+  }[];
+}
+
+/**
+ * COCO object-detection JSON with one image per recording: a linear spectrogram from 0 Hz
+ * (bottom) to Nyquist (top) at a fixed time scale. The images are not written; `info` gives
+ * the scale to render them at. Time-only boxes span the full height. Rejected annotations
+ * have no place in COCO and are left out.
+ */
+export function toCocoDataset(annotations: DatasetAnnotation[], commonNames: Map<string, string>): CocoDataset {
+  const positives = annotations.filter((a) => a.status !== 'rejected');
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const names = [...new Set(positives.map((a) => a.scientific_name))].sort();
+  const categoryIds = new Map(names.map((name, i) => [name, i + 1]));
+  const categories = names.map((name, i) => ({
+    id: i + 1,
+    name: `${name}_${commonNames.get(name) ?? name}`,
+    scientific_name: name,
+    common_name: commonNames.get(name) ?? name,
+  }));
+
+  const images = new Map<number, CocoDataset['images'][number]>();
+  for (const a of positives) {
+    const existing = images.get(a.audio_file_id);
+    const duration = Math.max(a.duration_sec ?? 0, a.end_time, existing?.duration_sec ?? 0);
+    images.set(a.audio_file_id, {
+      id: a.audio_file_id,
+      audio_path: a.file_path,
+      duration_sec: duration,
+      freq_max_hz: a.sample_rate ? a.sample_rate / 2 : DEFAULT_FREQ_MAX_HZ,
+    });
+  }
+
+  const cocoAnnotations = positives.flatMap((a) => {
+    const image = images.get(a.audio_file_id);
+    const categoryId = categoryIds.get(a.scientific_name);
+    if (!image || categoryId === undefined) return [];
+    const high = Math.min(a.high_freq_hz ?? image.freq_max_hz, image.freq_max_hz);
+    const low = Math.max(0, Math.min(a.low_freq_hz ?? 0, high));
+    const x = round(a.start_time * COCO_PIXELS_PER_SECOND);
+    const width = round((a.end_time - a.start_time) * COCO_PIXELS_PER_SECOND);
+    const y = round((1 - high / image.freq_max_hz) * COCO_IMAGE_HEIGHT);
+    const height = round(((high - low) / image.freq_max_hz) * COCO_IMAGE_HEIGHT);
+    return [
+      {
+        id: a.id,
+        image_id: image.id,
+        category_id: categoryId,
+        bbox: [x, y, width, height] as [number, number, number, number],
+        area: round(width * height),
+        iscrowd: 0 as const,
+        status: a.status,
+      },
+    ];
+  });
+
+  return {
+    info: {
+      description:
+        'Boxes on linear-frequency spectrograms of each recording (not included): pixels_per_second wide per second of audio, image_height tall, 0 Hz at the bottom and freq_max_hz at the top',
+      pixels_per_second: COCO_PIXELS_PER_SECOND,
+      image_height: COCO_IMAGE_HEIGHT,
+    },
+    images: [...images.values()],
+    categories,
+    annotations: cocoAnnotations,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseAnnotationFile, sourceFromAnnotationName, speciesFromLabel } from './annotation-files';
+
+describe('parseAnnotationFile', () => {
+  it('reads hand-drawn Raven selections with frequency bounds and skips waveform duplicates', () => {
+    const content = [
+      'Selection\tView\tChannel\tBegin Time (s)\tEnd Time (s)\tLow Freq (Hz)\tHigh Freq (Hz)\tSpecies',
+      '1\tWaveform 1\t1\t1.5\t2.5\t0\t0\tTurdus merula',
+      '1\tSpectrogram 1\t1\t1.5\t2.5\t1800\t4200\tTurdus merula',
+      '2\tSpectrogram 1\t1\t7\t9\t0\t0\tParus major',
+      '3\tSpectrogram 1\t1\t10\t11\t2000\t5000\t',
+    ].join('\r\n');
+    const parsed = parseAnnotationFile('/old/20240510_050000.Table.1.selections.txt', content);
+    expect(parsed?.format).toBe('raven');
+    expect(parsed?.rows).toEqual([
+      {
+        source_file: '20240510_050000',
+        start_time: 1.5,
+        end_time: 2.5,
+        low_freq_hz: 1800,
+        high_freq_hz: 4200,
+        label: 'Turdus merula',
+      },
+      {
+        source_file: '20240510_050000',
+        start_time: 7,
+        end_time: 9,
+        low_freq_hz: null,
+        high_freq_hz: null,
+        label: 'Parus major',
+      },
+    ]);
+  });
+
+  it('reads Audacity label tracks including spectral labels', () => {
+    const content = [
+      '1.000000\t2.500000\tGreat Tit',
+      '\\\t2000.000000\t6000.000000',
+      '4\t5\tEurasian Wren',
+      '\\\t-1\t-1',
+    ].join('\n');
+    const parsed = parseAnnotationFile('dawn.labels.txt', content);
+    expect(parsed?.format).toBe('audacity');
+    expect(parsed?.rows.map((r) => [r.source_file, r.label, r.low_freq_hz, r.high_freq_hz])).toEqual([
+      ['dawn', 'Great Tit', 2000, 6000],
+      ['dawn', 'Eurasian Wren', null, null],
+    ]);
+  });
+
+  it('rejects files that are neither format', () => {
+    expect(parseAnnotationFile('notes.txt', 'just some notes')).toBeNull();
+  });
+});
+
+describe('label helpers', () => {
+  it('derives the sound file from default annotation file names', () => {
+    expect(sourceFromAnnotationName('C:\\raven\\site1.Table.1.selections.txt')).toBe('site1');
+    expect(sourceFromAnnotationName('site1.txt')).toBe('site1');
+  });
+
+  it('splits BirdNET labels and drops exported confidences', () => {
+    expect(speciesFromLabel('Turdus merula_Eurasian Blackbird')).toEqual({
+      scientific_name: 'Turdus merula',
+      common_name: 'Eurasian Blackbird',
+    });
+    expect(speciesFromLabel('Great Tit (0.87)')).toEqual({ scientific_name: 'Great Tit', common_name: 'Great Tit' });
+  });
+});
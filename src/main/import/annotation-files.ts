@@ -0,0 +1,136 @@
+import { normalizeHeader, splitLines, textOrNull, toNumber, toRecord } from './result-files';
+import type { ImportedSpeciesName } from '../species-lists/list-files';
+import type { AnnotationFileFormat } from '$shared/types';
+
+/** One box read from a hand-made annotation file, before it is matched to an audio file. */
+interface ParsedAnnotationRow {
+  /** Audio file as written in the file, or derived from the annotation file's name. */
+  source_file: string;
+  start_time: number;
+  end_time: number;
+  /** Both null for a time-only selection. */
+  low_freq_hz: number | null;
+  high_freq_hz: number | null;
+  label: string;
+}
+
+export interface ParsedAnnotationFile {
+  format: AnnotationFileFormat;
+  rows: ParsedAnnotationRow[];
+}
+
+/** Columns a Raven selection table may keep its species label in, most specific first. */
+const RAVEN_LABEL_COLUMNS = ['species', 'scientific name', 'common name', 'annotation', 'label', 'class', 'sound type'];
+// eslint-disable-next-line security/detect-unsafe-regex
+const AUDACITY_LINE = /^-?\d+(?:\.\d+)?\t-?\d+(?:\.\d+)?(?:\t|$)/;
+/** Raven ("x.Table.1.selections.txt") and Audacity ("x.labels.txt") default names carry the sound file's name. */
+// eslint-disable-next-line security/detect-unsafe-regex
+const ANNOTATION_SUFFIX = /(?:\.Table\.\d+)?\.(?:selections|labels)\.txt$/i;
+
+/** Audio file base name an annotation file was saved for, e.g. "20240510_050000.Table.1.selections.txt" → "20240510_050000". */
+export function sourceFromAnnotationName(fileName: string): string {
+  const name = fileName.replace(/^.*[\\/]/, '');
+  return ANNOTATION_SUFFIX.test(name) ? name.replace(ANNOTATION_SUFFIX, '') : name.replace(/\.[^.]+$/, '');
+}
+
+/** Guess the format from the first line; null for files that are not annotations. */
+function detectAnnotationFormat(firstLine: string): AnnotationFileFormat | null {
+  if (AUDACITY_LINE.test(firstLine)) return 'audacity';
+  const header = normalizeHeader(firstLine.split('\t'));
+  if (header.includes('begin time (s)') && header.includes('end time (s)')) return 'raven';
+  return null;
+}
+
+/** Frequency bounds, or both null unless they form a valid band. */
+function band(low: number | null, high: number | null): { low_freq_hz: number | null; high_freq_hz: number | null } {
+  if (low === null || high === null || low < 0 || high <= low) return { low_freq_hz: null, high_freq_hz: null };
+  return { low_freq_hz: low, high_freq_hz: high };
+}
+
+function buildRow(
+  source: string,
+  start: number | null,
+  end: number | null,
+  label: string | null,
+  freq: { low_freq_hz: number | null; high_freq_hz: number | null },
+): ParsedAnnotationRow | null {
+  if (start === null || end === null || end <= start || start < 0 || !label) return null;
+  return { source_file: source, start_time: start, end_time: end, ...freq, label };
+}
+
+// Raven Pro selection table, drawn by hand: Begin/End Time (s), Low/High Freq (Hz) and a label column
+function parseRavenSelections(lines: string[], fallbackSource: string): ParsedAnnotationRow[] {
+  const header = normalizeHeader(lines[0].split('\t'));
+  const labelColumn = RAVEN_LABEL_COLUMNS.find((column) => header.includes(column));
+  const rows: ParsedAnnotationRow[] = [];
+  for (const line of lines.slice(1)) {
+    const r = toRecord(header, line.split('\t'));
+    // Raven lists each selection once per view; the waveform copies are duplicates
+    if (r.get('view')?.toLowerCase().startsWith('waveform')) continue;
+
+    const beginTime = toNumber(r.get('begin time (s)'));
+    const endTime = toNumber(r.get('end time (s)'));
+    // Combined tables count Begin Time across all files; File Offset is the position within this file
+    const offset = toNumber(r.get('file offset (s)'));
+    const row = buildRow(
+      textOrNull(r.get('begin path')) ?? textOrNull(r.get('begin file')) ?? fallbackSource,
+      offset ?? beginTime,
+      offset !== null && beginTime !== null && endTime !== null ? offset + (endTime - beginTime) : endTime,
+      labelColumn ? textOrNull(r.get(labelColumn)) : null,
+      band(toNumber(r.get('low freq (hz)')), toNumber(r.get('high freq (hz)'))),
+    );
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+// Audacity label track: "start<TAB>end<TAB>label", optionally followed by "\<TAB>low<TAB>high" for spectral labels
+function parseAudacityLabels(lines: string[], fallbackSource: string): ParsedAnnotationRow[] {
+  const rows: ParsedAnnotationRow[] = [];
+  let previous: ParsedAnnotationRow | null = null;
+  for (const line of lines) {
+    const fields = line.split('\t');
+    if (fields.at(0) === '\\') {
+      // Audacity writes a negative bound when the label has no frequency range
+      if (previous) Object.assign(previous, band(toNumber(fields.at(1)), toNumber(fields.at(2))));
+      previous = null;
+      continue;
+    }
+    previous = buildRow(
+      fallbackSource,
+      toNumber(fields.at(0)),
+      toNumber(fields.at(1)),
+      textOrNull(fields.slice(2).join(' ')),
+      band(null, null),
+    );
+    if (previous) rows.push(previous);
+  }
+  return rows;
+}
+
+/** Parse an annotation file; returns null when it is neither a selection table nor a label track. */
+export function parseAnnotationFile(fileName: string, content: string): ParsedAnnotationFile | null {
+  const lines = splitLines(content);
+  if (lines.length === 0) return null;
+  const format = detectAnnotationFormat(lines[0]);
+  if (!format) return null;
+
+  const fallbackSource = sourceFromAnnotationName(fileName);
+  return format === 'raven'
+    ? { format, rows: parseRavenSelections(lines, fallbackSource) }
+    : { format, rows: parseAudacityLabels(lines, fallbackSource) };
+}
+
+/**
+ * Species named by a free-text label: "Scientific name_Common Name" as BirdNET writes it,
+ * otherwise the label tried as either name. A trailing confidence such as " (0.87)", as in
+ * label tracks this app exports, is dropped.
+ */
+export function speciesFromLabel(label: string): ImportedSpeciesName {
+  const text = label.replace(/\s*\(\d*\.?\d+\)$/, '').trim();
+  const underscore = text.indexOf('_');
+  if (underscore > 0) {
+    return { scientific_name: text.slice(0, underscore).trim(), common_name: text.slice(underscore + 1).trim() };
+  }
+  return { scientific_name: text, common_name: text };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildAudioIndex, matchAudioFile, parseResultsFile, sourceFromResultsName, splitCsvLine } from './result-files';
+
+describe('splitCsvLine', () => {
+  it('handles quoted fields with commas and escaped quotes', () => {
+    expect(splitCsvLine('1,"Warbler, ""Willow""",0.5')).toEqual(['1', 'Warbler, "Willow"', '0.5']);
+  });
+});
+
+describe('sourceFromResultsName', () => {
+  it('strips BirdNET-Analyzer result suffixes', () => {
+    expect(sourceFromResultsName('/x/20240510_050000.BirdNET.results.csv')).toBe('20240510_050000');
+    expect(sourceFromResultsName('20240510_050000.BirdNET.selection.table.txt')).toBe('20240510_050000');
+    expect(sourceFromResultsName('other.csv')).toBe('other');
+  });
+});
+
+describe('parseResultsFile', () => {
+  it('parses BirdNET-Analyzer CSV and falls back to the result file name', () => {
+    const csv = [
+      'Start (s),End (s),Scientific name,Common name,Confidence',
+      '0.0,3.0,Turdus merula,Eurasian Blackbird,0.8123',
+      'bad,row,,,',
+    ].join('\r\n');
+    expect(parseResultsFile('REC1.BirdNET.results.csv', csv)).toEqual({
+      format: 'birdnet_csv',
+      rows: [
+        {
+          source_file: 'REC1',
+          start_time: 0,
+          end_time: 3,
+          scientific_name: 'Turdus merula',
+          common_name: 'Eurasian Blackbird',
+          confidence: 0.8123,
+        },
+      ],
+    });
+  });
+
+  it('parses Raven tables using file offsets and skips waveform duplicates', () => {
+    const table = [
+      'Selection\tView\tChannel\tBegin Path\tBegin Time (s)\tEnd Time (s)\tFile Offset (s)\tCommon Name\tConfidence',
+      '1\tSpectrogram 1\t1\t/data/B.WAV\t63.0\t66.0\t3.0\tEurasian Blackbird\t0.9',
+      '1\tWaveform 1\t1\t/data/B.WAV\t63.0\t66.0\t3.0\tEurasian Blackbird\t0.9',
+    ].join('\n');
+    const parsed = parseResultsFile('combined.txt', table);
+    expect(parsed?.format).toBe('raven');
+    expect(parsed?.rows).toEqual([
+      {
+        source_file: '/data/B.WAV',
+        start_time: 3,
+        end_time: 6,
+        scientific_name: null,
+        common_name: 'Eurasian Blackbird',
+        confidence: 0.9,
+      },
+    ]);
+  });
+
+  it('parses Kaleidoscope CSV with folder and duration', () => {
+    const csv = [
+      'INDIR,FOLDER,IN FILE,OFFSET,DURATION,scientific_name,common_name,confidence,lat,lon',
+      'C:\\audio,site1,REC2.WAV,12,3,Erithacus rubecula,European Robin,0.7,60.1,24.9',
+    ].join('\n');
+    const parsed = parseResultsFile('results.csv', csv);
+    expect(parsed?.format).toBe('kaleidoscope');
+    expect(parsed?.rows[0]).toMatchObject({ source_file: 'C:\\audio/site1/REC2.WAV', start_time: 12, end_time: 15 });
+  });
+
+  it('returns null for unrelated files', () => {
+    expect(parseResultsFile('notes.txt', 'just some notes')).toBeNull();
+    expect(parseResultsFile('empty.csv', '')).toBeNull();
+  });
+});
+
+describe('matchAudioFile', () => {
+  const index = buildAudioIndex(['/a/site1/REC.wav', '/a/site2/REC.wav', '/a/site1/OTHER.flac']);
+
+  it('matches by base name regardless of extension and case', () => {
+    expect(matchAudioFile('D:\\old\\other.WAV', index)).toBe('/a/site1/OTHER.flac');
+  });
+
+  it('uses the parent folder to break ties, else leaves the row unmatched', () => {
+    expect(matchAudioFile('C:\\x\\site2\\REC.WAV', index)).toBe('/a/site2/REC.wav');
+    expect(matchAudioFile('REC', index)).toBeNull();
+  });
+});
@@ -0,0 +1,261 @@
+import type { ResultsImportFormat } from '$shared/types';
+
+/** One detection read from a third-party result file, before it is matched to an audio file. */
+export interface ParsedResultRow {
+  /** Audio file as written in the results: a full path, a bare name, or derived from the result file name. */
+  source_file: string;
+  start_time: number;
+  end_time: number;
+  scientific_name: string | null;
+  common_name: string | null;
+  confidence: number;
+}
+
+export interface ParsedResultFile {
+  format: ResultsImportFormat;
+  rows: ParsedResultRow[];
+}
+
+/** Suffixes BirdNET-Analyzer appends to the audio file's base name. */
+const RESULT_SUFFIX = /\.BirdNET\.(?:results\.csv|results\.kaleidoscope\.csv|selection\.table\.txt)$/i;
+
+/** Audio file base name a per-file result was written for, e.g. "20240510_050000.BirdNET.results.csv" → "20240510_050000". */
+export function sourceFromResultsName(resultsFileName: string): string {
+  const name = resultsFileName.replace(/^.*[\\/]/, '');
+  return RESULT_SUFFIX.test(name) ? name.replace(RESULT_SUFFIX, '') : name.replace(/\.[^.]+$/, '');
+}
+
+/** Split one CSV line, honouring double-quoted fields with "" escapes. */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line.charAt(i);
+    if (quoted) {
+      if (ch === '"' && line.charAt(i + 1) === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+export function splitLines(content: string): string[] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+}
+
+export function normalizeHeader(fields: string[]): string[] {
+  return fields.map((f) => f.trim().toLowerCase());
+}
+
+/** Guess the format from the header line; null for files that are not detection results. */
+function detectResultsFormat(headerLine: string): ResultsImportFormat | null {
+  if (headerLine.includes('\t')) {
+    const header = normalizeHeader(headerLine.split('\t'));
+    if (header.includes('begin time (s)') && header.includes('end time (s)') && header.includes('confidence')) {
+      return 'raven';
+    }
+    return null;
+  }
+  const header = normalizeHeader(splitCsvLine(headerLine));
+  if (header.includes('in file') && header.includes('offset') && header.includes('confidence')) {
+    return 'kaleidoscope';
+  }
+  if (header.includes('start (s)') && header.includes('end (s)') && header.includes('confidence')) {
+    return 'birdnet_csv';
+  }
+  return null;
+}
+
+export function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function textOrNull(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  return trimmed;
+}
+
+/** Pair each field with its (normalized) header name. */
+export function toRecord(header: string[], fields: string[]): Map<string, string> {
+  const record = new Map<string, string>();
+  header.forEach((name, i) => record.set(name, fields.at(i) ?? ''));
+  return record;
+}
+
+/** Build a row from named columns; returns null for rows without usable times, confidence or species. */
+function buildRow(
+  source: string,
+  start: number | null,
+  end: number | null,
+  scientific: string | undefined,
+  common: string | undefined,
+  confidence: number | null,
+): ParsedResultRow | null {
+  if (start === null || end === null || confidence === null || end <= start) return null;
+  const scientificName = textOrNull(scientific);
+  const commonName = textOrNull(common);
+  if (!scientificName && !commonName) return null;
+  return {
+    source_file: source,
+    start_time: start,
+    end_time: end,
+    scientific_name: scientificName,
+    common_name: commonName,
+    confidence,
+  };
+}
+
+// BirdNET-Analyzer --rtype csv: Start (s),End (s),Scientific name,Common name,Confidence[,File]
+function parseBirdnetCsv(lines: string[], fallbackSource: string): ParsedResultRow[] {
+  const header = normalizeHeader(splitCsvLine(lines[0]));
+  const rows: ParsedResultRow[] = [];
+  for (const line of lines.slice(1)) {
+    const r = toRecord(header, splitCsvLine(line));
+    const row = buildRow(
+      textOrNull(r.get('file')) ?? fallbackSource,
+      toNumber(r.get('start (s)')),
+      toNumber(r.get('end (s)')),
+      r.get('scientific name'),
+      r.get('common name'),
+      toNumber(r.get('confidence')),
+    );
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+// Raven Pro selection table, as written by BirdNET-Analyzer --rtype table
+function parseRavenTable(lines: string[], fallbackSource: string): ParsedResultRow[] {
+  const header = normalizeHeader(lines[0].split('\t'));
+  const rows: ParsedResultRow[] = [];
+  for (const line of lines.slice(1)) {
+    const r = toRecord(header, line.split('\t'));
+    // Raven lists each selection once per view; the waveform copies are duplicates
+    if (r.get('view')?.toLowerCase().startsWith('waveform')) continue;
+
+    const beginTime = toNumber(r.get('begin time (s)'));
+    const endTime = toNumber(r.get('end time (s)'));
+    // Combined tables count Begin Time across all files; File Offset is the position within this file
+    const offset = toNumber(r.get('file offset (s)'));
+    const startInFile = offset ?? beginTime;
+    const endInFile =
+      offset !== null && beginTime !== null && endTime !== null ? offset + (endTime - beginTime) : endTime;
+
+    const row = buildRow(
+      textOrNull(r.get('begin path')) ?? fallbackSource,
+      startInFile,
+      endInFile,
+      r.get('scientific name'),
+      r.get('common name'),
+      toNumber(r.get('confidence')),
+    );
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+// BirdNET-Analyzer --rtype kaleidoscope: INDIR,FOLDER,IN FILE,OFFSET,DURATION,scientific_name,common_name,confidence,...
+function parseKaleidoscopeCsv(lines: string[]): ParsedResultRow[] {
+  const header = normalizeHeader(splitCsvLine(lines[0]));
+  const rows: ParsedResultRow[] = [];
+  for (const line of lines.slice(1)) {
+    const r = toRecord(header, splitCsvLine(line));
+    const fileName = textOrNull(r.get('in file'));
+    if (!fileName) continue;
+    const dirs = [textOrNull(r.get('indir')), textOrNull(r.get('folder'))].filter((p): p is string => p !== null);
+    const source = [...dirs.map((p) => p.replace(/[\\/]+$/, '')), fileName].join('/');
+
+    const start = toNumber(r.get('offset'));
+    const length = toNumber(r.get('duration'));
+    const row = buildRow(
+      source,
+      start,
+      start !== null && length !== null ? start + length : null,
+      r.get('scientific_name'),
+      r.get('common_name'),
+      toNumber(r.get('confidence')),
+    );
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+/** Parse a result file; returns null when its header matches none of the supported formats. */
+export function parseResultsFile(fileName: string, content: string): ParsedResultFile | null {
+  const lines = splitLines(content);
+  if (lines.length === 0) return null;
+  const format = detectResultsFormat(lines[0]);
+  if (!format) return null;
+
+  const fallbackSource = sourceFromResultsName(fileName);
+  switch (format) {
+    case 'birdnet_csv':
+      return { format, rows: parseBirdnetCsv(lines, fallbackSource) };
+    case 'raven':
+      return { format, rows: parseRavenTable(lines, fallbackSource) };
+    case 'kaleidoscope':
+      return { format, rows: parseKaleidoscopeCsv(lines) };
+  }
+}
+
+function baseKey(filePath: string): string {
+  return filePath
+    .replace(/^.*[\\/]/, '')
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase();
+}
+
+function parentFolder(filePath: string): string {
+  const parts = filePath.split(/[\\/]/);
+  return parts.length > 1 ? parts[parts.length - 2].toLowerCase() : '';
+}
+
+/** Index audio files on disk by lower-case base name (no extension). */
+export function buildAudioIndex(audioPaths: string[]): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const p of audioPaths) {
+    const key = baseKey(p);
+    const existing = index.get(key);
+    if (existing) {
+      existing.push(p);
+    } else {
+      index.set(key, [p]);
+    }
+  }
+  return index;
+}
+
+/**
+ * Find the audio file on disk a result row refers to. Results often carry paths
+ * from another machine, so only the base name is compared; when several files share
+ * it, the one in a folder of the same name wins, and otherwise the row stays unmatched.
+ */
+export function matchAudioFile(sourceFile: string, index: Map<string, string[]>): string | null {
+  const candidates = index.get(baseKey(sourceFile));
+  if (!candidates) return null;
+  if (candidates.length === 1) return candidates[0];
+  const folder = parentFolder(sourceFile);
+  const sameFolder = candidates.filter((c) => parentFolder(c) === folder);
+  return sameFolder.length === 1 ? sameFolder[0] : null;
+}
@@ -15,6 +15,8 @@ import fs from 'fs';
 import { registerHandlers } from './ipc/handlers';
 import { closeDb } from './db/database';
 import { markStaleRunsAsFailed } from './db/runs';
+import { pauseStaleJobs } from './db/analysis-jobs';
+import { startWatching } from './watch/watcher';
 import { buildLabelsPath, reloadLabels } from './labels/label-service';
 import { listModels } from './birda/models';
 import { killAll as killAllBirdaProcesses } from './birda/runner';
@@ -110,6 +112,11 @@ function createMenu() {
           accelerator: 'CmdOrCtrl+4',
           click: () => mainWindow?.webContents.send('menu:switch-tab', 'species'),
         },
+        {
+          label: 'Devices',
+          accelerator: 'CmdOrCtrl+6',
+          click: () => mainWindow?.webContents.send('menu:switch-tab', 'devices'),
+        },
         {
           label: 'Settings',
           accelerator: 'CmdOrCtrl+5',
@@ -251,6 +258,12 @@ void app.whenReady().then(async () => {
     console.log(`[startup] Marked ${staleCount} stale running run(s) as failed`);
   }
 
+  // Interrupted queue jobs wait for the user to resume them
+  const staleJobCount = pauseStaleJobs();
+  if (staleJobCount > 0) {
+    console.log(`[startup] Paused ${staleJobCount} interrupted analysis job(s)`);
+  }
+
   // Initialize label service from default model's labels with saved language preference
   try {
     const models = await listModels();
@@ -278,6 +291,9 @@ void app.whenReady().then(async () => {
 
   createMenu();
   createWindow();
+
+  // Watched folders queue their new recordings into the analysis queue
+  startWatching();
 });
 
 app.on('window-all-closed', () => {
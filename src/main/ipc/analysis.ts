@@ -4,14 +4,23 @@ import fs from 'fs';
 import path from 'path';
 import { tmpdir } from 'os';
 import { z } from 'zod';
+import { parseExtraArgs } from '../birda/args';
 import { runAnalysis, findBirda, type AnalysisHandle, type LogLevel } from '../birda/runner';
-import { createRun, updateRunStatus, deleteCompletedRunsForSource } from '../db/runs';
+import { createRun, updateRunStatus, deleteCompletedRunsForSource, getRunById } from '../db/runs';
 import { createLocation, findLocationByCoords } from '../db/locations';
-import { insertDetections, updateDetectionClipPath, importDetectionsFromJson } from '../db/detections';
+import {
+  applySpeciesFilter,
+  insertDetections,
+  updateDetectionClipPath,
+  importDetectionsFromJson,
+  type ImportSpeciesFilter,
+} from '../db/detections';
+import { getSpeciesListById, getSpeciesListEntries } from '../db/species-lists';
 import { getAudioMetadata, parseRecordingStart, formatIsoTimestamp } from './files';
-import { createAudioFile } from '../db/audio-files';
+import { createAudioFile, deleteAudioFile, getAudioFilePathsForRun } from '../db/audio-files';
+import { resolveDeployment } from '../db/deployments';
 import { settingsStore } from '../settings/store';
-import type { AudioFileMetadata } from '$shared/types';
+import type { AnalysisRequest, AnalysisRun, AudioFileMetadata } from '$shared/types';
 import type {
   BirdaEventEnvelope,
   PipelineStartedPayload,
@@ -25,6 +34,7 @@ const MAX_TRACKED_FILES = 100;
 const MAX_CONCURRENT_IMPORTS = 10; // Limit concurrent JSON imports to prevent DoS
 
 let currentAnalysis: AnalysisHandle | null = null;
+let cancelRequested = false;
 
 // Simple semaphore for limiting concurrent operations
 class Semaphore {
@@ -99,7 +109,7 @@ function deriveJsonPath(outputDir: string, audioFile: string): string {
   return path.join(outputDir, `${basename}.BirdNET.json`);
 }
 
-const AnalysisRequestSchema = z.object({
+export const AnalysisRequestSchema = z.object({
   source_path: z.string().min(1),
   model: z.string().min(1),
   min_confidence: z.number().min(0).max(1),
@@ -109,13 +119,26 @@ const AnalysisRequestSchema = z.object({
   day: z.number().int().min(1).max(31).optional(),
   location_name: z.string().optional(),
   timezone_offset_min: z.number().int().optional(),
+  resume_run_id: z.number().int().positive().optional(),
+  execution_provider: z.string().min(1).optional(),
+  extra_args: z.string().optional(),
+  species_list_id: z.number().int().positive().optional(),
+  species_list_mode: z.enum(['include', 'exclude']).optional(),
+  species_list_name: z.string().optional(),
+  preset_id: z.number().int().positive().optional(),
+  preset_name: z.string().optional(),
+  ensemble_models: z.array(z.string().min(1)).optional(),
+  ensemble_id: z.number().int().positive().optional(),
 });
 
 /**
  * Parse audio file metadata for storage in audio_files table
  * Priority: AudioMoth metadata > filename parsing (defaults to UTC if no timezone set)
  */
-async function parseFileMetadata(filePath: string, runTimezoneOffset: number | null): Promise<AudioFileMetadata> {
+export async function parseFileMetadata(
+  filePath: string,
+  runTimezoneOffset: number | null,
+): Promise<AudioFileMetadata> {
   const meta = await getAudioMetadata(filePath);
 
   let recordingStart: string | null = null;
@@ -151,323 +174,416 @@ async function parseFileMetadata(filePath: string, runTimezoneOffset: number | n
   };
 }
 
-export function registerAnalysisHandlers(): void {
-  ipcMain.handle('birda:analyze', async (event, rawRequest: unknown) => {
-    // Validate input
-    const request = AnalysisRequestSchema.parse(rawRequest);
-    if (currentAnalysis) {
-      throw new Error('An analysis is already running. Cancel it first.');
-    }
+/**
+ * Load the species list a request names. A resumed run reads its request back from
+ * settings_json, so it keeps filtering with the same list.
+ */
+function resolveSpeciesFilter(request: AnalysisRequest): (ImportSpeciesFilter & { listName: string }) | undefined {
+  if (request.species_list_id === undefined) return undefined;
+  const list = getSpeciesListById(request.species_list_id);
+  if (!list) throw new Error(`Species list ${request.species_list_id} not found`);
+  return {
+    names: new Set(getSpeciesListEntries(list.id).map((e) => e.scientific_name)),
+    mode: request.species_list_mode ?? 'include',
+    listName: list.name,
+  };
+}
 
-    // Lock immediately with placeholder to prevent race condition
-    const placeholderHandle: AnalysisHandle = {
-      cancel: () => {
-        /* no-op */
-      },
-      promise: Promise.resolve(),
-      on: () => {
-        /* no-op */
-      },
-      stderrLog: () => '',
-    };
-    currentAnalysis = placeholderHandle;
+/**
+ * Run one validated analysis request to completion. Callers serialize runs (the
+ * analysis queue does); this only tracks the active handle so it can be cancelled.
+ * With `resume_run_id` the existing run is continued: files it already has an
+ * audio_files row for are skipped and new detections are added to the same run.
+ */
+export async function runAnalysisRequest(
+  win: BrowserWindow,
+  request: AnalysisRequest,
+): Promise<{ runId: number; status: 'completed' | 'completed_with_errors' | 'failed' }> {
+  if (currentAnalysis) {
+    throw new Error('An analysis is already running. Cancel it first.');
+  }
 
-    const win = BrowserWindow.fromWebContents(event.sender);
-    if (!win) {
-      currentAnalysis = null; // Release lock
-      throw new Error('No window found');
+  // Lock immediately with placeholder; a cancel during setup is passed on to the runner below
+  const placeholderHandle: AnalysisHandle = {
+    cancel: () => {
+      /* no-op */
+    },
+    promise: Promise.resolve(),
+    on: () => {
+      /* no-op */
+    },
+    stderrLog: () => '',
+  };
+  currentAnalysis = placeholderHandle;
+
+  try {
+    // Checked first so a bad flag or missing list leaves no run or temp directory behind
+    const extraArgs = request.extra_args ? parseExtraArgs(request.extra_args) : undefined;
+    const speciesFilter = resolveSpeciesFilter(request);
+
+    // Detect if source is directory
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    const sourceStat = await fs.promises.stat(request.source_path);
+    const isDirectory = sourceStat.isDirectory();
+
+    let outputDir: string | undefined;
+
+    if (isDirectory) {
+      outputDir = await createTempOutputDir();
+      sendLog(win, 'info', 'analysis', `Created temp output directory: ${outputDir}`);
     }
 
-    try {
-      // Detect if source is directory
-      // eslint-disable-next-line security/detect-non-literal-fs-filename
-      const sourceStat = await fs.promises.stat(request.source_path);
-      const isDirectory = sourceStat.isDirectory();
+    sendLog(
+      win,
+      'info',
+      'analysis',
+      `Starting analysis: model=${request.model}, confidence=${request.min_confidence}, source=${request.source_path}`,
+    );
+    if (request.preset_name) {
+      sendLog(win, 'info', 'analysis', `Using preset: ${request.preset_name}`);
+    }
+    if (speciesFilter) {
+      const verb = speciesFilter.mode === 'include' ? 'Keeping only' : 'Dropping';
+      sendLog(
+        win,
+        'info',
+        'analysis',
+        `${verb} the ${speciesFilter.names.size} species on list "${speciesFilter.listName}"`,
+      );
+    }
 
-      let outputDir: string | undefined;
+    const resumeRun = request.resume_run_id !== undefined ? getRunById(request.resume_run_id) : undefined;
+    if (request.resume_run_id !== undefined && !resumeRun) {
+      throw new Error(`Cannot resume run ${request.resume_run_id}: run not found`);
+    }
 
-      if (isDirectory) {
-        outputDir = await createTempOutputDir();
-        sendLog(win, 'info', 'analysis', `Created temp output directory: ${outputDir}`);
+    // Resolve or create location (a resumed run keeps its own)
+    let locationId: number | null = resumeRun?.location_id ?? null;
+    if (!resumeRun && request.latitude !== undefined && request.longitude !== undefined) {
+      const existing = findLocationByCoords(request.latitude, request.longitude);
+      if (existing) {
+        locationId = existing.id;
+        sendLog(
+          win,
+          'info',
+          'analysis',
+          `Using existing location: id=${existing.id} (${request.latitude}, ${request.longitude})`,
+        );
+      } else {
+        const loc = createLocation(request.latitude, request.longitude, request.location_name);
+        locationId = loc.id;
+        sendLog(win, 'info', 'analysis', `Created location: id=${loc.id} (${request.latitude}, ${request.longitude})`);
       }
+    }
 
+    let run: AnalysisRun;
+    let importedFiles = new Set<string>();
+    if (resumeRun) {
+      run = resumeRun;
+      importedFiles = new Set(getAudioFilePathsForRun(run.id));
+      updateRunStatus(run.id, 'running');
       sendLog(
         win,
         'info',
         'analysis',
-        `Starting analysis: model=${request.model}, confidence=${request.min_confidence}, source=${request.source_path}`,
+        `Resuming analysis run: id=${run.id} (${importedFiles.size} file(s) already imported)`,
       );
 
-      // Resolve or create location
-      let locationId: number | null = null;
-      if (request.latitude !== undefined && request.longitude !== undefined) {
-        const existing = findLocationByCoords(request.latitude, request.longitude);
-        if (existing) {
-          locationId = existing.id;
-          sendLog(
-            win,
-            'info',
-            'analysis',
-            `Using existing location: id=${existing.id} (${request.latitude}, ${request.longitude})`,
-          );
-        } else {
-          const loc = createLocation(request.latitude, request.longitude, request.location_name);
-          locationId = loc.id;
-          sendLog(
-            win,
-            'info',
-            'analysis',
-            `Created location: id=${loc.id} (${request.latitude}, ${request.longitude})`,
-          );
-        }
+      if (!isDirectory && importedFiles.has(request.source_path)) {
+        sendLog(win, 'info', 'analysis', 'Source file already imported, nothing left to analyze');
+        updateRunStatus(run.id, 'completed');
+        currentAnalysis = null;
+        cancelRequested = false;
+        return { runId: run.id, status: 'completed' };
       }
-
+    } else {
       // Delete any previous completed runs for the same source+model to avoid duplicates
       const deletedCount = deleteCompletedRunsForSource(request.source_path, request.model);
       if (deletedCount > 0) {
         sendLog(win, 'info', 'analysis', `Replaced ${deletedCount} previous run(s) (same source + model)`);
       }
 
-      // Create run record
-      const run = createRun(
+      // Create run record; the request is kept so the run can be resumed with the same settings
+      run = createRun(
         request.source_path,
         request.model,
         request.min_confidence,
         locationId,
-        undefined,
+        JSON.stringify({ ...request, species_list_name: speciesFilter?.listName }),
         request.timezone_offset_min,
+        request.ensemble_id,
       );
       sendLog(win, 'info', 'analysis', `Created analysis run: id=${run.id}`);
+    }
 
-      // Resolve month/day: prefer values from request, then try to parse from filename
-      let month = request.month;
-      let day = request.day;
-      if (month === undefined || day === undefined) {
-        const base = path.basename(request.source_path).replace(/\.[^.]+$/, '');
-        const dateMatch = /^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})$/.exec(base);
-        if (dateMatch) {
-          month = month ?? Number(dateMatch[2]);
-          day = day ?? Number(dateMatch[3]);
-          sendLog(win, 'info', 'analysis', `Parsed recording date from filename: month=${month}, day=${day}`);
-        }
+    // birda skips inputs whose output file already exists unless --force is passed,
+    // so empty placeholders keep it from re-analyzing files this run already imported.
+    if (outputDir && importedFiles.size > 0) {
+      for (const file of importedFiles) {
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        await fs.promises.writeFile(deriveJsonPath(outputDir, file), '{}');
       }
+    }
 
-      // Compute day-of-year from month/day for BSG SDM support.
-      // BSG models use --day-of-year (1-366) instead of --month/--day.
-      // We pass both so BirdNET gets month/day and BSG gets day-of-year.
-      let dayOfYear: number | undefined;
-      if (month !== undefined && day !== undefined) {
-        const d = new Date(LEAP_YEAR_FOR_DOY, month - 1, day); // leap year to handle Feb 29
-        const start = new Date(LEAP_YEAR_FOR_DOY, 0, 0);
-        dayOfYear = Math.floor((d.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-        sendLog(win, 'info', 'analysis', `Computed day-of-year: ${dayOfYear} (from month=${month}, day=${day})`);
+    // Resolve month/day: prefer values from request, then try to parse from filename
+    let month = request.month;
+    let day = request.day;
+    if (month === undefined || day === undefined) {
+      const base = path.basename(request.source_path).replace(/\.[^.]+$/, '');
+      const dateMatch = /^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})$/.exec(base);
+      if (dateMatch) {
+        month = month ?? Number(dateMatch[2]);
+        day = day ?? Number(dateMatch[3]);
+        sendLog(win, 'info', 'analysis', `Parsed recording date from filename: month=${month}, day=${day}`);
       }
+    }
 
-      // Load settings to get execution provider
-      const settings = await settingsStore.get();
-
-      // Start analysis
-      const handle = runAnalysis(request.source_path, {
-        model: request.model,
-        minConfidence: request.min_confidence,
-        executionProvider: settings.default_execution_provider,
-        latitude: request.latitude,
-        longitude: request.longitude,
-        month,
-        day,
-        dayOfYear,
-        outputDir,
-      });
-      // Replace placeholder with real handle
-      currentAnalysis = handle;
-
-      let totalDetections = 0;
-      const failedFiles: string[] = [];
-      const skippedFiles: string[] = [];
-      let failedFileCount = 0;
-      let skippedFileCount = 0;
-      let totalFiles = 0;
-      const pendingImports = new Set<Promise<void>>();
-      let failedFilesOverflow = false;
-      let skippedFilesOverflow = false;
-      const importSemaphore = new Semaphore(MAX_CONCURRENT_IMPORTS);
-
-      // Forward runner log events to renderer
-      handle.on('log', (level: LogLevel, message: string) => {
-        sendLog(win, level, 'runner', message);
-      });
+    // Compute day-of-year from month/day for BSG SDM support.
+    // BSG models use --day-of-year (1-366) instead of --month/--day.
+    // We pass both so BirdNET gets month/day and BSG gets day-of-year.
+    let dayOfYear: number | undefined;
+    if (month !== undefined && day !== undefined) {
+      const d = new Date(LEAP_YEAR_FOR_DOY, month - 1, day); // leap year to handle Feb 29
+      const start = new Date(LEAP_YEAR_FOR_DOY, 0, 0);
+      dayOfYear = Math.floor((d.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+      sendLog(win, 'info', 'analysis', `Computed day-of-year: ${dayOfYear} (from month=${month}, day=${day})`);
+    }
 
-      // Forward NDJSON events to renderer and capture detections
-      handle.on('data', (envelope: BirdaEventEnvelope) => {
-        // Synchronously forward event to renderer
-        if (!win.isDestroyed()) {
-          win.webContents.send('birda:analysis-progress', envelope);
-        }
+    // Load settings to get execution provider
+    const settings = await settingsStore.get();
 
-        // Capture async processing as a tracked promise
-        const importPromise = (async () => {
-          try {
-            // Directory mode events
-            if (isDirectory && outputDir) {
-              if (envelope.event === 'pipeline_started') {
-                const payload = envelope.payload as PipelineStartedPayload;
-                totalFiles = payload.total_files;
-                sendLog(win, 'info', 'analysis', `Starting directory analysis: ${totalFiles} files`);
-              } else if (envelope.event === 'file_started') {
-                const payload = envelope.payload as FileStartedPayload;
-                sendLog(win, 'info', 'analysis', `Processing file: ${payload.file}`);
-              } else if (envelope.event === 'file_completed') {
-                const payload = envelope.payload as FileCompletedPayload;
-
-                if (payload.status === 'processed') {
-                  // Limit concurrent imports to prevent resource exhaustion
-                  await importSemaphore.acquire();
-                  try {
-                    const jsonPath = deriveJsonPath(outputDir, payload.file);
-
-                    // NEW: Parse file metadata and create audio_file record
-                    const fileMetadata = await parseFileMetadata(payload.file, run.timezone_offset_min);
-                    const audioFileId = createAudioFile(run.id, payload.file, fileMetadata);
-
-                    // Import detections with audio_file_id reference
-                    const result = await importDetectionsFromJson(run.id, locationId, audioFileId, jsonPath);
-
-                    totalDetections += result.detections;
-                    sendLog(
-                      win,
-                      'info',
-                      'analysis',
-                      `Imported ${result.detections} detections from ${result.sourceFile}`,
-                    );
-                  } catch (err) {
-                    sendLog(win, 'error', 'analysis', `Failed to import ${payload.file}: ${(err as Error).message}`);
-                    failedFileCount++;
-                    if (trackFileWithOverflow(win, failedFiles, payload.file, failedFilesOverflow, 'failed')) {
-                      failedFilesOverflow = true;
-                    }
-                  } finally {
-                    importSemaphore.release();
-                  }
-                } else if (payload.status === 'skipped' || payload.status === 'locked') {
-                  // A locked file was claimed by another worker in a distributed
-                  // run; birda reports it as a skip, not a failure, so count it
-                  // as one here too rather than inflating the failed total.
-                  skippedFileCount++;
-                  if (trackFileWithOverflow(win, skippedFiles, payload.file, skippedFilesOverflow, 'skipped')) {
-                    skippedFilesOverflow = true;
-                  }
-                  const reason = payload.status === 'locked' ? 'Locked by another worker, skipped' : 'Skipped';
-                  sendLog(win, 'info', 'analysis', `${reason} ${payload.file}`);
-                } else {
-                  // Must be 'failed' - only remaining case
-                  failedFileCount++;
-                  if (trackFileWithOverflow(win, failedFiles, payload.file, failedFilesOverflow, 'failed')) {
-                    failedFilesOverflow = true;
-                  }
-                  sendLog(win, 'warn', 'analysis', `Failed to process ${payload.file}`);
-                }
-              }
-            }
-            // Single file mode events (existing behavior)
-            else if (envelope.event === 'detections') {
-              const payload = envelope.payload as DetectionsPayload;
-              if (payload.detections.length > 0) {
+    // Start analysis
+    const handle = runAnalysis(request.source_path, {
+      model: request.model,
+      minConfidence: request.min_confidence,
+      executionProvider: request.execution_provider ?? settings.default_execution_provider,
+      latitude: request.latitude,
+      longitude: request.longitude,
+      month,
+      day,
+      dayOfYear,
+      outputDir,
+      force: importedFiles.size === 0,
+      extraArgs,
+    });
+    // Replace placeholder with real handle
+    currentAnalysis = handle;
+    // Set by cancelCurrentAnalysis while the awaits above were pending
+    if (cancelRequested) {
+      handle.cancel();
+    }
+
+    let totalDetections = 0;
+    const failedFiles: string[] = [];
+    const skippedFiles: string[] = [];
+    let failedFileCount = 0;
+    let skippedFileCount = 0;
+    let totalFiles = 0;
+    const pendingImports = new Set<Promise<void>>();
+    let failedFilesOverflow = false;
+    let skippedFilesOverflow = false;
+    const importSemaphore = new Semaphore(MAX_CONCURRENT_IMPORTS);
+
+    // Forward runner log events to renderer
+    handle.on('log', (level: LogLevel, message: string) => {
+      sendLog(win, level, 'runner', message);
+    });
+
+    // Forward NDJSON events to renderer and capture detections
+    handle.on('data', (envelope: BirdaEventEnvelope) => {
+      // Synchronously forward event to renderer
+      if (!win.isDestroyed()) {
+        win.webContents.send('birda:analysis-progress', envelope);
+      }
+
+      // Capture async processing as a tracked promise
+      const importPromise = (async () => {
+        try {
+          // Directory mode events
+          if (isDirectory && outputDir) {
+            if (envelope.event === 'pipeline_started') {
+              const payload = envelope.payload as PipelineStartedPayload;
+              totalFiles = payload.total_files;
+              sendLog(win, 'info', 'analysis', `Starting directory analysis: ${totalFiles} files`);
+            } else if (envelope.event === 'file_started') {
+              const payload = envelope.payload as FileStartedPayload;
+              sendLog(win, 'info', 'analysis', `Processing file: ${payload.file}`);
+            } else if (envelope.event === 'file_completed') {
+              const payload = envelope.payload as FileCompletedPayload;
+
+              if (payload.status === 'processed') {
+                // Limit concurrent imports to prevent resource exhaustion
+                await importSemaphore.acquire();
+                let audioFileId: number | null = null;
                 try {
-                  // NEW: Create audio_file record for single file
+                  const jsonPath = deriveJsonPath(outputDir, payload.file);
+
+                  // NEW: Parse file metadata and create audio_file record
                   const fileMetadata = await parseFileMetadata(payload.file, run.timezone_offset_min);
-                  const audioFileId = createAudioFile(run.id, payload.file, fileMetadata);
+                  const placement = resolveDeployment(fileMetadata, locationId);
+                  audioFileId = createAudioFile(run.id, payload.file, fileMetadata, placement.deploymentId);
+
+                  // Import detections with audio_file_id reference
+                  const result = await importDetectionsFromJson(
+                    run.id,
+                    placement.locationId,
+                    audioFileId,
+                    jsonPath,
+                    speciesFilter,
+                  );
 
-                  insertDetections(run.id, locationId, audioFileId, payload.detections);
-                  totalDetections += payload.detections.length;
+                  totalDetections += result.detections;
                   sendLog(
                     win,
                     'info',
                     'analysis',
-                    `Inserted ${payload.detections.length} detection(s) from ${payload.file}`,
+                    `Imported ${result.detections} detections from ${result.sourceFile}`,
                   );
                 } catch (err) {
-                  sendLog(win, 'error', 'analysis', `Failed to insert detections: ${(err as Error).message}`);
+                  sendLog(win, 'error', 'analysis', `Failed to import ${payload.file}: ${(err as Error).message}`);
+                  // Without its audio_files row the file counts as not imported, so resuming retries it
+                  if (audioFileId !== null) {
+                    deleteAudioFile(audioFileId);
+                  }
+                  failedFileCount++;
+                  if (trackFileWithOverflow(win, failedFiles, payload.file, failedFilesOverflow, 'failed')) {
+                    failedFilesOverflow = true;
+                  }
+                } finally {
+                  importSemaphore.release();
+                }
+              } else if (payload.status === 'skipped' || payload.status === 'locked') {
+                // A locked file was claimed by another worker in a distributed
+                // run; birda reports it as a skip, not a failure, so count it
+                // as one here too rather than inflating the failed total.
+                skippedFileCount++;
+                if (trackFileWithOverflow(win, skippedFiles, payload.file, skippedFilesOverflow, 'skipped')) {
+                  skippedFilesOverflow = true;
                 }
+                const reason =
+                  payload.status === 'locked'
+                    ? 'Locked by another worker, skipped'
+                    : importedFiles.has(payload.file)
+                      ? 'Already imported, skipped'
+                      : 'Skipped';
+                sendLog(win, 'info', 'analysis', `${reason} ${payload.file}`);
+              } else {
+                // Must be 'failed' - only remaining case
+                failedFileCount++;
+                if (trackFileWithOverflow(win, failedFiles, payload.file, failedFilesOverflow, 'failed')) {
+                  failedFilesOverflow = true;
+                }
+                sendLog(win, 'warn', 'analysis', `Failed to process ${payload.file}`);
               }
             }
-          } catch (err) {
-            sendLog(win, 'error', 'analysis', `Event handler error: ${(err as Error).message}`);
           }
-        })();
-
-        pendingImports.add(importPromise);
-        void importPromise.finally(() => pendingImports.delete(importPromise));
-      });
-
-      // Track final status for conditional cleanup
-      let finalStatus: 'completed' | 'completed_with_errors' | 'failed' = 'completed';
-
-      try {
-        await handle.promise;
+          // Single file mode events (existing behavior)
+          else if (envelope.event === 'detections') {
+            const payload = envelope.payload as DetectionsPayload;
+            if (payload.detections.length > 0) {
+              try {
+                // NEW: Create audio_file record for single file
+                const fileMetadata = await parseFileMetadata(payload.file, run.timezone_offset_min);
+                const placement = resolveDeployment(fileMetadata, locationId);
+                const audioFileId = createAudioFile(run.id, payload.file, fileMetadata, placement.deploymentId);
+
+                const kept = applySpeciesFilter(payload.detections, speciesFilter);
+                insertDetections(run.id, placement.locationId, audioFileId, kept);
+                totalDetections += kept.length;
+                sendLog(win, 'info', 'analysis', `Inserted ${kept.length} detection(s) from ${payload.file}`);
+              } catch (err) {
+                sendLog(win, 'error', 'analysis', `Failed to insert detections: ${(err as Error).message}`);
+              }
+            }
+          }
+        } catch (err) {
+          sendLog(win, 'error', 'analysis', `Event handler error: ${(err as Error).message}`);
+        }
+      })();
 
-        // Wait for all pending imports to complete before calculating status
-        await Promise.allSettled(Array.from(pendingImports));
+      pendingImports.add(importPromise);
+      void importPromise.finally(() => pendingImports.delete(importPromise));
+    });
 
-        // Determine final status
-        if (isDirectory) {
-          const processedCount = totalFiles - skippedFileCount - failedFileCount;
+    // Track final status for conditional cleanup
+    let finalStatus: 'completed' | 'completed_with_errors' | 'failed' = 'completed';
 
-          if (failedFileCount > 0) {
-            finalStatus = processedCount > 0 ? 'completed_with_errors' : 'failed';
-          }
+    try {
+      await handle.promise;
 
-          sendLog(
-            win,
-            'info',
-            'analysis',
-            `Directory analysis complete: ${processedCount} processed, ${skippedFileCount} skipped, ${failedFileCount} failed`,
-          );
-        }
+      // Wait for all pending imports to complete before calculating status
+      await Promise.allSettled(Array.from(pendingImports));
 
-        sendLog(win, 'info', 'analysis', `Analysis completed: ${totalDetections} total detection(s)`);
-        updateRunStatus(run.id, finalStatus);
-        return { runId: run.id, status: finalStatus };
-      } catch (err) {
+      // A cancelled run is left failed so it can be resumed later
+      if (cancelRequested) {
         finalStatus = 'failed';
+        sendLog(win, 'warn', 'analysis', `Analysis cancelled: ${totalDetections} detection(s) imported so far`);
         updateRunStatus(run.id, 'failed');
-        const stderrLog = handle.stderrLog();
-        const errorMsg = `Analysis failed: ${(err as Error).message}`;
-        sendLog(win, 'error', 'analysis', errorMsg);
-        if (stderrLog) {
-          sendLog(win, 'error', 'analysis', `stderr output:\n${stderrLog}`);
-        }
-        throw new Error(`${errorMsg}${stderrLog ? '\n\nstderr:\n' + stderrLog : ''}`, { cause: err });
-      } finally {
-        currentAnalysis = null;
+        return { runId: run.id, status: finalStatus };
+      }
 
-        // Cleanup temp directory on success, preserve on failure for debugging
-        if (outputDir) {
-          if (finalStatus === 'failed') {
-            sendLog(win, 'warn', 'analysis', `Preserving temp directory for debugging: ${outputDir}`);
-          } else {
-            await cleanupTempDir(outputDir);
-            sendLog(win, 'info', 'analysis', `Cleaned up temp directory: ${outputDir}`);
-          }
+      // Determine final status
+      if (isDirectory) {
+        const processedCount = totalFiles - skippedFileCount - failedFileCount;
+
+        if (failedFileCount > 0) {
+          finalStatus = processedCount > 0 ? 'completed_with_errors' : 'failed';
         }
+
+        sendLog(
+          win,
+          'info',
+          'analysis',
+          `Directory analysis complete: ${processedCount} processed, ${skippedFileCount} skipped, ${failedFileCount} failed`,
+        );
       }
+
+      sendLog(win, 'info', 'analysis', `Analysis completed: ${totalDetections} total detection(s)`);
+      updateRunStatus(run.id, finalStatus);
+      return { runId: run.id, status: finalStatus };
     } catch (err) {
-      // Release lock on setup error ONLY if still placeholder
-      if (currentAnalysis === placeholderHandle) {
-        currentAnalysis = null;
+      finalStatus = 'failed';
+      updateRunStatus(run.id, 'failed');
+      const stderrLog = handle.stderrLog();
+      const errorMsg = `Analysis failed: ${(err as Error).message}`;
+      sendLog(win, 'error', 'analysis', errorMsg);
+      if (stderrLog) {
+        sendLog(win, 'error', 'analysis', `stderr output:\n${stderrLog}`);
       }
-      throw err;
-    }
-  });
+      throw new Error(`${errorMsg}${stderrLog ? '\n\nstderr:\n' + stderrLog : ''}`, { cause: err });
+    } finally {
+      currentAnalysis = null;
 
-  ipcMain.handle('birda:cancel-analysis', () => {
-    if (currentAnalysis) {
-      currentAnalysis.cancel();
+      // Cleanup temp directory on success or cancel, preserve on failure for debugging
+      if (outputDir) {
+        if (finalStatus === 'failed' && !cancelRequested) {
+          sendLog(win, 'warn', 'analysis', `Preserving temp directory for debugging: ${outputDir}`);
+        } else {
+          await cleanupTempDir(outputDir);
+          sendLog(win, 'info', 'analysis', `Cleaned up temp directory: ${outputDir}`);
+        }
+      }
+      cancelRequested = false;
+    }
+  } catch (err) {
+    // Release lock on setup error ONLY if still placeholder
+    if (currentAnalysis === placeholderHandle) {
       currentAnalysis = null;
-      return true;
+      cancelRequested = false;
     }
-    return false;
-  });
+    throw err;
+  }
+}
 
+/** Cancel the active birda process, if any. Returns false when nothing was running. */
+export function cancelCurrentAnalysis(): boolean {
+  if (!currentAnalysis) return false;
+  cancelRequested = true;
+  currentAnalysis.cancel();
+  return true;
+}
+
+export function registerAnalysisHandlers(): void {
   ipcMain.handle('app:get-log', () => {
     return currentAnalysis?.stderrLog() ?? '';
   });
@@ -1,6 +1,79 @@
-import { ipcMain } from 'electron';
-import { listAnnotations, upsertAnnotation, deleteAnnotation, getAudioFileIdByPath } from '../db/annotations';
-import type { AnnotationInput } from '$shared/types';
+import { ipcMain, BrowserWindow, dialog } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import {
+  listAnnotations,
+  listDatasetAnnotations,
+  upsertAnnotation,
+  deleteAnnotation,
+  getAudioFileIdByPath,
+  recordVerification,
+} from '../db/annotations';
+import { buildWavHeader, readWavInfo } from '../audio/wav';
+import { resolveAll } from '../labels/label-service';
+import {
+  clipWindow,
+  toCocoDataset,
+  toManifestCsv,
+  trainingClipName,
+  trainingFolderName,
+  type DatasetAnnotation,
+  type ManifestRow,
+} from '../export/training-dataset';
+import type { AnnotationInput, TrainingDatasetFormat, TrainingDatasetResult, VerificationVerdict } from '$shared/types';
+
+const DATASET_FORMATS = new Set<TrainingDatasetFormat>(['clips', 'coco']);
+
+/** Crop each annotation of one recording into its label folder; returns null if the file cannot be read as WAV. */
+async function writeClips(
+  filePath: string,
+  annotations: DatasetAnnotation[],
+  outputDir: string,
+  commonNames: Map<string, string>,
+): Promise<ManifestRow[] | null> {
+  if (path.extname(filePath).toLowerCase() !== '.wav') return null;
+  let handle: fs.promises.FileHandle;
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    handle = await fs.promises.open(filePath, 'r');
+  } catch {
+    return null;
+  }
+  try {
+    const info = await readWavInfo(handle).catch(() => null);
+    if (!info) return null;
+    const rows: ManifestRow[] = [];
+    for (const annotation of annotations) {
+      const negative = annotation.status === 'rejected';
+      const commonName = commonNames.get(annotation.scientific_name) ?? annotation.scientific_name;
+      const folder = trainingFolderName(annotation.scientific_name, commonName, negative);
+      const { start, end } = clipWindow(annotation.start_time, annotation.end_time, info.durationSec);
+      const startFrame = Math.floor(start * info.sampleRate);
+      const data = Buffer.alloc(Math.max(0, Math.floor(end * info.sampleRate) - startFrame) * info.blockAlign);
+      const { bytesRead } = await handle.read(data, 0, data.length, info.dataOffset + startFrame * info.blockAlign);
+
+      const fileName = trainingClipName(annotation, start);
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await fs.promises.mkdir(path.join(outputDir, folder), { recursive: true });
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await fs.promises.writeFile(
+        path.join(outputDir, folder, fileName),
+        Buffer.concat([buildWavHeader(info, bytesRead), data.subarray(0, bytesRead)]),
+      );
+      rows.push({
+        file: `${folder}/${fileName}`,
+        label: folder,
+        negative,
+        annotation,
+        clip_start: start,
+        clip_end: end,
+      });
+    }
+    return rows;
+  } finally {
+    await handle.close();
+  }
+}
 
 export function registerAnnotationHandlers(): void {
   ipcMain.handle('annotations:list', (_event, audioFileId: number) => {
@@ -15,7 +88,65 @@ export function registerAnnotationHandlers(): void {
     deleteAnnotation(id);
   });
 
+  ipcMain.handle(
+    'annotations:verify',
+    (_event, detectionId: number, verdict: VerificationVerdict, scientificName?: string) => {
+      return recordVerification(detectionId, verdict, scientificName);
+    },
+  );
+
   ipcMain.handle('annotations:resolve-file', (_event, filePath: string, runId: number | null) => {
     return getAudioFileIdByPath(filePath, runId);
   });
+
+  // Export annotations as training data for a custom classifier; returns null if the user cancels the dialog
+  ipcMain.handle(
+    'annotations:export-dataset',
+    async (event, format: TrainingDatasetFormat, runId: number | null): Promise<TrainingDatasetResult | null> => {
+      if (!DATASET_FORMATS.has(format)) throw new Error(`Unknown dataset format: ${format}`);
+      const win = BrowserWindow.fromWebContents(event.sender);
+      if (!win) throw new Error('No window found');
+
+      const annotations = listDatasetAnnotations(runId);
+      const commonNames = resolveAll([...new Set(annotations.map((a) => a.scientific_name))]);
+
+      if (format === 'coco') {
+        const saved = await dialog.showSaveDialog(win, {
+          title: 'Export Annotations as COCO JSON',
+          defaultPath: 'annotations.coco.json',
+          filters: [{ name: 'JSON', extensions: ['json'] }],
+        });
+        if (saved.canceled || !saved.filePath) return null;
+        const coco = toCocoDataset(annotations, commonNames);
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        await fs.promises.writeFile(saved.filePath, JSON.stringify(coco, null, 2), 'utf-8');
+        return { format, path: saved.filePath, positives: coco.annotations.length, negatives: 0, skipped: 0 };
+      }
+
+      const picked = await dialog.showOpenDialog(win, {
+        title: 'Export Training Clips',
+        properties: ['openDirectory', 'createDirectory'],
+      });
+      if (picked.canceled || picked.filePaths.length === 0) return null;
+      const outputDir = picked.filePaths[0];
+
+      // Open each recording once for all of its annotations
+      const byFile = new Map<string, DatasetAnnotation[]>();
+      for (const annotation of annotations) {
+        byFile.set(annotation.file_path, [...(byFile.get(annotation.file_path) ?? []), annotation]);
+      }
+      const manifest: ManifestRow[] = [];
+      let skipped = 0;
+      for (const [filePath, group] of byFile) {
+        const rows = await writeClips(filePath, group, outputDir, commonNames);
+        if (rows) manifest.push(...rows);
+        else skipped += group.length;
+      }
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await fs.promises.writeFile(path.join(outputDir, 'manifest.csv'), toManifestCsv(manifest), 'utf-8');
+
+      const negatives = manifest.filter((row) => row.negative).length;
+      return { format, path: outputDir, positives: manifest.length - negatives, negatives, skipped };
+    },
+  );
 }
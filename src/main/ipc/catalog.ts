@@ -1,18 +1,35 @@
-import { ipcMain } from 'electron';
+import { ipcMain, BrowserWindow, dialog } from 'electron';
+import fs from 'fs';
+import path from 'path';
 import {
   getDetections,
   getRunSpeciesAggregation,
   getDetectionsForGrid,
+  getDetectionEvents,
+  getActivityDetections,
   searchSpecies,
   getSpeciesSummary,
   getSpeciesLocations,
   getLocationSpecies,
   getCatalogStats,
+  getVerificationStats,
 } from '../db/detections';
 import { clearDatabase, checkDatabaseHealth, optimizeDatabase, vacuumDatabase } from '../db/database';
 import { getLocations, getLocationsWithCounts } from '../db/locations';
 import { getRunsWithStats, deleteRun } from '../db/runs';
 import { resolveAll, searchByCommonName } from '../labels/label-service';
+import { getExpectedSpecies } from '../db/site-profiles';
+import { settingsStore } from '../settings/store';
+import { filenameClockMs, localClockMs } from '../effort/effort';
+import { birdnetWeek, isExpectedInWeek } from '../site-profile/site-profile';
+import { ACTIVITY_RANGE_MINUTES, binSunActivity } from '../activity/sun-activity';
+import {
+  groupByAudioFile,
+  perFileExportName,
+  toAudacityLabels,
+  toCsv,
+  toRavenSelectionTable,
+} from '../export/detection-export';
 import type {
   Detection,
   DetectionFilter,
@@ -22,39 +39,57 @@ import type {
   RunSpeciesAggregation,
   HourlyDetectionCell,
   AudioFile,
+  DetectionExportFormat,
+  DetectionExportResult,
+  SpeciesVerificationStats,
+  SunActivity,
+  SunAnchor,
 } from '$shared/types';
 
+const EXPORT_FORMATS = new Set<DetectionExportFormat>(['csv', 'raven', 'audacity']);
+const SUN_ANCHORS = new Set<SunAnchor>(['sunrise', 'sunset']);
+const ACTIVITY_BIN_MINUTES = new Set([5, 10, 15, 30, 60]);
+
 function enrichDetections(detections: (Detection & { audio_file: AudioFile | null })[]): EnrichedDetection[] {
   const scientificNames = [...new Set(detections.map((d) => d.scientific_name))];
   const nameMap = resolveAll(scientificNames);
+  const locationIds = [...new Set(detections.flatMap((d) => (d.location_id !== null ? [d.location_id] : [])))];
+  const expectedByLocation = getExpectedSpecies(locationIds);
   return detections.map((d) => ({
     ...d,
     common_name: nameMap.get(d.scientific_name) ?? d.scientific_name,
+    outside_expected_weeks: isOutsideExpectedWeeks(d, expectedByLocation),
   }));
 }
 
+/** Only detections with a dated recording at a location with a site profile can be flagged. */
+function isOutsideExpectedWeeks(
+  detection: Detection & { audio_file: AudioFile | null },
+  expectedByLocation: ReturnType<typeof getExpectedSpecies>,
+): boolean | undefined {
+  const expected = detection.location_id !== null ? expectedByLocation.get(detection.location_id) : undefined;
+  const file = detection.audio_file;
+  if (!expected || !file) return undefined;
+  const clockMs =
+    (file.recording_start !== null ? localClockMs(file.recording_start) : null) ?? filenameClockMs(file.file_path);
+  if (clockMs === null) return undefined;
+  const week = birdnetWeek(clockMs + detection.start_time * 1000);
+  return !isExpectedInWeek(expected, week, detection.scientific_name);
+}
+
 /**
- * Compute the wall-clock hour (0-23) of a detection by parsing
- * the AudioMoth-style filename (YYYYMMDD_HHMMSS) and adding start_time offset.
- * AudioMoth timestamps are UTC, so we use Date.UTC for correct parsing.
+ * Compute the wall-clock hour (0-23) of a detection from the AudioMoth-style
+ * filename (YYYYMMDD_HHMMSS) plus the start_time offset.
  * Falls back to the hour derived from start_time offset when the filename
  * doesn't match the expected pattern.
  */
 function computeDetectionHour(filePath: string, startTime: number): number {
-  const base = filePath.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
-  const match = /^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})$/.exec(base);
-  if (match) {
-    const [, y, mo, d, h, mi, s] = match;
-    const date = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
-    // Validate parsed date wasn't silently corrected (e.g. month 13 → next year)
-    if (date.getUTCFullYear() !== +y || date.getUTCMonth() !== +mo - 1 || date.getUTCDate() !== +d) {
-      return Math.floor(startTime / 3600) % 24;
-    }
-    const actual = new Date(date.getTime() + startTime * 1000);
-    return actual.getUTCHours();
+  const clockMs = filenameClockMs(filePath);
+  if (clockMs === null) {
+    // Fallback: treat start_time as offset from midnight (hour within recording)
+    return Math.floor(startTime / 3600) % 24;
   }
-  // Fallback: treat start_time as offset from midnight (hour within recording)
-  return Math.floor(startTime / 3600) % 24;
+  return new Date(clockMs + startTime * 1000).getUTCHours();
 }
 
 /** Resolve common name species filter to scientific names via label service. */
@@ -92,63 +127,159 @@ export function registerCatalogHandlers(): void {
     return { detections: enrichDetections(result.detections), total: result.total };
   });
 
-  ipcMain.handle('catalog:get-run-species', (_event, filter: DetectionFilter): RunSpeciesAggregation[] => {
-    filter = resolveSpeciesFilter(filter);
-    const rows = getRunSpeciesAggregation(filter);
-    const scientificNames = rows.map((r) => r.scientific_name);
-    const nameMap = resolveAll(scientificNames);
+  ipcMain.handle(
+    'catalog:get-run-species',
+    async (_event, filter: DetectionFilter): Promise<RunSpeciesAggregation[]> => {
+      filter = resolveSpeciesFilter(filter);
+      const { event_gap_seconds } = await settingsStore.get();
+      const rows = getRunSpeciesAggregation(filter, event_gap_seconds);
+      const scientificNames = rows.map((r) => r.scientific_name);
+      const nameMap = resolveAll(scientificNames);
+      return rows.map((r) => ({
+        ...r,
+        common_name: nameMap.get(r.scientific_name) ?? r.scientific_name,
+      }));
+    },
+  );
+
+  ipcMain.handle('catalog:verification-stats', (_event, filter: DetectionFilter): SpeciesVerificationStats[] => {
+    const rows = getVerificationStats(resolveSpeciesFilter(filter));
+    const nameMap = resolveAll(rows.map((r) => r.scientific_name));
     return rows.map((r) => ({
       ...r,
       common_name: nameMap.get(r.scientific_name) ?? r.scientific_name,
+      precision: r.verified > 0 ? r.confirmed / r.verified : null,
     }));
   });
 
-  ipcMain.handle('catalog:get-hourly-detections', (_event, filter: DetectionFilter): HourlyDetectionCell[] => {
-    filter = resolveSpeciesFilter(filter);
+  ipcMain.handle(
+    'catalog:get-hourly-detections',
+    async (_event, filter: DetectionFilter): Promise<HourlyDetectionCell[]> => {
+      filter = resolveSpeciesFilter(filter);
+      const { event_gap_seconds } = await settingsStore.get();
 
-    // Fetch raw detections and compute actual wall-clock hour from filename + offset
-    const rows = getDetectionsForGrid(filter);
-    const counters = new Map<string, number>();
-    const speciesNames = new Set<string>();
+      // Fetch raw detections and compute actual wall-clock hour from filename + offset
+      const counters = new Map<string, { detections: number; events: number }>();
+      const speciesNames = new Set<string>();
+      const counter = (sci: string, hour: number) => {
+        const key = `${sci}\0${hour}`;
+        let c = counters.get(key);
+        if (!c) {
+          c = { detections: 0, events: 0 };
+          counters.set(key, c);
+        }
+        return c;
+      };
 
-    for (const row of rows) {
-      const hour = computeDetectionHour(row.file_path, row.start_time);
-      const key = `${row.scientific_name}\0${hour}`;
-      counters.set(key, (counters.get(key) ?? 0) + 1);
-      speciesNames.add(row.scientific_name);
-    }
+      for (const row of getDetectionsForGrid(filter)) {
+        counter(row.scientific_name, computeDetectionHour(row.file_path, row.start_time)).detections++;
+        speciesNames.add(row.scientific_name);
+      }
+      // An event counts in the hour it starts
+      for (const event of getDetectionEvents(filter, event_gap_seconds)) {
+        counter(event.scientific_name, computeDetectionHour(event.file_path, event.start_time)).events++;
+      }
 
-    const nameMap = resolveAll([...speciesNames]);
-    const result: HourlyDetectionCell[] = [];
-    for (const [key, count] of counters) {
-      const [sci, hourStr] = key.split('\0');
-      result.push({
-        scientific_name: sci,
-        common_name: nameMap.get(sci) ?? sci,
-        hour: parseInt(hourStr, 10),
-        detection_count: count,
+      const nameMap = resolveAll([...speciesNames]);
+      const result: HourlyDetectionCell[] = [];
+      for (const [key, count] of counters) {
+        const [sci, hourStr] = key.split('\0');
+        result.push({
+          scientific_name: sci,
+          common_name: nameMap.get(sci) ?? sci,
+          hour: parseInt(hourStr, 10),
+          detection_count: count.detections,
+          event_count: count.events,
+        });
+      }
+      return result;
+    },
+  );
+
+  ipcMain.handle(
+    'catalog:get-sun-activity',
+    (_event, filter: DetectionFilter, anchor: SunAnchor, binMinutes: number): SunActivity => {
+      if (!SUN_ANCHORS.has(anchor)) throw new Error(`Unknown sun anchor: ${anchor}`);
+      if (!ACTIVITY_BIN_MINUTES.has(binMinutes)) throw new Error(`Unsupported bin size: ${binMinutes} minutes`);
+      const rows = getActivityDetections(resolveSpeciesFilter(filter));
+      const nameMap = resolveAll([...new Set(rows.map((r) => r.scientific_name))]);
+      const { series, skipped } = binSunActivity(rows, anchor, binMinutes, nameMap);
+      return { anchor, bin_minutes: binMinutes, from_minutes: -ACTIVITY_RANGE_MINUTES, series, skipped };
+    },
+  );
+
+  // Export every detection matching the filter; returns null if the user cancels the dialog
+  ipcMain.handle(
+    'catalog:export-detections',
+    async (event, filter: DetectionFilter, format: DetectionExportFormat): Promise<DetectionExportResult | null> => {
+      if (!EXPORT_FORMATS.has(format)) throw new Error(`Unknown export format: ${format}`);
+      const win = BrowserWindow.fromWebContents(event.sender);
+      if (!win) throw new Error('No window found');
+
+      filter = resolveSpeciesFilter(filter);
+      // SQLite treats a negative LIMIT as no limit
+      const result = getDetections({ ...filter, limit: -1, offset: 0, sort_column: 'start_time', sort_dir: 'asc' });
+      const detections = enrichDetections(result.detections);
+
+      if (format === 'csv') {
+        const saved = await dialog.showSaveDialog(win, {
+          title: 'Export Detections as CSV',
+          defaultPath: 'detections.csv',
+          filters: [{ name: 'CSV', extensions: ['csv'] }],
+        });
+        if (saved.canceled || !saved.filePath) return null;
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        await fs.promises.writeFile(saved.filePath, toCsv(detections), 'utf-8');
+        return { format, files: [saved.filePath], detections: detections.length };
+      }
+
+      const picked = await dialog.showOpenDialog(win, {
+        title: format === 'raven' ? 'Export Raven Selection Tables' : 'Export Audacity Labels',
+        properties: ['openDirectory', 'createDirectory'],
       });
-    }
-    return result;
-  });
+      if (picked.canceled || picked.filePaths.length === 0) return null;
+      const outputDir = picked.filePaths[0];
+
+      const files: string[] = [];
+      const usedNames = new Set<string>();
+      for (const [audioFileId, group] of groupByAudioFile(detections)) {
+        const name = perFileExportName(format, audioFileId, group[0].audio_file?.file_path ?? null, usedNames);
+        const filePath = path.join(outputDir, name);
+        const content = format === 'raven' ? toRavenSelectionTable(group) : toAudacityLabels(group);
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        await fs.promises.writeFile(filePath, content, 'utf-8');
+        files.push(filePath);
+      }
+      return { format, files, detections: detections.length };
+    },
+  );
 
-  ipcMain.handle('catalog:search-species', (_event, query: string) => {
+  ipcMain.handle('catalog:search-species', async (_event, query: string) => {
+    const { event_gap_seconds } = await settingsStore.get();
     // Get scientific names matching the common name query from label service
     const matchingScientific = searchByCommonName(query);
-    const dbResults = searchSpecies(query, matchingScientific.length > 0 ? matchingScientific : undefined);
+    const dbResults = searchSpecies(
+      query,
+      event_gap_seconds,
+      matchingScientific.length > 0 ? matchingScientific : undefined,
+    );
     return enrichSpeciesSummaries(dbResults);
   });
 
-  ipcMain.handle('catalog:get-species-summary', () => {
-    return enrichSpeciesSummaries(getSpeciesSummary());
+  // Merging events scans every detection, so it only happens when the caller asks for it
+  ipcMain.handle('catalog:get-species-summary', async (_event, withEvents?: boolean) => {
+    if (withEvents !== true) return enrichSpeciesSummaries(getSpeciesSummary());
+    const { event_gap_seconds } = await settingsStore.get();
+    return enrichSpeciesSummaries(getSpeciesSummary(event_gap_seconds));
   });
 
   ipcMain.handle('catalog:species-locations', (_event, scientificName: string) => {
     return getSpeciesLocations(scientificName);
   });
 
-  ipcMain.handle('catalog:location-species', (_event, locationId: number) => {
-    return enrichSpeciesSummaries(getLocationSpecies(locationId));
+  ipcMain.handle('catalog:location-species', async (_event, locationId: number) => {
+    const { event_gap_seconds } = await settingsStore.get();
+    return enrichSpeciesSummaries(getLocationSpecies(locationId, event_gap_seconds));
   });
 
   ipcMain.handle('catalog:get-locations', () => {
@@ -0,0 +1,49 @@
+import { ipcMain } from 'electron';
+import { getAudioFilePathsForRun } from '../db/audio-files';
+import { getEvaluationDetections, getSiteSpeciesCounts } from '../db/detections';
+import { getRunById } from '../db/runs';
+import { resolveAll } from '../labels/label-service';
+import { compareSites } from '../comparison/site-comparison';
+import { diffRuns } from '../comparison/run-diff';
+import type { ComparisonSite, RunDiff, SiteComparison } from '$shared/types';
+
+const MAX_SITES = 4;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function registerComparisonHandlers(): void {
+  // Species detected at each site side by side, with species unique to a site and pairwise similarity
+  ipcMain.handle('comparison:sites', (_event, sites: ComparisonSite[], minConfidence: number): SiteComparison => {
+    if (sites.length < 2 || sites.length > MAX_SITES) {
+      throw new Error(`Compare between 2 and ${MAX_SITES} sites, got ${sites.length}`);
+    }
+    for (const site of sites) {
+      for (const date of [site.date_from, site.date_to]) {
+        if (date && !DATE_RE.test(date)) throw new Error(`Invalid date: ${date}`);
+      }
+    }
+    const counts = sites.map((site) => getSiteSpeciesCounts(site, minConfidence));
+    const nameMap = resolveAll([...new Set(counts.flat().map((c) => c.scientific_name))]);
+    return compareSites(counts, nameMap);
+  });
+
+  // Two runs over the same recordings, e.g. before and after switching models
+  ipcMain.handle('comparison:runs', (_event, runA: number, runB: number, threshold: number): RunDiff => {
+    if (runA === runB) throw new Error('Choose two different runs to compare');
+    if (!(threshold >= 0 && threshold <= 1)) throw new Error(`Invalid confidence threshold: ${threshold}`);
+    for (const id of [runA, runB]) {
+      if (!getRunById(id)) throw new Error(`Run ${id} not found`);
+    }
+
+    const filesB = new Set(getAudioFilePathsForRun(runB));
+    const shared = new Set(getAudioFilePathsForRun(runA).filter((path) => filesB.has(path)));
+    const detectionsA = getEvaluationDetections(runA).filter((d) => shared.has(d.file_path));
+    const detectionsB = getEvaluationDetections(runB).filter((d) => shared.has(d.file_path));
+    const nameMap = resolveAll([...new Set([...detectionsA, ...detectionsB].map((d) => d.scientific_name))]);
+    return {
+      run_a: runA,
+      run_b: runB,
+      files: shared.size,
+      ...diffRuns(detectionsA, detectionsB, threshold, nameMap),
+    };
+  });
+}
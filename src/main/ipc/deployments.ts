@@ -0,0 +1,87 @@
+import { ipcMain } from 'electron';
+import { z } from 'zod';
+import {
+  createDeployment,
+  deleteDeployment,
+  getDeployments,
+  getKnownDeviceIds,
+  updateDeployment,
+} from '../db/deployments';
+import { createLocation, findLocationByCoords, getLocationById } from '../db/locations';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const DeploymentInputSchema = z
+  .object({
+    audiomoth_device_id: z.string().trim().min(1),
+    location_id: z.number().int().positive().optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    location_name: z.string().optional(),
+    start_date: isoDate,
+    end_date: isoDate.nullable().optional(),
+    habitat: z.string().nullable().optional(),
+    mic_height_m: z.number().min(0).nullable().optional(),
+    notes: z.string().nullable().optional(),
+  })
+  .refine((d) => d.location_id !== undefined || (d.latitude !== undefined && d.longitude !== undefined), {
+    message: 'A deployment needs a location or coordinates',
+  })
+  .refine((d) => !d.end_date || d.end_date >= d.start_date, {
+    message: 'End date must not be before start date',
+  });
+
+type ParsedDeploymentInput = z.infer<typeof DeploymentInputSchema>;
+
+function textOrNull(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed === undefined || trimmed === '' ? null : trimmed;
+}
+
+function resolveLocationId(input: ParsedDeploymentInput): number {
+  if (input.location_id !== undefined) {
+    if (!getLocationById(input.location_id)) throw new Error(`Location ${input.location_id} not found`);
+    return input.location_id;
+  }
+  // Checked by the schema refinement
+  const latitude = input.latitude ?? 0;
+  const longitude = input.longitude ?? 0;
+  const existing = findLocationByCoords(latitude, longitude);
+  return existing ? existing.id : createLocation(latitude, longitude, textOrNull(input.location_name)).id;
+}
+
+function toFields(rawInput: unknown) {
+  const input = DeploymentInputSchema.parse(rawInput);
+  return {
+    audiomoth_device_id: input.audiomoth_device_id,
+    location_id: resolveLocationId(input),
+    start_date: input.start_date,
+    end_date: input.end_date ?? null,
+    habitat: textOrNull(input.habitat),
+    mic_height_m: input.mic_height_m ?? null,
+    notes: textOrNull(input.notes),
+  };
+}
+
+export function registerDeploymentHandlers(): void {
+  ipcMain.handle('deployments:list', () => {
+    return getDeployments();
+  });
+
+  ipcMain.handle('deployments:known-devices', () => {
+    return getKnownDeviceIds();
+  });
+
+  // Saving re-matches existing recordings, so detections move to the new location right away
+  ipcMain.handle('deployments:create', (_event, rawInput: unknown) => {
+    return createDeployment(toFields(rawInput));
+  });
+
+  ipcMain.handle('deployments:update', (_event, id: number, rawInput: unknown) => {
+    return updateDeployment(id, toFields(rawInput));
+  });
+
+  ipcMain.handle('deployments:delete', (_event, id: number) => {
+    deleteDeployment(id);
+  });
+}
@@ -0,0 +1,51 @@
+import { ipcMain } from 'electron';
+import { getDeviceReadings } from '../db/devices';
+import { findGaps, findWarnings, sortReadings } from '../devices/health';
+import type { DeviceHealth, DeviceReading, DeviceSummary } from '$shared/types';
+
+function lastValue(sorted: DeviceReading[], pick: (r: DeviceReading) => number | null): number | null {
+  let last: number | null = null;
+  for (const reading of sorted) last = pick(reading) ?? last;
+  return last;
+}
+
+function summarize(deviceId: string, readings: DeviceReading[]): DeviceSummary {
+  const sorted = sortReadings(readings);
+  const gains = [...new Set(sorted.flatMap((r) => (r.gain && r.gain !== 'unknown' ? [r.gain] : [])))];
+  return {
+    audiomoth_device_id: deviceId,
+    recording_count: sorted.length,
+    first_recording: sorted.at(0)?.recording_start ?? null,
+    last_recording: sorted.at(-1)?.recording_start ?? null,
+    last_battery_v: lastValue(sorted, (r) => r.battery_v),
+    last_temperature_c: lastValue(sorted, (r) => r.temperature_c),
+    gains,
+    gap_count: findGaps(sorted).length,
+    warning_count: findWarnings(sorted).length,
+  };
+}
+
+export function registerDeviceHandlers(): void {
+  // Most recently seen devices first
+  ipcMain.handle('devices:list', (): DeviceSummary[] => {
+    const byDevice = new Map<string, DeviceReading[]>();
+    for (const { audiomoth_device_id: deviceId, ...reading } of getDeviceReadings()) {
+      const readings = byDevice.get(deviceId) ?? [];
+      readings.push(reading);
+      byDevice.set(deviceId, readings);
+    }
+    return [...byDevice]
+      .map(([deviceId, readings]) => summarize(deviceId, readings))
+      .sort((a, b) => (b.last_recording ?? '').localeCompare(a.last_recording ?? ''));
+  });
+
+  ipcMain.handle('devices:health', (_event, deviceId: string): DeviceHealth => {
+    const readings = sortReadings(getDeviceReadings(deviceId).map(({ audiomoth_device_id: _id, ...r }) => r));
+    return {
+      audiomoth_device_id: deviceId,
+      readings,
+      gaps: findGaps(readings),
+      warnings: findWarnings(readings),
+    };
+  });
+}
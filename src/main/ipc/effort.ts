@@ -0,0 +1,57 @@
+import { ipcMain } from 'electron';
+import { getRecordingSpans, type RecordingSpan } from '../db/effort';
+import { getLocations } from '../db/locations';
+import { effortByHour, filenameClockMs, onLocalClock, summarizeEffort } from '../effort/effort';
+import type { DetectionFilter, HourlyEffort, LocationEffort, LocationEffortSummary } from '$shared/types';
+
+export function registerEffortHandlers(): void {
+  // Locations with recorded effort, most recorded first
+  ipcMain.handle('effort:locations', (): LocationEffortSummary[] => {
+    const byLocation = new Map<number, RecordingSpan[]>();
+    for (const span of getRecordingSpans()) {
+      if (span.location_id === null) continue;
+      const spans = byLocation.get(span.location_id) ?? [];
+      spans.push(span);
+      byLocation.set(span.location_id, spans);
+    }
+    return getLocations()
+      .flatMap((loc) => {
+        const spans = byLocation.get(loc.id);
+        if (!spans) return [];
+        const { total_seconds, days } = summarizeEffort(onLocalClock(spans));
+        return [
+          {
+            location_id: loc.id,
+            name: loc.name,
+            latitude: loc.latitude,
+            longitude: loc.longitude,
+            file_count: spans.length,
+            total_seconds,
+            first_date: days.at(0)?.date ?? null,
+            last_date: days.at(-1)?.date ?? null,
+          },
+        ];
+      })
+      .sort((a, b) => b.total_seconds - a.total_seconds);
+  });
+
+  ipcMain.handle('effort:location', (_event, locationId: number): LocationEffort => {
+    return {
+      location_id: locationId,
+      ...summarizeEffort(onLocalClock(getRecordingSpans({ location_id: locationId }))),
+    };
+  });
+
+  // Same clock as catalog:get-hourly-detections, so counts divide by the matching hour
+  ipcMain.handle('effort:by-hour', (_event, filter: DetectionFilter): HourlyEffort => {
+    const recordings = getRecordingSpans({
+      run_id: filter.run_id,
+      location_id: filter.location_id,
+      audio_file_id: filter.audio_file_id,
+    }).map((span) => ({ clockMs: filenameClockMs(span.file_path) ?? 0, durationSec: span.duration_sec }));
+    return {
+      total_seconds: recordings.reduce((sum, r) => sum + r.durationSec, 0),
+      hours: effortByHour(recordings),
+    };
+  });
+}
@@ -0,0 +1,45 @@
+import { ipcMain } from 'electron';
+import { getAudioFilePathsForRun } from '../db/audio-files';
+import { getEvaluationDetections } from '../db/detections';
+import { getEnsembleRuns } from '../db/ensembles';
+import { resolveAll } from '../labels/label-service';
+import { combineRuns, majority } from '../ensemble/ensemble';
+import type { EnsembleMethod, EnsembleResult } from '$shared/types';
+
+const METHODS: EnsembleMethod[] = ['max', 'mean', 'vote'];
+/** Combined detections sent to the renderer; the species counts cover all of them. */
+const DETECTION_LIMIT = 1000;
+
+export function registerEnsembleHandlers(): void {
+  // Combine the linked runs of an ensemble per segment and species
+  ipcMain.handle(
+    'ensembles:combine',
+    (_event, ensembleId: number, method: EnsembleMethod, threshold: number): EnsembleResult => {
+      if (!METHODS.includes(method)) throw new Error(`Unknown ensemble method: ${method}`);
+      if (!(threshold >= 0 && threshold <= 1)) throw new Error(`Invalid confidence threshold: ${threshold}`);
+      const runs = getEnsembleRuns(ensembleId);
+      if (runs.length === 0) throw new Error(`Ensemble ${ensembleId} has no runs`);
+
+      const filesByRun = runs.map((run) => new Set(getAudioFilePathsForRun(run.id)));
+      const shared = new Set(
+        [...(filesByRun.at(0) ?? [])].filter((file) => filesByRun.every((files) => files.has(file))),
+      );
+      const detectionsByRun = runs.map((run) => getEvaluationDetections(run.id).filter((d) => shared.has(d.file_path)));
+      const commonNames = resolveAll([...new Set(detectionsByRun.flat().map((d) => d.scientific_name))]);
+
+      const minVotes = majority(runs.length);
+      const { detections, species } = combineRuns(detectionsByRun, method, threshold, minVotes, commonNames);
+      return {
+        ensemble_id: ensembleId,
+        runs: runs.map((run) => ({ run_id: run.id, model: run.model })),
+        method,
+        threshold,
+        min_votes: minVotes,
+        files: shared.size,
+        species,
+        detections: detections.slice(0, DETECTION_LIMIT),
+        total: detections.length,
+      };
+    },
+  );
+}
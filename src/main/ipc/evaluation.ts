@@ -0,0 +1,43 @@
+import { ipcMain } from 'electron';
+import { getGroundTruthBoxes } from '../db/annotations';
+import { getEvaluationDetections } from '../db/detections';
+import { getRunById } from '../db/runs';
+import { resolveAll } from '../labels/label-service';
+import { evaluateDetections } from '../evaluation/evaluation';
+import type { ModelEvaluation } from '$shared/types';
+
+const MAX_RUNS = 2;
+
+export function registerEvaluationHandlers(): void {
+  // Score one run, or two side by side on the annotated files both analysed
+  ipcMain.handle('evaluation:runs', (_event, runIds: number[], threshold: number): ModelEvaluation[] => {
+    if (runIds.length === 0 || runIds.length > MAX_RUNS) {
+      throw new Error(`Evaluate 1 to ${MAX_RUNS} runs, got ${runIds.length}`);
+    }
+    if (!(threshold >= 0 && threshold <= 1)) throw new Error(`Invalid confidence threshold: ${threshold}`);
+    const runs = runIds.map((id) => {
+      const run = getRunById(id);
+      if (!run) throw new Error(`Run ${id} not found`);
+      return run;
+    });
+
+    const boxesByRun = runs.map((run) => getGroundTruthBoxes(run.id));
+    const annotatedByRun = boxesByRun.map((boxes) => new Set(boxes.map((b) => b.file_path)));
+    const files = [...(annotatedByRun.at(0) ?? [])].filter((file) => annotatedByRun.every((set) => set.has(file)));
+    const shared = new Set(files);
+    const boxes = (boxesByRun.at(0) ?? []).filter((b) => shared.has(b.file_path));
+
+    const detectionsByRun = runs.map((run) => getEvaluationDetections(run.id).filter((d) => shared.has(d.file_path)));
+    const commonNames = resolveAll([
+      ...new Set([...boxes, ...detectionsByRun.flat()].map((item) => item.scientific_name)),
+    ]);
+
+    return runs.map((run, i) => ({
+      run_id: run.id,
+      model: run.model,
+      threshold,
+      files: files.length,
+      ...evaluateDetections(detectionsByRun.at(i) ?? [], boxes, threshold, commonNames),
+    }));
+  });
+}
@@ -5,7 +5,7 @@ import type { AudioFileInfo, AudioMothMeta, SourceScanResult } from '$shared/typ
 
 const AUDIO_EXTENSIONS = new Set(['.wav', '.mp3', '.flac', '.ogg', '.m4a']);
 
-function isAudioFile(filePath: string): boolean {
+export function isAudioFile(filePath: string): boolean {
   return AUDIO_EXTENSIONS.has(path.extname(filePath).toLowerCase());
 }
 
@@ -1,27 +1,55 @@
 import { registerAnalysisHandlers } from './analysis';
 import { registerAnnotationHandlers } from './annotations';
 import { registerCatalogHandlers } from './catalog';
+import { registerComparisonHandlers } from './comparison';
 import { registerCudaHandlers } from './cuda';
+import { registerDeploymentHandlers } from './deployments';
+import { registerDeviceHandlers } from './devices';
+import { registerEffortHandlers } from './effort';
+import { registerEnsembleHandlers } from './ensembles';
+import { registerEvaluationHandlers } from './evaluation';
 import { registerFileHandlers } from './files';
 import { registerGpuHandlers } from './gpu';
+import { registerImportHandlers } from './import';
 import { registerLabelHandlers } from './labels';
 import { registerLicenseHandlers } from './licenses';
 import { registerModelHandlers } from './models';
+import { registerPhenologyHandlers } from './phenology';
+import { registerPresetHandlers } from './presets';
+import { registerQueueHandlers } from './queue';
+import { registerRecordingHandlers } from './recording';
 import { registerSettingsHandlers } from './settings';
+import { registerSiteProfileHandlers } from './site-profiles';
 import { registerSpeciesHandlers } from './species';
 import { registerSystemHandlers } from './system';
+import { registerThresholdHandlers } from './thresholds';
+import { registerWatchHandlers } from './watch';
 
 export async function registerHandlers(): Promise<void> {
   registerAnalysisHandlers();
   registerAnnotationHandlers();
   registerCatalogHandlers();
+  registerComparisonHandlers();
   registerCudaHandlers();
+  registerDeploymentHandlers();
+  registerDeviceHandlers();
+  registerEffortHandlers();
+  registerEnsembleHandlers();
+  registerEvaluationHandlers();
   registerFileHandlers();
   registerGpuHandlers();
+  registerImportHandlers();
   registerLabelHandlers();
   registerLicenseHandlers();
   registerModelHandlers();
+  registerPhenologyHandlers();
+  registerPresetHandlers();
+  registerQueueHandlers();
+  registerRecordingHandlers();
+  registerSiteProfileHandlers();
   registerSpeciesHandlers();
   registerSystemHandlers();
+  registerThresholdHandlers();
+  registerWatchHandlers();
   await registerSettingsHandlers();
 }
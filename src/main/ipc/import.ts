@@ -0,0 +1,295 @@
+import { ipcMain, BrowserWindow, dialog } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { createRun, deleteCompletedRunsForSource, deleteRun, updateRunStatus } from '../db/runs';
+import { createLocation, findLocationByCoords } from '../db/locations';
+import { createAudioFile, getAllAudioFilePaths, getAudioFilePathsForRun } from '../db/audio-files';
+import { getAudioFileIdByPath, importManualAnnotations } from '../db/annotations';
+import { resolveDeployment } from '../db/deployments';
+import { insertDetections } from '../db/detections';
+import { getMatchingLabelSets, resolveAll, searchByCommonName } from '../labels/label-service';
+import { buildAudioIndex, matchAudioFile, parseResultsFile, type ParsedResultRow } from '../import/result-files';
+import { parseAnnotationFile, speciesFromLabel } from '../import/annotation-files';
+import { buildLabelIndex, findExact } from '../species-lists/name-matching';
+import { isAudioFile } from './files';
+import { parseFileMetadata } from './analysis';
+import type { BirdaDetection } from '../birda/types';
+import type {
+  AnnotationFileFormat,
+  AnnotationImportResult,
+  AnnotationInput,
+  AudioFileMetadata,
+  ResultsImportFileMatch,
+  ResultsImportFormat,
+  ResultsImportPreview,
+  ResultsImportRequest,
+  ResultsImportResult,
+} from '$shared/types';
+
+const RESULT_EXTENSIONS = new Set(['.csv', '.txt']);
+
+const ResultsImportRequestSchema = z.object({
+  results_path: z.string().min(1),
+  audio_path: z.string().min(1),
+  model: z.string().trim().min(1),
+  min_confidence: z.number().min(0).max(1),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  location_name: z.string().optional(),
+  timezone_offset_min: z.number().int().optional(),
+});
+
+interface ImportPlan {
+  preview: ResultsImportPreview;
+  /** Detections to import, keyed by the matched audio file path. */
+  detectionsByAudioFile: Map<string, BirdaDetection[]>;
+}
+
+/** A single file, or every file under a folder (recursively) that passes `accept`. */
+async function listFiles(root: string, accept: (filePath: string) => boolean): Promise<string[]> {
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  const stat = await fs.promises.stat(root);
+  if (!stat.isDirectory()) return [root];
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  const entries = await fs.promises.readdir(root, { recursive: true });
+  return entries
+    .filter(accept)
+    .map((entry) => path.join(root, entry))
+    .sort();
+}
+
+/** Exact (case-insensitive) common name match against the active labels. */
+function scientificNameFor(commonName: string): string | null {
+  const candidates = searchByCommonName(commonName);
+  const labels = resolveAll(candidates);
+  const lower = commonName.toLowerCase();
+  return candidates.find((sci) => labels.get(sci)?.toLowerCase() === lower) ?? null;
+}
+
+/**
+ * Parse every result file, resolve species and match rows to audio files on disk.
+ * Rows for the same audio file from several result files (e.g. both a CSV and a
+ * selection table) are merged so each detection is imported once.
+ */
+async function planImport(resultsPath: string, audioPath: string, minConfidence: number): Promise<ImportPlan> {
+  const resultFiles = await listFiles(resultsPath, (f) => RESULT_EXTENSIONS.has(path.extname(f).toLowerCase()));
+  const audioIndex = buildAudioIndex(await listFiles(audioPath, isAudioFile));
+
+  const formats: Partial<Record<ResultsImportFormat, number>> = {};
+  const unrecognized: string[] = [];
+  const rows: ParsedResultRow[] = [];
+  for (const file of resultFiles) {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    const parsed = parseResultsFile(file, await fs.promises.readFile(file, 'utf-8'));
+    if (!parsed) {
+      unrecognized.push(file);
+      continue;
+    }
+    formats[parsed.format] = (formats[parsed.format] ?? 0) + 1;
+    rows.push(...parsed.rows);
+  }
+
+  const commonNameCache = new Map<string, string | null>();
+  const unresolved = new Set<string>();
+  const matches = new Map<string, ResultsImportFileMatch>();
+  const detectionsByAudioFile = new Map<string, BirdaDetection[]>();
+  const seen = new Set<string>();
+  let total = 0;
+
+  for (const row of rows) {
+    let scientific = row.scientific_name;
+    if (!scientific && row.common_name) {
+      if (!commonNameCache.has(row.common_name)) {
+        commonNameCache.set(row.common_name, scientificNameFor(row.common_name));
+      }
+      scientific = commonNameCache.get(row.common_name) ?? null;
+      if (!scientific) unresolved.add(row.common_name);
+    }
+
+    const audioFile = matchAudioFile(row.source_file, audioIndex);
+    const key = `${audioFile ?? row.source_file}|${row.start_time}|${row.end_time}|${scientific ?? row.common_name}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    total++;
+
+    let match = matches.get(row.source_file);
+    if (!match) {
+      match = { source_file: row.source_file, audio_path: audioFile, detections: 0 };
+      matches.set(row.source_file, match);
+    }
+    match.detections++;
+
+    if (!audioFile || !scientific || row.confidence < minConfidence) continue;
+    const detection: BirdaDetection = {
+      species: scientific,
+      scientific_name: scientific,
+      common_name: row.common_name ?? scientific,
+      confidence: row.confidence,
+      start_time: row.start_time,
+      end_time: row.end_time,
+    };
+    const group = detectionsByAudioFile.get(audioFile);
+    if (group) {
+      group.push(detection);
+    } else {
+      detectionsByAudioFile.set(audioFile, [detection]);
+    }
+  }
+
+  return {
+    preview: {
+      formats,
+      unrecognized_files: unrecognized,
+      files: [...matches.values()].sort((a, b) => a.source_file.localeCompare(b.source_file)),
+      detections: total,
+      unresolved_species: [...unresolved].sort(),
+    },
+    detectionsByAudioFile,
+  };
+}
+
+function resolveLocationId(request: ResultsImportRequest): number | null {
+  if (request.latitude === undefined || request.longitude === undefined) return null;
+  const existing = findLocationByCoords(request.latitude, request.longitude);
+  return existing ? existing.id : createLocation(request.latitude, request.longitude, request.location_name).id;
+}
+
+export function registerImportHandlers(): void {
+  ipcMain.handle(
+    'import:preview-results',
+    async (_event, resultsPath: unknown, audioPath: unknown): Promise<ResultsImportPreview> => {
+      const paths = ResultsImportRequestSchema.pick({ results_path: true, audio_path: true }).parse({
+        results_path: resultsPath,
+        audio_path: audioPath,
+      });
+      const plan = await planImport(paths.results_path, paths.audio_path, 0);
+      return plan.preview;
+    },
+  );
+
+  // Import into a new run; importing the same results again with the same model label replaces it
+  ipcMain.handle('import:results', async (_event, rawRequest: unknown): Promise<ResultsImportResult> => {
+    const request = ResultsImportRequestSchema.parse(rawRequest);
+    const plan = await planImport(request.results_path, request.audio_path, request.min_confidence);
+    if (plan.detectionsByAudioFile.size === 0) {
+      throw new Error('No detections could be matched to audio files');
+    }
+
+    // Read audio metadata up front so a slow disk does not leave a half-imported run behind
+    const metadata = new Map<string, AudioFileMetadata>();
+    for (const audioFile of plan.detectionsByAudioFile.keys()) {
+      metadata.set(audioFile, await parseFileMetadata(audioFile, request.timezone_offset_min ?? null));
+    }
+
+    const locationId = resolveLocationId(request);
+    deleteCompletedRunsForSource(request.results_path, request.model);
+    const run = createRun(
+      request.results_path,
+      request.model,
+      request.min_confidence,
+      locationId,
+      JSON.stringify({ imported_from: request }),
+      request.timezone_offset_min,
+    );
+
+    let imported = 0;
+    try {
+      for (const [audioFile, detections] of plan.detectionsByAudioFile) {
+        const fileMetadata = metadata.get(audioFile);
+        if (!fileMetadata) continue;
+        const placement = resolveDeployment(fileMetadata, locationId);
+        const audioFileId = createAudioFile(run.id, audioFile, fileMetadata, placement.deploymentId);
+        insertDetections(run.id, placement.locationId, audioFileId, detections);
+        imported += detections.length;
+      }
+    } catch (err) {
+      // A partial import cannot be resumed like an analysis run, so drop it entirely
+      deleteRun(run.id);
+      throw err;
+    }
+    updateRunStatus(run.id, 'completed');
+
+    return {
+      run_id: run.id,
+      audio_files: plan.detectionsByAudioFile.size,
+      detections: imported,
+      skipped_detections: plan.preview.detections - imported,
+    };
+  });
+
+  // Import hand-drawn Raven selections and Audacity labels from a folder as manual annotations;
+  // returns null if the user cancels the dialog
+  ipcMain.handle('import:annotations', async (event, runId: number | null): Promise<AnnotationImportResult | null> => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    if (!win) throw new Error('No window found');
+    const picked = await dialog.showOpenDialog(win, {
+      title: 'Import Annotations from Raven or Audacity',
+      properties: ['openDirectory'],
+    });
+    if (picked.canceled || picked.filePaths.length === 0) return null;
+
+    const files = await listFiles(picked.filePaths[0], (f) => path.extname(f).toLowerCase() === '.txt');
+    // Annotation files name their sound file, often with a path from another machine
+    const audioIndex = buildAudioIndex(runId !== null ? getAudioFilePathsForRun(runId) : getAllAudioFilePaths());
+    const labelIndex = buildLabelIndex(await getMatchingLabelSets());
+    const speciesByLabel = new Map<string, string | null>();
+    const audioFileIds = new Map<string, number | null>();
+
+    const formats: Partial<Record<AnnotationFileFormat, number>> = {};
+    const unmatched = new Set<string>();
+    const unresolved = new Set<string>();
+    const inputs: AnnotationInput[] = [];
+    let unrecognized = 0;
+    let skipped = 0;
+    for (const file of files) {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      const parsed = parseAnnotationFile(file, await fs.promises.readFile(file, 'utf-8'));
+      if (!parsed) {
+        unrecognized++;
+        continue;
+      }
+      formats[parsed.format] = (formats[parsed.format] ?? 0) + 1;
+
+      for (const row of parsed.rows) {
+        if (!speciesByLabel.has(row.label)) {
+          speciesByLabel.set(row.label, findExact(speciesFromLabel(row.label), labelIndex)?.scientific_name ?? null);
+        }
+        const scientific = speciesByLabel.get(row.label) ?? null;
+        const audioPath = matchAudioFile(row.source_file, audioIndex);
+        if (audioPath && !audioFileIds.has(audioPath)) {
+          audioFileIds.set(audioPath, getAudioFileIdByPath(audioPath, runId));
+        }
+        const audioFileId = audioPath ? (audioFileIds.get(audioPath) ?? null) : null;
+
+        if (!scientific) unresolved.add(row.label);
+        if (audioFileId === null) unmatched.add(row.source_file);
+        if (!scientific || audioFileId === null) {
+          skipped++;
+          continue;
+        }
+        inputs.push({
+          audio_file_id: audioFileId,
+          start_time: row.start_time,
+          end_time: row.end_time,
+          low_freq_hz: row.low_freq_hz,
+          high_freq_hz: row.high_freq_hz,
+          scientific_name: scientific,
+          source: 'manual',
+          status: 'manual',
+        });
+      }
+    }
+
+    const imported = importManualAnnotations(inputs);
+    return {
+      formats,
+      unrecognized_files: unrecognized,
+      imported,
+      duplicates: inputs.length - imported,
+      skipped,
+      unmatched_files: [...unmatched].sort(),
+      unresolved_labels: [...unresolved].sort(),
+    };
+  });
+}
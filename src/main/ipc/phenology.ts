@@ -0,0 +1,28 @@
+import { ipcMain } from 'electron';
+import { getDailySpeciesCounts } from '../db/detections';
+import { getRecordingSpans } from '../db/effort';
+import { onLocalClock, summarizeEffort } from '../effort/effort';
+import { resolveAll } from '../labels/label-service';
+import { buildPhenology } from '../phenology/phenology';
+import { settingsStore } from '../settings/store';
+import type { DetectionFilter, Phenology } from '$shared/types';
+
+export function registerPhenologyHandlers(): void {
+  // Daily counts for the chosen species, with the effort behind them, across the chosen locations
+  ipcMain.handle('phenology:get', async (_event, filter: DetectionFilter): Promise<Phenology> => {
+    const scientificNames = filter.scientific_names ?? [];
+    const locationIds = filter.location_ids ?? [];
+    if (scientificNames.length === 0 || locationIds.length === 0) return { series: [], effort: [] };
+
+    const { event_gap_seconds } = await settingsStore.get();
+    const rows = getDailySpeciesCounts(
+      { scientific_names: scientificNames, location_ids: locationIds, min_confidence: filter.min_confidence },
+      event_gap_seconds,
+    );
+    const spans = locationIds.flatMap((locationId) => getRecordingSpans({ location_id: locationId }));
+    return {
+      series: buildPhenology(rows, scientificNames, resolveAll(scientificNames)),
+      effort: summarizeEffort(onLocalClock(spans)).days,
+    };
+  });
+}
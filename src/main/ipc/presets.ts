@@ -0,0 +1,63 @@
+import { ipcMain } from 'electron';
+import { z } from 'zod';
+import { createPreset, deletePreset, getPresets, updatePreset } from '../db/analysis-presets';
+import { parseExtraArgs } from '../birda/args';
+import type { AnalysisPresetInput } from '$shared/types';
+
+const PresetInputSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    model: z.string().min(1),
+    min_confidence: z.number().min(0).max(1),
+    latitude: z.number().min(-90).max(90).nullable(),
+    longitude: z.number().min(-180).max(180).nullable(),
+    location_name: z.string().nullable(),
+    month: z.number().int().min(1).max(12).nullable(),
+    day: z.number().int().min(1).max(31).nullable(),
+    execution_provider: z.string().nullable(),
+    extra_args: z.string().nullable(),
+    species_list_id: z.number().int().positive().nullable(),
+    species_list_mode: z.enum(['include', 'exclude']),
+  })
+  .refine((p) => (p.latitude === null) === (p.longitude === null), {
+    message: 'Latitude and longitude must be set together',
+  })
+  .refine((p) => (p.month === null) === (p.day === null), {
+    message: 'Month and day must be set together',
+  });
+
+function textOrNull(value: string | null): string | null {
+  const trimmed = value?.trim();
+  return trimmed === undefined || trimmed === '' ? null : trimmed;
+}
+
+function toFields(rawInput: unknown): AnalysisPresetInput {
+  const input = PresetInputSchema.parse(rawInput);
+  const extraArgs = textOrNull(input.extra_args);
+  // Rejected here rather than when a run using the preset starts
+  if (extraArgs) parseExtraArgs(extraArgs);
+  return {
+    ...input,
+    location_name: textOrNull(input.location_name),
+    execution_provider: textOrNull(input.execution_provider),
+    extra_args: extraArgs,
+  };
+}
+
+export function registerPresetHandlers(): void {
+  ipcMain.handle('presets:list', () => {
+    return getPresets();
+  });
+
+  ipcMain.handle('presets:create', (_event, rawInput: unknown) => {
+    return createPreset(toFields(rawInput));
+  });
+
+  ipcMain.handle('presets:update', (_event, id: unknown, rawInput: unknown) => {
+    return updatePreset(z.number().int().positive().parse(id), toFields(rawInput));
+  });
+
+  ipcMain.handle('presets:delete', (_event, id: unknown) => {
+    deletePreset(z.number().int().positive().parse(id));
+  });
+}
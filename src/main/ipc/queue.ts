@@ -0,0 +1,270 @@
+import { ipcMain, BrowserWindow } from 'electron';
+import {
+  claimNextJob,
+  clearFinishedJobs,
+  deleteJob,
+  enqueueJob,
+  finishJob,
+  getJob,
+  listJobs,
+  moveJob,
+  pauseJob,
+  resumeJob,
+} from '../db/analysis-jobs';
+import { createEnsemble } from '../db/ensembles';
+import { getRunById } from '../db/runs';
+import { getLocationById } from '../db/locations';
+import { AnalysisRequestSchema, cancelCurrentAnalysis, runAnalysisRequest } from './analysis';
+import type { AnalysisJob, AnalysisRequest } from '$shared/types';
+
+export interface JobResult {
+  runId: number | null;
+  status: AnalysisJob['status'];
+}
+
+interface JobWaiter {
+  resolve: (result: JobResult) => void;
+  reject: (err: Error) => void;
+}
+
+// Window that receives progress and log events for queued runs; the last one to touch the queue.
+let queueWindow: BrowserWindow | null = null;
+let processing = false;
+let runningJob: { id: number; done: Promise<void> } | null = null;
+// Set when the running job is stopped on purpose, so its outcome is not reported as a normal finish.
+let interruption: 'pause' | 'cancel' | null = null;
+// Callers of birda:analyze waiting for their job to finish.
+const waiters = new Map<number, JobWaiter>();
+
+function broadcastQueue(): void {
+  const jobs = listJobs();
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) {
+      win.webContents.send('queue:updated', jobs);
+    }
+  }
+}
+
+function settleWaiter(jobId: number, result: JobResult | Error): void {
+  const waiter = waiters.get(jobId);
+  if (!waiter) return;
+  waiters.delete(jobId);
+  if (result instanceof Error) {
+    waiter.reject(result);
+  } else {
+    waiter.resolve(result);
+  }
+}
+
+function attachWindow(win: BrowserWindow | null): void {
+  if (win) {
+    queueWindow = win;
+  }
+}
+
+async function runJob(win: BrowserWindow, job: AnalysisJob): Promise<void> {
+  // A job that was paused or cancelled mid-run continues its run rather than starting over
+  const request = job.run_id !== null ? { ...job.request, resume_run_id: job.run_id } : job.request;
+  try {
+    const result = await runAnalysisRequest(win, request);
+    if (interruption === 'pause') {
+      // A paused job continues its run once resumed, so the waiter stays open until then.
+      finishJob(job.id, 'paused', result.runId);
+    } else if (interruption === 'cancel') {
+      finishJob(job.id, 'cancelled', result.runId);
+      settleWaiter(job.id, { runId: result.runId, status: 'cancelled' });
+    } else {
+      finishJob(job.id, result.status, result.runId);
+      settleWaiter(job.id, { runId: result.runId, status: result.status });
+    }
+  } catch (err) {
+    const message = (err as Error).message;
+    finishJob(job.id, 'failed', null, message);
+    settleWaiter(job.id, err as Error);
+  }
+}
+
+/** Run pending jobs one after another until the queue is empty or the window is gone. */
+async function processQueue(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    for (;;) {
+      const win = queueWindow;
+      if (!win || win.isDestroyed()) break;
+      const job = claimNextJob();
+      if (!job) break;
+      interruption = null;
+      runningJob = { id: job.id, done: runJob(win, job) };
+      broadcastQueue();
+      await runningJob.done;
+      runningJob = null;
+      interruption = null;
+    }
+  } finally {
+    processing = false;
+    broadcastQueue();
+  }
+}
+
+function startQueue(): void {
+  void processQueue();
+}
+
+/**
+ * Rebuild the request a run was started with. Runs from before requests were
+ * stored in settings_json fall back to the columns on the run itself.
+ */
+function buildResumeRequest(runId: number): AnalysisRequest {
+  const run = getRunById(runId);
+  if (!run) throw new Error(`Run ${runId} not found`);
+  if (run.status === 'running') throw new Error(`Run ${runId} is still running`);
+
+  const saved = run.settings_json ? AnalysisRequestSchema.safeParse(JSON.parse(run.settings_json)) : null;
+  if (saved?.success) {
+    return { ...saved.data, resume_run_id: run.id };
+  }
+
+  const location = run.location_id !== null ? getLocationById(run.location_id) : undefined;
+  return {
+    source_path: run.source_path,
+    model: run.model,
+    min_confidence: run.min_confidence,
+    latitude: location?.latitude,
+    longitude: location?.longitude,
+    timezone_offset_min: run.timezone_offset_min ?? undefined,
+    resume_run_id: run.id,
+  };
+}
+
+/**
+ * Queue a request. An ensemble request becomes one job per model, each linked to a new
+ * ensemble, so every model's run can be paused and resumed on its own.
+ */
+function enqueue(rawRequest: unknown): AnalysisJob[] {
+  const { ensemble_models: ensembleModels, ...request } = AnalysisRequestSchema.parse(rawRequest);
+  const models = [...new Set([request.model, ...(ensembleModels ?? [])])];
+  let jobs: AnalysisJob[];
+  if (models.length > 1) {
+    const ensembleId = createEnsemble(request.source_path, models);
+    jobs = models.map((model) => enqueueJob({ ...request, model, ensemble_id: ensembleId }));
+  } else {
+    jobs = [enqueueJob(request)];
+  }
+  broadcastQueue();
+  return jobs;
+}
+
+/**
+ * Wait for every job to settle and report the first one's outcome; the other models of an
+ * ensemble neither change nor reject it, and their own outcomes show in the queue.
+ */
+function waitForJobs(jobs: AnalysisJob[]): Promise<JobResult> {
+  const results = jobs.map(
+    (job) =>
+      new Promise<JobResult>((resolve, reject) => {
+        waiters.set(job.id, { resolve, reject });
+      }),
+  );
+  return Promise.allSettled(results).then(() => results[0]);
+}
+
+/**
+ * Queue a request from the main process itself. Progress goes to the window that
+ * last used the queue, or the first open one; `done` settles like birda:analyze.
+ */
+export function queueAnalysis(request: AnalysisRequest): { jobs: AnalysisJob[]; done: Promise<JobResult> } {
+  const current = queueWindow && !queueWindow.isDestroyed() ? queueWindow : null;
+  attachWindow(current ?? BrowserWindow.getAllWindows().at(0) ?? null);
+  const jobs = enqueue(request);
+  const done = waitForJobs(jobs);
+  startQueue();
+  return { jobs, done };
+}
+
+/** Stop the running job; it ends up paused or cancelled once birda exits. */
+function interruptRunningJob(kind: 'pause' | 'cancel'): boolean {
+  if (!runningJob) return false;
+  interruption = kind;
+  return cancelCurrentAnalysis();
+}
+
+export function registerQueueHandlers(): void {
+  // Enqueue and wait for this job's result, so a single run behaves like a direct call.
+  // An ensemble waits for all its models and reports the first model's run, even if another fails.
+  ipcMain.handle('birda:analyze', (event, rawRequest: unknown) => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    if (!win) throw new Error('No window found');
+    attachWindow(win);
+
+    const done = waitForJobs(enqueue(rawRequest));
+    startQueue();
+    return done;
+  });
+
+  ipcMain.handle('birda:cancel-analysis', () => {
+    return interruptRunningJob('cancel');
+  });
+
+  // Listing also starts any jobs left pending from a previous session.
+  ipcMain.handle('queue:list', (event) => {
+    attachWindow(BrowserWindow.fromWebContents(event.sender));
+    startQueue();
+    return listJobs();
+  });
+
+  ipcMain.handle('queue:enqueue', (event, rawRequest: unknown) => {
+    attachWindow(BrowserWindow.fromWebContents(event.sender));
+    const jobs = enqueue(rawRequest);
+    startQueue();
+    return jobs;
+  });
+
+  ipcMain.handle('queue:resume-run', (event, runId: number) => {
+    attachWindow(BrowserWindow.fromWebContents(event.sender));
+    const jobs = enqueue(buildResumeRequest(runId));
+    startQueue();
+    return jobs;
+  });
+
+  ipcMain.handle('queue:move', (_event, id: number, direction: 'up' | 'down') => {
+    moveJob(id, direction === 'up' ? 'up' : 'down');
+    broadcastQueue();
+  });
+
+  ipcMain.handle('queue:pause', (_event, id: number) => {
+    if (id === runningJob?.id) {
+      interruptRunningJob('pause');
+      return;
+    }
+    if (pauseJob(id)) {
+      broadcastQueue();
+    }
+  });
+
+  ipcMain.handle('queue:resume', (event, id: number) => {
+    attachWindow(BrowserWindow.fromWebContents(event.sender));
+    if (resumeJob(id)) {
+      broadcastQueue();
+      startQueue();
+    }
+  });
+
+  // Dropping the running job cancels it first; its row goes once birda has exited.
+  ipcMain.handle('queue:remove', async (_event, id: number) => {
+    if (runningJob?.id === id) {
+      const { done } = runningJob;
+      interruptRunningJob('cancel');
+      await done;
+    }
+    if (!getJob(id)) return;
+    deleteJob(id);
+    settleWaiter(id, new Error('Analysis job was removed from the queue'));
+    broadcastQueue();
+  });
+
+  ipcMain.handle('queue:clear-finished', () => {
+    clearFinishedJobs();
+    broadcastQueue();
+  });
+}
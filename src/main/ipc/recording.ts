@@ -0,0 +1,127 @@
+import { ipcMain } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { buildWavHeader, decodeMono, readWavInfo, type WavInfo } from '../audio/wav';
+import { hannWindow, powerSpectrum, toIntensityColumn } from '../audio/spectrogram';
+import type { RecordingOverviewChunk, RecordingOverviewInfo } from '$shared/types';
+
+const FFT_SIZE = 1024;
+/** FFT frames averaged into each overview column, spread evenly over the span it covers. */
+const WINDOWS_PER_COLUMN = 4;
+const OVERVIEW_ROWS = 128;
+const MAX_OVERVIEW_COLUMNS = 4000;
+/** Columns computed between progress events. */
+const CHUNK_COLUMNS = 64;
+/** Longest span served for the full-resolution view. */
+const MAX_REGION_SEC = 600;
+
+// A newer overview request (another file, or the same one at a new width) stops the previous one.
+let latestOverviewRequest = 0;
+
+async function withWav<T>(
+  filePath: string,
+  fn: (handle: fs.promises.FileHandle, info: WavInfo) => Promise<T>,
+): Promise<T> {
+  if (path.extname(filePath).toLowerCase() !== '.wav') {
+    throw new Error('The recording overview is only available for WAV files');
+  }
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    return await fn(handle, await readWavInfo(handle));
+  } finally {
+    await handle.close();
+  }
+}
+
+function overviewShape(info: WavInfo, columns: number, freqMax: number): RecordingOverviewInfo {
+  const maxColumns = Math.max(1, Math.min(MAX_OVERVIEW_COLUMNS, Math.floor(info.frames / FFT_SIZE)));
+  return {
+    duration_sec: info.durationSec,
+    sample_rate: info.sampleRate,
+    columns: Math.max(1, Math.min(maxColumns, Math.round(columns))),
+    rows: OVERVIEW_ROWS,
+    freq_max: Math.min(freqMax, info.sampleRate / 2),
+  };
+}
+
+export function registerRecordingHandlers(): void {
+  ipcMain.handle(
+    'recording:overview-info',
+    (_event, filePath: string, columns: number, freqMax: number): Promise<RecordingOverviewInfo> =>
+      withWav(filePath, (_handle, info) => Promise.resolve(overviewShape(info, columns, freqMax))),
+  );
+
+  // Columns are sent as recording:overview-chunk events while they are computed; resolves once done or superseded.
+  ipcMain.handle(
+    'recording:overview',
+    async (event, requestId: number, filePath: string, columns: number, freqMax: number): Promise<void> => {
+      latestOverviewRequest = requestId;
+      await withWav(filePath, async (handle, info) => {
+        const shape = overviewShape(info, columns, freqMax);
+        const window = hannWindow(FFT_SIZE);
+        const buffer = Buffer.alloc(FFT_SIZE * info.blockAlign);
+        const framesPerColumn = info.frames / shape.columns;
+        const lastStart = Math.max(0, info.frames - FFT_SIZE);
+
+        let chunk = new Uint8Array(CHUNK_COLUMNS * shape.rows);
+        let chunkStart = 0;
+        for (let col = 0; col < shape.columns; col++) {
+          if (latestOverviewRequest !== requestId || event.sender.isDestroyed()) return;
+
+          const power = new Float64Array(FFT_SIZE / 2);
+          for (let w = 0; w < WINDOWS_PER_COLUMN; w++) {
+            const center = (col + (w + 0.5) / WINDOWS_PER_COLUMN) * framesPerColumn;
+            const startFrame = Math.min(lastStart, Math.max(0, Math.floor(center - FFT_SIZE / 2)));
+            const { bytesRead } = await handle.read(
+              buffer,
+              0,
+              buffer.length,
+              info.dataOffset + startFrame * info.blockAlign,
+            );
+            const frame = powerSpectrum(decodeMono(buffer.subarray(0, bytesRead), info), window);
+            for (let i = 0; i < power.length; i++) {
+              // eslint-disable-next-line security/detect-object-injection -- i is the FFT bin counter
+              power[i] += frame[i] / WINDOWS_PER_COLUMN;
+            }
+          }
+          chunk.set(
+            toIntensityColumn(power, info.sampleRate, shape.freq_max, shape.rows),
+            (col - chunkStart) * shape.rows,
+          );
+
+          const filled = col - chunkStart + 1;
+          if (filled === CHUNK_COLUMNS || col === shape.columns - 1) {
+            const payload: RecordingOverviewChunk = {
+              request_id: requestId,
+              start_column: chunkStart,
+              data: chunk.slice(0, filled * shape.rows),
+            };
+            event.sender.send('recording:overview-chunk', payload);
+            chunkStart = col + 1;
+            chunk = new Uint8Array(CHUNK_COLUMNS * shape.rows);
+          }
+        }
+      });
+    },
+  );
+
+  ipcMain.handle('recording:cancel-overview', () => {
+    latestOverviewRequest = 0;
+  });
+
+  // A span of the recording as a standalone WAV, for the full-resolution view
+  ipcMain.handle(
+    'recording:region-wav',
+    (_event, filePath: string, startSec: number, endSec: number): Promise<Uint8Array> =>
+      withWav(filePath, async (handle, info) => {
+        const start = Math.max(0, Math.min(startSec, info.durationSec));
+        const end = Math.min(info.durationSec, Math.max(start, endSec), start + MAX_REGION_SEC);
+        const startFrame = Math.floor(start * info.sampleRate);
+        const frameCount = Math.max(0, Math.floor(end * info.sampleRate) - startFrame);
+        const data = Buffer.alloc(frameCount * info.blockAlign);
+        const { bytesRead } = await handle.read(data, 0, data.length, info.dataOffset + startFrame * info.blockAlign);
+        return new Uint8Array(Buffer.concat([buildWavHeader(info, bytesRead), data.subarray(0, bytesRead)]));
+      }),
+  );
+}
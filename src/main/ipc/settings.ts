@@ -7,6 +7,7 @@ import { listModels } from '../birda/models';
 import { buildLabelsPath, reloadLabels } from '../labels/label-service';
 import { settingsStore } from '../settings/store';
 import { PartialSettingsSchema } from '../settings/schema';
+import { rescanWatchFolders } from '../watch/watcher';
 import type { AppSettings, BirdaCheckResponse } from '$shared/types';
 import { BIRDA_GITHUB_URL } from '$shared/constants';
 
@@ -44,6 +45,11 @@ export async function registerSettingsHandlers(): Promise<void> {
       cachedVersionCheck = null;
     }
 
+    // Pick up added or re-enabled watch folders without waiting for the next poll
+    if (validated.watch_folders) {
+      rescanWatchFolders();
+    }
+
     // Reload labels if species language changed
     if (validated.species_language && validated.species_language !== oldSpeciesLanguage) {
       try {
@@ -0,0 +1,60 @@
+import { ipcMain } from 'electron';
+import { fetchSpecies } from '../birda/species';
+import { getLocationById } from '../db/locations';
+import {
+  deleteSiteProfile,
+  getSiteProfileRecord,
+  getSiteProfileRows,
+  saveSiteProfile,
+  type SiteProfileRecord,
+} from '../db/site-profiles';
+import { resolveAll } from '../labels/label-service';
+import { buildProfileMatrix, WEEKS_PER_YEAR } from '../site-profile/site-profile';
+import type { BirdaSpeciesResponse, SiteProfile, SiteProfileProgress } from '$shared/types';
+
+// Locations whose 48 weeks are being fetched; a second build for one is refused
+const building = new Set<number>();
+
+function toProfile(record: SiteProfileRecord): SiteProfile {
+  const rows = getSiteProfileRows(record.location_id);
+  const commonNames = resolveAll([...new Set(rows.map((r) => r.scientific_name))]);
+  return { ...record, species: buildProfileMatrix(rows, commonNames) };
+}
+
+export function registerSiteProfileHandlers(): void {
+  ipcMain.handle('site-profiles:get', (_event, locationId: number): SiteProfile | null => {
+    const record = getSiteProfileRecord(locationId);
+    return record ? toProfile(record) : null;
+  });
+
+  // Runs the birda species command once per week; progress goes to the requesting window
+  ipcMain.handle('site-profiles:build', async (event, locationId: number, threshold: number): Promise<SiteProfile> => {
+    if (!(threshold >= 0 && threshold <= 1)) throw new Error('Threshold must be between 0 and 1');
+    const location = getLocationById(locationId);
+    if (!location) throw new Error(`Location ${locationId} not found`);
+    if (building.has(locationId)) throw new Error('A site profile is already being built for this location');
+
+    building.add(locationId);
+    const sender = event.sender;
+    try {
+      const weeks: BirdaSpeciesResponse[] = [];
+      for (let week = 1; week <= WEEKS_PER_YEAR; week++) {
+        weeks.push(await fetchSpecies(location.latitude, location.longitude, week, threshold));
+        if (!sender.isDestroyed()) {
+          const progress: SiteProfileProgress = { location_id: locationId, completed: week };
+          sender.send('site-profiles:progress', progress);
+        }
+      }
+      saveSiteProfile(locationId, threshold, weeks);
+    } finally {
+      building.delete(locationId);
+    }
+    const record = getSiteProfileRecord(locationId);
+    if (!record) throw new Error(`Failed to retrieve site profile for location ${locationId}`);
+    return toProfile(record);
+  });
+
+  ipcMain.handle('site-profiles:delete', (_event, locationId: number) => {
+    deleteSiteProfile(locationId);
+  });
+}
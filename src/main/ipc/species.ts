@@ -1,20 +1,43 @@
-import { ipcMain } from 'electron';
+import { BrowserWindow, dialog, ipcMain } from 'electron';
+import fs from 'fs';
+import path from 'path';
 import { fetchSpecies } from '../birda/species';
 import {
   createSpeciesList,
   getSpeciesLists,
+  getSpeciesListById,
   getSpeciesListEntries,
   deleteSpeciesList,
   createCustomSpeciesList,
+  renameSpeciesList,
+  addSpeciesListEntries,
+  removeSpeciesListEntries,
+  duplicateSpeciesList,
+  combineSpeciesLists,
+  getSpeciesListChanges,
 } from '../db/species-lists';
-import { resolveAll } from '../labels/label-service';
+import { getMatchingLabelSets, resolveAll } from '../labels/label-service';
+import { parseSpeciesListFile, serializeSpeciesList, speciesListFileExtension } from '../species-lists/list-files';
+import { buildLabelIndex, matchSpeciesNames } from '../species-lists/name-matching';
 import type {
   SpeciesFetchRequest,
   SpeciesListEntry,
   EnrichedSpeciesListEntry,
   BirdaSpeciesResponse,
+  SpeciesListFileFormat,
+  SpeciesListImportPreview,
+  SpeciesListSetOperation,
 } from '$shared/types';
 
+const LIST_FILE_FORMATS = new Set<SpeciesListFileFormat>(['birdnet', 'csv', 'ebird']);
+const SET_OPERATIONS = new Set<SpeciesListSetOperation>(['union', 'intersection', 'difference']);
+
+function requireName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Species list name is required');
+  return trimmed;
+}
+
 function enrichEntries(entries: SpeciesListEntry[]): EnrichedSpeciesListEntry[] {
   const scientificNames = entries.map((e) => e.scientific_name);
   const nameMap = resolveAll(scientificNames);
@@ -57,4 +80,80 @@ export function registerSpeciesHandlers(): void {
   ipcMain.handle('species:delete-list', (_event, id: number) => {
     deleteSpeciesList(id);
   });
+
+  ipcMain.handle('species:rename-list', (_event, id: number, name: string, description: string | null) => {
+    const trimmed = description?.trim();
+    return renameSpeciesList(id, requireName(name), trimmed === undefined || trimmed === '' ? null : trimmed);
+  });
+
+  ipcMain.handle('species:add-entries', (_event, listId: number, scientificNames: string[]) => {
+    return addSpeciesListEntries(listId, scientificNames);
+  });
+
+  ipcMain.handle('species:remove-entries', (_event, listId: number, scientificNames: string[]) => {
+    return removeSpeciesListEntries(listId, scientificNames);
+  });
+
+  ipcMain.handle('species:duplicate-list', (_event, id: number, name: string) => {
+    return duplicateSpeciesList(id, requireName(name));
+  });
+
+  ipcMain.handle(
+    'species:combine-lists',
+    (_event, name: string, operation: SpeciesListSetOperation, listIds: number[]) => {
+      if (!SET_OPERATIONS.has(operation)) throw new Error(`Unknown set operation: ${operation}`);
+      return combineSpeciesLists(requireName(name), operation, listIds);
+    },
+  );
+
+  ipcMain.handle('species:get-history', (_event, listId: number) => {
+    return getSpeciesListChanges(listId);
+  });
+
+  // Read a list file and match its names to the labels; null if the user cancels the dialog
+  ipcMain.handle('species:import-preview', async (event): Promise<SpeciesListImportPreview | null> => {
+    const win = BrowserWindow.fromWebContents(event.sender);
+    if (!win) throw new Error('No window found');
+    const picked = await dialog.showOpenDialog(win, {
+      title: 'Import Species List',
+      properties: ['openFile'],
+      filters: [{ name: 'Species lists', extensions: ['txt', 'csv', 'tsv'] }],
+    });
+    const filePath = picked.filePaths.at(0);
+    if (picked.canceled || !filePath) return null;
+
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    const fileName = path.basename(filePath);
+    const parsed = parseSpeciesListFile(fileName, content);
+    if (parsed.names.length === 0) throw new Error(`No species found in ${fileName}`);
+    const index = buildLabelIndex(await getMatchingLabelSets());
+    return { file_name: fileName, format: parsed.format, ...matchSpeciesNames(parsed.names, index) };
+  });
+
+  // Returns the written path, or null if the user cancels the dialog
+  ipcMain.handle('species:export-list', async (event, listId: number, format: SpeciesListFileFormat) => {
+    if (!LIST_FILE_FORMATS.has(format)) throw new Error(`Unknown species list format: ${format}`);
+    const list = getSpeciesListById(listId);
+    if (!list) throw new Error(`Species list ${listId} not found`);
+    const win = BrowserWindow.fromWebContents(event.sender);
+    if (!win) throw new Error('No window found');
+
+    const extension = speciesListFileExtension(format);
+    const saved = await dialog.showSaveDialog(win, {
+      title: 'Export Species List',
+      defaultPath: `${list.name.replace(/[\\/:*?"<>|]+/g, '_')}.${extension}`,
+      filters: [{ name: extension.toUpperCase(), extensions: [extension] }],
+    });
+    if (saved.canceled || !saved.filePath) return null;
+
+    const species = enrichEntries(getSpeciesListEntries(listId)).map((e) => ({
+      scientific_name: e.scientific_name,
+      common_name: e.resolved_common_name,
+      frequency: e.frequency,
+    }));
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    await fs.promises.writeFile(saved.filePath, serializeSpeciesList(format, species), 'utf-8');
+    return saved.filePath;
+  });
 }
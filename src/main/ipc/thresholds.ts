@@ -0,0 +1,39 @@
+import { ipcMain } from 'electron';
+import { getCalibrationSamples, getSpeciesThresholds, setSpeciesThreshold } from '../db/species-thresholds';
+import { resolveAll } from '../labels/label-service';
+import { fitLogistic, thresholdForPrecision, type CalibrationSample } from '../verification/calibration';
+import type { SpeciesCalibration } from '$shared/types';
+
+export function registerThresholdHandlers(): void {
+  // Species with verified detections or a stored threshold, most-verified first
+  ipcMain.handle('thresholds:calibrate', (_event, targetPrecision: number): SpeciesCalibration[] => {
+    const bySpecies = new Map<string, CalibrationSample[]>();
+    for (const row of getCalibrationSamples()) {
+      const samples = bySpecies.get(row.scientific_name) ?? [];
+      samples.push({ confidence: row.confidence, correct: row.correct === 1 });
+      bySpecies.set(row.scientific_name, samples);
+    }
+    const stored = new Map(getSpeciesThresholds().map((t) => [t.scientific_name, t.threshold]));
+    const names = [...new Set([...bySpecies.keys(), ...stored.keys()])];
+    const nameMap = resolveAll(names);
+
+    return names
+      .map((scientificName) => {
+        const samples = bySpecies.get(scientificName) ?? [];
+        const fit = fitLogistic(samples);
+        return {
+          scientific_name: scientificName,
+          common_name: nameMap.get(scientificName) ?? scientificName,
+          samples: samples.length,
+          correct: samples.filter((s) => s.correct).length,
+          suggested_threshold: fit ? thresholdForPrecision(fit, targetPrecision) : null,
+          threshold: stored.get(scientificName) ?? null,
+        };
+      })
+      .sort((a, b) => b.samples - a.samples || a.common_name.localeCompare(b.common_name));
+  });
+
+  ipcMain.handle('thresholds:set', (_event, scientificName: string, threshold: number | null) => {
+    setSpeciesThreshold(scientificName, threshold);
+  });
+}
@@ -0,0 +1,8 @@
+import { ipcMain } from 'electron';
+import { getWatchStatuses } from '../watch/watcher';
+
+export function registerWatchHandlers(): void {
+  ipcMain.handle('watch:status', () => {
+    return getWatchStatuses();
+  });
+}
@@ -91,6 +91,10 @@ export class FileLabelProvider implements LabelProvider {
     return result;
   }
 
+  getAllLabels(): Map<string, string> {
+    return new Map(this.sciToCommon);
+  }
+
   isLoaded(): boolean {
     return this.loaded;
   }
@@ -5,10 +5,13 @@ export interface LabelProvider {
   getCommonName(scientificName: string): string | null;
   searchByCommonName(query: string): string[];
   resolveAll(scientificNames: string[]): Map<string, string>;
+  /** Every label, scientific → common name. */
+  getAllLabels(): Map<string, string>;
   isLoaded(): boolean;
 }
 
 let activeProvider: LabelProvider | null = null;
+let activeLabelsPath: string | null = null;
 
 function setLabelProvider(provider: LabelProvider): void {
   activeProvider = provider;
@@ -22,6 +25,25 @@ export function resolveAll(scientificNames: string[]): Map<string, string> {
   return activeProvider?.resolveAll(scientificNames) ?? new Map<string, string>();
 }
 
+/**
+ * Label sets to match imported species names against: the display language first,
+ * then English, which eBird exports and most published lists use for common names.
+ */
+export async function getMatchingLabelSets(): Promise<Map<string, string>[]> {
+  const sets = [activeProvider?.getAllLabels() ?? new Map<string, string>()];
+  if (!activeLabelsPath) return sets;
+  const englishPath = buildLabelsPath(activeLabelsPath, 'en');
+  if (englishPath === activeLabelsPath) return sets;
+  try {
+    const english = new FileLabelProvider();
+    await english.load(englishPath);
+    sets.push(english.getAllLabels());
+  } catch {
+    // The model has no English labels; the display language alone is used
+  }
+  return sets;
+}
+
 // --- Language reload ---
 
 /**
@@ -63,5 +85,6 @@ export async function reloadLabels(labelsPath: string): Promise<void> {
   const provider = new FileLabelProvider();
   await provider.load(labelsPath);
   setLabelProvider(provider);
+  activeLabelsPath = labelsPath;
   console.log(`[labels] Reloaded labels from ${labelsPath}`);
 }
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildPhenology, summarizeYears } from './phenology';
+
+describe('summarizeYears', () => {
+  it('reports first and last detection per calendar year', () => {
+    expect(
+      summarizeYears([
+        { date: '2024-04-02', detections: 3, events: 1 },
+        { date: '2024-09-30', detections: 1, events: 1 },
+        { date: '2025-03-28', detections: 5, events: 2 },
+      ]),
+    ).toEqual([
+      { year: 2024, first_date: '2024-04-02', last_date: '2024-09-30', days_detected: 2 },
+      { year: 2025, first_date: '2025-03-28', last_date: '2025-03-28', days_detected: 1 },
+    ]);
+  });
+});
+
+describe('buildPhenology', () => {
+  it('keeps the requested species order, sorts days and includes species never detected', () => {
+    const series = buildPhenology(
+      [
+        { scientific_name: 'Cuculus canorus', date: '2025-05-20', detections: 4, events: 2 },
+        { scientific_name: 'Cuculus canorus', date: '2025-05-02', detections: 1, events: 1 },
+      ],
+      ['Ficedula hypoleuca', 'Cuculus canorus'],
+      new Map([['Cuculus canorus', 'Common Cuckoo']]),
+    );
+    expect(series.map((s) => [s.common_name, s.days.map((d) => d.date)])).toEqual([
+      ['Ficedula hypoleuca', []],
+      ['Common Cuckoo', ['2025-05-02', '2025-05-20']],
+    ]);
+    expect(series.at(1)?.years.at(0)?.first_date).toBe('2025-05-02');
+  });
+});
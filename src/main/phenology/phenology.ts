@@ -0,0 +1,45 @@
+import type { PhenologyDay, PhenologySeries, PhenologyYear } from '$shared/types';
+
+export interface DailySpeciesCount extends PhenologyDay {
+  scientific_name: string;
+}
+
+/** First and last day a species was detected in each calendar year. `days` must be sorted. */
+export function summarizeYears(days: PhenologyDay[]): PhenologyYear[] {
+  const byYear = new Map<number, PhenologyYear>();
+  for (const day of days) {
+    if (day.detections === 0) continue;
+    const year = Number(day.date.slice(0, 4));
+    const summary = byYear.get(year);
+    if (summary) {
+      summary.last_date = day.date;
+      summary.days_detected++;
+    } else {
+      byYear.set(year, { year, first_date: day.date, last_date: day.date, days_detected: 1 });
+    }
+  }
+  return [...byYear.values()].sort((a, b) => a.year - b.year);
+}
+
+/** One series per species, in the order the species were asked for. */
+export function buildPhenology(
+  rows: DailySpeciesCount[],
+  scientificNames: string[],
+  commonNames: Map<string, string>,
+): PhenologySeries[] {
+  const bySpecies = new Map<string, PhenologyDay[]>();
+  for (const { scientific_name, ...day } of rows) {
+    const days = bySpecies.get(scientific_name) ?? [];
+    days.push(day);
+    bySpecies.set(scientific_name, days);
+  }
+  return scientificNames.map((scientific_name) => {
+    const days = (bySpecies.get(scientific_name) ?? []).sort((a, b) => a.date.localeCompare(b.date));
+    return {
+      scientific_name,
+      common_name: commonNames.get(scientific_name) ?? scientific_name,
+      days,
+      years: summarizeYears(days),
+    };
+  });
+}
@@ -20,10 +20,12 @@ export async function loadSettings(): Promise<AppSettings> {
     default_execution_provider: 'auto',
     default_freq_max: 15000,
     default_spectrogram_height: 160,
+    event_gap_seconds: 3,
     species_language: 'en',
     ui_language: 'en',
     theme: 'system',
     setup_completed: false,
+    watch_folders: [],
   };
 
   try {
@@ -1,5 +1,15 @@
 import { z } from 'zod';
 
+const WatchFolderSchema = z.object({
+  path: z.string().min(1),
+  enabled: z.boolean(),
+  model: z.string().min(1),
+  min_confidence: z.number().min(0).max(1),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  location_name: z.string().optional(),
+});
+
 /**
  * Shared Zod schema for app settings validation.
  *
@@ -18,9 +28,11 @@ export const PartialSettingsSchema = z
     default_execution_provider: z.string(),
     default_freq_max: z.number().int().positive(),
     default_spectrogram_height: z.number().int().positive(),
+    event_gap_seconds: z.number().min(0).max(600),
     species_language: z.string(),
     ui_language: z.string(),
     theme: z.enum(['system', 'light', 'dark']),
     setup_completed: z.boolean(),
+    watch_folders: z.array(WatchFolderSchema),
   })
   .partial();
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { birdnetWeek, buildProfileMatrix, isExpectedInWeek, WEEKS_PER_YEAR } from './site-profile';
+
+describe('birdnetWeek', () => {
+  it('splits each month into four weeks', () => {
+    expect(birdnetWeek(Date.UTC(2025, 0, 1))).toBe(1);
+    expect(birdnetWeek(Date.UTC(2025, 0, 8))).toBe(2);
+    expect(birdnetWeek(Date.UTC(2025, 4, 21, 23, 59))).toBe(19);
+    expect(birdnetWeek(Date.UTC(2025, 11, 31))).toBe(48);
+  });
+});
+
+describe('buildProfileMatrix', () => {
+  it('fills 48 weeks per species and orders species by their peak week', () => {
+    const matrix = buildProfileMatrix(
+      [
+        { week: 20, scientific_name: 'Cuculus canorus', frequency: 0.6 },
+        { week: 21, scientific_name: 'Cuculus canorus', frequency: 0.4 },
+        { week: 2, scientific_name: 'Parus major', frequency: 0.9 },
+      ],
+      new Map([['Parus major', 'Great Tit']]),
+    );
+    expect(matrix.map((s) => s.common_name)).toEqual(['Great Tit', 'Cuculus canorus']);
+    const cuckoo = matrix.at(1);
+    expect(cuckoo?.frequencies).toHaveLength(WEEKS_PER_YEAR);
+    expect(cuckoo?.frequencies.slice(18, 22)).toEqual([null, 0.6, 0.4, null]);
+  });
+});
+
+describe('isExpectedInWeek', () => {
+  const expected = new Map([
+    [1, new Set(['Parus major'])],
+    [20, new Set(['Cuculus canorus'])],
+  ]);
+
+  it('accepts the neighbouring weeks, wrapping around the year end', () => {
+    expect(isExpectedInWeek(expected, 21, 'Cuculus canorus')).toBe(true);
+    expect(isExpectedInWeek(expected, 48, 'Parus major')).toBe(true);
+    expect(isExpectedInWeek(expected, 22, 'Cuculus canorus')).toBe(false);
+    expect(isExpectedInWeek(expected, 20, 'Parus major')).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import type { SiteProfileSpecies } from '$shared/types';
+
+/** BirdNET's year: four weeks per month. */
+export const WEEKS_PER_YEAR = 48;
+
+/** A species counts as expected in a week when it is expected within this many weeks of it. */
+const EXPECTED_WEEK_TOLERANCE = 1;
+
+export interface SiteProfileRow {
+  week: number;
+  scientific_name: string;
+  frequency: number;
+}
+
+/** Species expected at a location, per week. */
+export type ExpectedSpeciesByWeek = Map<number, Set<string>>;
+
+/** BirdNET week (1-48) of a wall clock; days 1-7 are the first week of a month and days 22-31 the fourth. */
+export function birdnetWeek(clockMs: number): number {
+  const date = new Date(clockMs);
+  return date.getUTCMonth() * 4 + Math.min(4, Math.ceil(date.getUTCDate() / 7));
+}
+
+/**
+ * One row per species with its frequency in each week (index 0 = week 1), ordered by the
+ * week it peaks in so the matrix reads through the seasons.
+ */
+export function buildProfileMatrix(rows: SiteProfileRow[], commonNames: Map<string, string>): SiteProfileSpecies[] {
+  const bySpecies = new Map<string, (number | null)[]>();
+  for (const row of rows) {
+    let frequencies = bySpecies.get(row.scientific_name);
+    if (!frequencies) {
+      frequencies = Array.from({ length: WEEKS_PER_YEAR }, () => null);
+      bySpecies.set(row.scientific_name, frequencies);
+    }
+    frequencies.splice(row.week - 1, 1, row.frequency);
+  }
+
+  const peakWeek = (frequencies: (number | null)[]) =>
+    frequencies.reduce<number>((best, f, i) => ((f ?? 0) > (frequencies.at(best) ?? 0) ? i : best), 0);
+  return [...bySpecies]
+    .map(([scientific_name, frequencies]) => ({
+      scientific_name,
+      common_name: commonNames.get(scientific_name) ?? scientific_name,
+      frequencies,
+      peak: peakWeek(frequencies),
+    }))
+    .sort((a, b) => a.peak - b.peak || a.common_name.localeCompare(b.common_name))
+    .map(({ peak: _peak, ...species }) => species);
+}
+
+/** Whether a species is expected in a week or the weeks next to it; the year wraps from week 48 to 1. */
+export function isExpectedInWeek(expected: ExpectedSpeciesByWeek, week: number, scientificName: string): boolean {
+  for (let offset = -EXPECTED_WEEK_TOLERANCE; offset <= EXPECTED_WEEK_TOLERANCE; offset++) {
+    const w = ((week - 1 + offset + WEEKS_PER_YEAR) % WEEKS_PER_YEAR) + 1;
+    if (expected.get(w)?.has(scientificName)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseSpeciesListFile, serializeSpeciesList } from './list-files';
+
+describe('parseSpeciesListFile', () => {
+  it('reads a BirdNET species_list.txt and drops repeats', () => {
+    const txt =
+      '\uFEFFTurdus merula_Eurasian Blackbird\r\n\r\nParus major_Great Tit\nTurdus merula_Eurasian Blackbird\nErithacus rubecula\n';
+    expect(parseSpeciesListFile('species_list.txt', txt)).toEqual({
+      format: 'birdnet',
+      names: [
+        { scientific_name: 'Turdus merula', common_name: 'Eurasian Blackbird' },
+        { scientific_name: 'Parus major', common_name: 'Great Tit' },
+        { scientific_name: 'Erithacus rubecula', common_name: null },
+      ],
+    });
+  });
+
+  it('recognises eBird checklist columns', () => {
+    const csv = [
+      'Submission ID,Common Name,Scientific Name,Taxonomic Order,Count',
+      'S1,"Tit, Great",Parus major,30,2',
+      'S1,Eurasian Blackbird,Turdus merula,25,X',
+    ].join('\n');
+    expect(parseSpeciesListFile('MyEBirdData.csv', csv)).toEqual({
+      format: 'ebird',
+      names: [
+        { scientific_name: 'Parus major', common_name: 'Tit, Great' },
+        { scientific_name: 'Turdus merula', common_name: 'Eurasian Blackbird' },
+      ],
+    });
+  });
+
+  it('reads the first column of a CSV without a known header as scientific names', () => {
+    expect(parseSpeciesListFile('list.csv', 'Parus major\nTurdus merula,x').names).toEqual([
+      { scientific_name: 'Parus major', common_name: null },
+      { scientific_name: 'Turdus merula', common_name: null },
+    ]);
+  });
+});
+
+describe('serializeSpeciesList', () => {
+  const species = [{ scientific_name: 'Parus major', common_name: 'Tit, Great', frequency: 0.5 }];
+
+  it('writes each format so it reads back to the same names', () => {
+    for (const format of ['birdnet', 'csv', 'ebird'] as const) {
+      const fileName = format === 'birdnet' ? 'list.txt' : 'list.csv';
+      const parsed = parseSpeciesListFile(fileName, serializeSpeciesList(format, species));
+      expect(parsed.format).toBe(format);
+      expect(parsed.names).toEqual([{ scientific_name: 'Parus major', common_name: 'Tit, Great' }]);
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { splitCsvLine } from '../import/result-files';
+import type { SpeciesListFileFormat } from '$shared/types';
+
+/** One species as written in an imported list; either name may be missing. */
+export interface ImportedSpeciesName {
+  scientific_name: string | null;
+  common_name: string | null;
+}
+
+export interface ParsedSpeciesListFile {
+  format: SpeciesListFileFormat;
+  names: ImportedSpeciesName[];
+}
+
+/** A species written to an exported list. */
+export interface ExportedSpecies {
+  scientific_name: string;
+  common_name: string;
+  frequency: number | null;
+}
+
+const SCIENTIFIC_HEADERS = new Set(['scientific_name', 'scientific name', 'scientific', 'sci_name']);
+const COMMON_HEADERS = new Set(['common_name', 'common name', 'common', 'english name']);
+
+function splitLines(content: string): string[] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !line.startsWith('#'));
+}
+
+function clean(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed === undefined || trimmed === '' ? null : trimmed;
+}
+
+/** "Genus species_Common Name", one per line; a line without "_" is a scientific name alone. */
+function parseBirdnetList(lines: string[]): ImportedSpeciesName[] {
+  return lines.map((line) => {
+    const sep = line.indexOf('_');
+    if (sep === -1) return { scientific_name: line, common_name: null };
+    return { scientific_name: clean(line.slice(0, sep)), common_name: clean(line.slice(sep + 1)) };
+  });
+}
+
+/**
+ * CSV or tab-separated table with scientific and/or common name columns. eBird
+ * checklist and data downloads are recognised by their "Taxonomic Order" or
+ * "Submission ID" columns. Without a known header the first column is read as a
+ * scientific name.
+ */
+function parseTable(lines: string[]): ParsedSpeciesListFile {
+  const first = lines.at(0) ?? '';
+  const split = first.includes('\t') ? (line: string) => line.split('\t') : splitCsvLine;
+  const header = split(first).map((h) => h.trim().toLowerCase());
+  const sciCol = header.findIndex((h) => SCIENTIFIC_HEADERS.has(h));
+  const commonCol = header.findIndex((h) => COMMON_HEADERS.has(h));
+  const isEbird = header.includes('taxonomic order') || header.includes('submission id');
+  const format: SpeciesListFileFormat = isEbird ? 'ebird' : 'csv';
+
+  if (sciCol === -1 && commonCol === -1) {
+    return { format, names: lines.map((line) => ({ scientific_name: clean(split(line).at(0)), common_name: null })) };
+  }
+  const names = lines.slice(1).map((line) => {
+    const fields = split(line);
+    return {
+      scientific_name: sciCol === -1 ? null : clean(fields.at(sciCol)),
+      common_name: commonCol === -1 ? null : clean(fields.at(commonCol)),
+    };
+  });
+  return { format, names };
+}
+
+/** Read a species list file; repeated species are kept once. */
+export function parseSpeciesListFile(fileName: string, content: string): ParsedSpeciesListFile {
+  const lines = splitLines(content);
+  const parsed = /\.txt$/i.test(fileName)
+    ? { format: 'birdnet' as const, names: parseBirdnetList(lines) }
+    : parseTable(lines);
+
+  const seen = new Set<string>();
+  const names = parsed.names.filter((n) => {
+    if (n.scientific_name === null && n.common_name === null) return false;
+    const key = `${n.scientific_name ?? ''}\0${n.common_name ?? ''}`.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { format: parsed.format, names };
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Write a list in one of the import formats, so it reads back in unchanged. */
+export function serializeSpeciesList(format: SpeciesListFileFormat, species: ExportedSpecies[]): string {
+  if (format === 'birdnet') {
+    return species.map((s) => `${s.scientific_name}_${s.common_name}\n`).join('');
+  }
+  if (format === 'ebird') {
+    // Columns of an eBird checklist download; "X" marks a species seen without a count
+    const rows = species.map((s) => [s.common_name, s.scientific_name, '', 'X'].map(csvField).join(','));
+    return ['Common Name,Scientific Name,Taxonomic Order,Count', ...rows].join('\n') + '\n';
+  }
+  const rows = species.map((s) => [s.scientific_name, s.common_name, s.frequency].map(csvField).join(','));
+  return ['scientific_name,common_name,frequency', ...rows].join('\n') + '\n';
+}
+
+export function speciesListFileExtension(format: SpeciesListFileFormat): string {
+  return format === 'birdnet' ? 'txt' : 'csv';
+}
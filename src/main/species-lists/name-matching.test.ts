@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { buildLabelIndex, levenshtein, matchSpeciesNames } from './name-matching';
+
+const finnish = new Map([
+  ['Parus major', 'Talitiainen'],
+  ['Turdus merula', 'Mustarastas'],
+  ['Turdus pilaris', 'Räkättirastas'],
+]);
+const english = new Map([
+  ['Parus major', 'Great Tit'],
+  ['Turdus merula', 'Eurasian Blackbird'],
+  ['Turdus pilaris', 'Fieldfare'],
+]);
+
+describe('levenshtein', () => {
+  it('counts single-character edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(levenshtein('same', 'same')).toBe(0);
+  });
+});
+
+describe('matchSpeciesNames', () => {
+  const index = buildLabelIndex([finnish, english]);
+
+  it('matches scientific names, subspecies and common names in any indexed language', () => {
+    const result = matchSpeciesNames(
+      [
+        { scientific_name: 'parus  major', common_name: null },
+        { scientific_name: 'Turdus merula merula', common_name: null },
+        { scientific_name: null, common_name: 'fieldfare' },
+        { scientific_name: 'Parus major', common_name: 'Great Tit' },
+      ],
+      index,
+    );
+    expect(result.unmatched).toEqual([]);
+    expect(result.matched).toEqual([
+      { input: 'parus  major', scientific_name: 'Parus major', common_name: 'Talitiainen' },
+      { input: 'Turdus merula merula', scientific_name: 'Turdus merula', common_name: 'Mustarastas' },
+      { input: 'fieldfare', scientific_name: 'Turdus pilaris', common_name: 'Räkättirastas' },
+    ]);
+  });
+
+  it('suggests the closest labels for misspelt names', () => {
+    const result = matchSpeciesNames(
+      [
+        { scientific_name: 'Turdus merola', common_name: null },
+        { scientific_name: 'Corvus corax', common_name: 'Common Raven' },
+      ],
+      index,
+    );
+    expect(result.matched).toEqual([]);
+    expect(result.unmatched).toEqual([
+      {
+        input: 'Turdus merola',
+        suggestions: [{ scientific_name: 'Turdus merula', common_name: 'Mustarastas' }],
+      },
+      { input: 'Corvus corax (Common Raven)', suggestions: [] },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import type { ImportedSpeciesName } from './list-files';
+import type { SpeciesImportMatch, SpeciesImportUnmatched, SpeciesNameCandidate } from '$shared/types';
+
+const MAX_SUGGESTIONS = 3;
+
+/** Label lookups by lowercased scientific and common name. */
+export interface LabelIndex {
+  labels: SpeciesNameCandidate[];
+  byScientific: Map<string, SpeciesNameCandidate>;
+  byCommon: Map<string, SpeciesNameCandidate>;
+}
+
+/**
+ * Index one or more label sets (scientific → common name), e.g. the display language
+ * and English. The first set supplies the common name shown for a species.
+ */
+export function buildLabelIndex(labelSets: Map<string, string>[]): LabelIndex {
+  const byScientific = new Map<string, SpeciesNameCandidate>();
+  const byCommon = new Map<string, SpeciesNameCandidate>();
+  for (const labels of labelSets) {
+    for (const [scientific, common] of labels) {
+      const key = scientific.toLowerCase();
+      const candidate = byScientific.get(key) ?? { scientific_name: scientific, common_name: common };
+      byScientific.set(key, candidate);
+      if (!byCommon.has(common.toLowerCase())) byCommon.set(common.toLowerCase(), candidate);
+    }
+  }
+  return { labels: [...byScientific.values()], byScientific, byCommon };
+}
+
+/** Edit distance between two strings, with one row of the table kept at a time. */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = (previous.at(j - 1) ?? 0) + (a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1);
+      current.push(Math.min((previous.at(j) ?? 0) + 1, (current.at(j - 1) ?? 0) + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous.at(b.length) ?? 0;
+}
+
+function describe(name: ImportedSpeciesName): string {
+  if (name.scientific_name && name.common_name) return `${name.scientific_name} (${name.common_name})`;
+  return name.scientific_name ?? name.common_name ?? '';
+}
+
+/** Exact match on scientific name, then on the binomial of a subspecies, then on common name. */
+export function findExact(name: ImportedSpeciesName, index: LabelIndex): SpeciesNameCandidate | undefined {
+  if (name.scientific_name) {
+    const scientific = name.scientific_name.toLowerCase().replace(/\s+/g, ' ');
+    const binomial = scientific.split(' ').slice(0, 2).join(' ');
+    const match = index.byScientific.get(scientific) ?? index.byScientific.get(binomial);
+    if (match) return match;
+  }
+  return name.common_name ? index.byCommon.get(name.common_name.toLowerCase()) : undefined;
+}
+
+/** Closest labels by edit distance on either name, allowing about a third of the name to differ. */
+function suggest(name: ImportedSpeciesName, index: LabelIndex): SpeciesNameCandidate[] {
+  const scored: { candidate: SpeciesNameCandidate; score: number }[] = [];
+  const queries = [
+    { text: name.scientific_name?.toLowerCase(), field: (c: SpeciesNameCandidate) => c.scientific_name },
+    { text: name.common_name?.toLowerCase(), field: (c: SpeciesNameCandidate) => c.common_name },
+  ];
+  for (const candidate of index.labels) {
+    let best = Infinity;
+    for (const { text, field } of queries) {
+      if (!text) continue;
+      const target = field(candidate).toLowerCase();
+      // Lengths alone rule most labels out without computing the distance
+      const limit = Math.max(2, Math.floor(text.length / 3));
+      if (Math.abs(target.length - text.length) > limit) continue;
+      const distance = levenshtein(text, target);
+      if (distance <= limit) best = Math.min(best, distance / text.length);
+    }
+    if (best !== Infinity) scored.push({ candidate, score: best });
+  }
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((s) => s.candidate);
+}
+
+/** Match imported names to model labels; names without an exact match get the closest labels as suggestions. */
+export function matchSpeciesNames(
+  names: ImportedSpeciesName[],
+  index: LabelIndex,
+): { matched: SpeciesImportMatch[]; unmatched: SpeciesImportUnmatched[] } {
+  const matched: SpeciesImportMatch[] = [];
+  const unmatched: SpeciesImportUnmatched[] = [];
+  const seen = new Set<string>();
+  for (const name of names) {
+    const match = findExact(name, index);
+    if (!match) {
+      unmatched.push({ input: describe(name), suggestions: suggest(name, index) });
+    } else if (!seen.has(match.scientific_name)) {
+      seen.add(match.scientific_name);
+      matched.push({ input: describe(name), ...match });
+    }
+  }
+  return { matched, unmatched };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { combineListEntries, describeSetOperation, type ListEntryValues } from './set-operations';
+
+const entry = (scientific_name: string, frequency: number | null = null, common_name: string | null = null) =>
+  ({ scientific_name, common_name, frequency }) satisfies ListEntryValues;
+
+const week20 = [entry('Parus major', 0.9), entry('Turdus merula', 0.5), entry('Sitta europaea', 0.2)];
+const absent = [entry('Sitta europaea'), entry('Strix aluco')];
+const garden = [entry('Turdus merula', 0.7, 'Eurasian Blackbird'), entry('Parus major', 0.4)];
+
+describe('combineListEntries', () => {
+  it('removes the species on the other lists from the first', () => {
+    expect(combineListEntries('difference', [week20, absent]).map((e) => e.scientific_name)).toEqual([
+      'Parus major',
+      'Turdus merula',
+    ]);
+  });
+
+  it('keeps species on every list with the first list values', () => {
+    expect(combineListEntries('intersection', [week20, garden])).toEqual([
+      entry('Parus major', 0.9),
+      entry('Turdus merula', 0.5),
+    ]);
+  });
+
+  it('merges species with the highest frequency and the first known common name', () => {
+    expect(combineListEntries('union', [week20, garden, absent])).toEqual([
+      entry('Parus major', 0.9),
+      entry('Turdus merula', 0.7, 'Eurasian Blackbird'),
+      entry('Sitta europaea', 0.2),
+      entry('Strix aluco'),
+    ]);
+  });
+});
+
+describe('describeSetOperation', () => {
+  it('joins list names with the operation symbol', () => {
+    expect(describeSetOperation('difference', ['Week 20', 'Known absent'])).toBe('Week 20 − Known absent');
+  });
+});
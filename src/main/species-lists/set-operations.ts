@@ -0,0 +1,45 @@
+import type { SpeciesListEntry, SpeciesListSetOperation } from '$shared/types';
+
+export type ListEntryValues = Pick<SpeciesListEntry, 'scientific_name' | 'common_name' | 'frequency'>;
+
+const OPERATION_SYMBOLS = new Map<SpeciesListSetOperation, string>([
+  ['union', ' ∪ '],
+  ['intersection', ' ∩ '],
+  ['difference', ' − '],
+]);
+
+/** The set expression shown for a combined list, e.g. "Week 20 − Known absent". */
+export function describeSetOperation(operation: SpeciesListSetOperation, listNames: string[]): string {
+  return listNames.join(OPERATION_SYMBOLS.get(operation));
+}
+
+/**
+ * Combine the entries of two or more lists. A species keeps the first common name
+ * found and, in a union, the highest frequency; intersection and difference keep the
+ * values from the first list. Results follow the order of first appearance.
+ */
+export function combineListEntries(operation: SpeciesListSetOperation, lists: ListEntryValues[][]): ListEntryValues[] {
+  const [first = [], ...rest] = lists;
+  if (operation === 'difference') {
+    const removed = new Set(rest.flat().map((e) => e.scientific_name));
+    return first.filter((e) => !removed.has(e.scientific_name));
+  }
+  if (operation === 'intersection') {
+    const others = rest.map((list) => new Set(list.map((e) => e.scientific_name)));
+    return first.filter((e) => others.every((names) => names.has(e.scientific_name)));
+  }
+
+  const merged = new Map<string, ListEntryValues>();
+  for (const entry of lists.flat()) {
+    const existing = merged.get(entry.scientific_name);
+    if (!existing) {
+      merged.set(entry.scientific_name, { ...entry });
+      continue;
+    }
+    existing.common_name ??= entry.common_name;
+    if (entry.frequency !== null && (existing.frequency === null || entry.frequency > existing.frequency)) {
+      existing.frequency = entry.frequency;
+    }
+  }
+  return [...merged.values()];
+}
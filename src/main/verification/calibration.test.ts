@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { fitLogistic, logit, sigmoid, thresholdForPrecision, type CalibrationSample } from './calibration';
+
+/** Samples whose share of correct outcomes follows P(correct) = sigmoid(a + b * logit(confidence)). */
+function synthetic(a: number, b: number): CalibrationSample[] {
+  const samples: CalibrationSample[] = [];
+  for (let c = 0.05; c < 1; c += 0.05) {
+    const p = sigmoid(a + b * logit(c));
+    for (let k = 0; k < 20; k++) samples.push({ confidence: c, correct: k < Math.round(p * 20) });
+  }
+  return samples;
+}
+
+describe('fitLogistic', () => {
+  it('recovers the curve the samples were drawn from', () => {
+    const fit = fitLogistic(synthetic(-1, 2));
+    expect(fit?.intercept).toBeCloseTo(-1, 0);
+    expect(fit?.slope).toBeCloseTo(2, 0);
+  });
+
+  it('needs enough samples of both outcomes', () => {
+    expect(fitLogistic([{ confidence: 0.5, correct: true }])).toBeNull();
+    expect(fitLogistic(Array.from({ length: 20 }, () => ({ confidence: 0.5, correct: true })))).toBeNull();
+  });
+});
+
+describe('thresholdForPrecision', () => {
+  it('returns the confidence where the calibrated probability meets the target', () => {
+    const t = thresholdForPrecision({ intercept: -1, slope: 2 }, 0.9);
+    expect(t).not.toBeNull();
+    expect(sigmoid(-1 + 2 * logit(t ?? 0))).toBeCloseTo(0.9, 5);
+  });
+
+  it('gives no threshold when higher confidence is not more reliable', () => {
+    expect(thresholdForPrecision({ intercept: 1, slope: -0.5 }, 0.9)).toBeNull();
+  });
+});
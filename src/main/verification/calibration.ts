@@ -0,0 +1,79 @@
+/** Verified confidence scores of one species: correct = the reviewer confirmed the species. */
+export interface CalibrationSample {
+  confidence: number;
+  correct: boolean;
+}
+
+/** P(correct) = sigmoid(intercept + slope * logit(confidence)). */
+export interface LogisticFit {
+  intercept: number;
+  slope: number;
+}
+
+/** Fewer verified detections than this give fits too noisy to suggest a threshold from. */
+const MIN_CALIBRATION_SAMPLES = 10;
+
+const EPSILON = 1e-4;
+const MAX_ITERATIONS = 50;
+/** Small ridge penalty keeps the fit finite when confidences separate the classes perfectly. */
+const RIDGE = 1e-2;
+
+export function logit(p: number): number {
+  const clamped = Math.min(1 - EPSILON, Math.max(EPSILON, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+export function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Fit a logistic calibration curve by Newton-Raphson on logit-transformed confidence.
+ * Returns null without enough samples, or when every sample has the same outcome.
+ */
+export function fitLogistic(samples: CalibrationSample[]): LogisticFit | null {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return null;
+  const positives = samples.filter((s) => s.correct).length;
+  if (positives === 0 || positives === samples.length) return null;
+
+  const xs = samples.map((s) => logit(s.confidence));
+  let a = 0;
+  let b = 0;
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    // Gradient and Hessian of the penalized log-likelihood
+    let ga = 0;
+    let gb = -RIDGE * b;
+    let haa = 0;
+    let hab = 0;
+    let hbb = RIDGE;
+    samples.forEach((s, i) => {
+      const x = xs.at(i) ?? 0;
+      const p = sigmoid(a + b * x);
+      const residual = (s.correct ? 1 : 0) - p;
+      const w = p * (1 - p);
+      ga += residual;
+      gb += residual * x;
+      haa += w;
+      hab += w * x;
+      hbb += w * x * x;
+    });
+    const det = haa * hbb - hab * hab;
+    if (det <= 0) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    a += da;
+    b += db;
+    if (Math.abs(da) < 1e-8 && Math.abs(db) < 1e-8) break;
+  }
+  return { intercept: a, slope: b };
+}
+
+/**
+ * Confidence at which the calibrated probability of a correct detection reaches
+ * `targetPrecision`. Null when confidence does not increase the odds of being correct.
+ */
+export function thresholdForPrecision(fit: LogisticFit, targetPrecision: number): number | null {
+  if (fit.slope <= 0) return null;
+  const confidence = sigmoid((logit(targetPrecision) - fit.intercept) / fit.slope);
+  return Math.min(0.99, Math.max(0.01, confidence));
+}
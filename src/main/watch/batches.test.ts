@@ -0,0 +1,48 @@
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { SETTLE_MS, findReadyBatches, isSettled } from './batches';
+
+const NOW = 1_750_000_000_000;
+const card = path.join('/nas', 'moth-01');
+
+function snapshots(entries: [string, number, number][]) {
+  return new Map(entries.map(([name, size, age]) => [path.join(card, name), { size, mtimeMs: NOW - age }]));
+}
+
+describe('isSettled', () => {
+  it('needs a previous scan with the same size and a quiet period', () => {
+    const current = { size: 100, mtimeMs: NOW - SETTLE_MS };
+    expect(isSettled(undefined, current, NOW)).toBe(false);
+    expect(isSettled({ size: 90, mtimeMs: NOW - SETTLE_MS }, current, NOW)).toBe(false);
+    expect(isSettled(current, { size: 100, mtimeMs: NOW - 1000 }, NOW)).toBe(false);
+    expect(isSettled(current, current, NOW)).toBe(true);
+  });
+});
+
+describe('findReadyBatches', () => {
+  it('holds a folder back until every new file in it has finished copying', () => {
+    const previous = snapshots([
+      ['20250501_050000.WAV', 100, SETTLE_MS],
+      ['20250501_060000.WAV', 50, SETTLE_MS],
+    ]);
+    const copying = snapshots([
+      ['20250501_050000.WAV', 100, SETTLE_MS],
+      ['20250501_060000.WAV', 80, 0],
+    ]);
+    expect(findReadyBatches(previous, copying, NOW, () => false).size).toBe(0);
+
+    const done = snapshots([
+      ['20250501_050000.WAV', 100, SETTLE_MS],
+      ['20250501_060000.WAV', 80, SETTLE_MS],
+    ]);
+    expect(findReadyBatches(done, done, NOW, () => false).get(card)).toEqual([
+      path.join(card, '20250501_050000.WAV'),
+      path.join(card, '20250501_060000.WAV'),
+    ]);
+  });
+
+  it('skips files that are already analyzed', () => {
+    const files = snapshots([['20250501_050000.WAV', 100, SETTLE_MS]]);
+    expect(findReadyBatches(files, files, NOW, () => true).size).toBe(0);
+  });
+});
@@ -0,0 +1,45 @@
+import path from 'path';
+
+/** Size and modification time of an audio file at one scan. */
+export interface FileSnapshot {
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Quiet time before a file counts as fully copied. Copies over SMB or from a card
+ * reader can stall for several seconds, so an unchanged size alone is not enough.
+ */
+export const SETTLE_MS = 60_000;
+
+/** Unchanged since the previous scan and not written to for SETTLE_MS. */
+export function isSettled(previous: FileSnapshot | undefined, current: FileSnapshot, now: number): boolean {
+  return previous?.size === current.size && previous.mtimeMs === current.mtimeMs && now - current.mtimeMs >= SETTLE_MS;
+}
+
+/**
+ * New files grouped by the folder they sit in. A card dump is analyzed as one run,
+ * so a folder is held back while any of its new files is still being copied.
+ */
+export function findReadyBatches(
+  previous: Map<string, FileSnapshot>,
+  current: Map<string, FileSnapshot>,
+  now: number,
+  isKnown: (filePath: string) => boolean,
+): Map<string, string[]> {
+  const byFolder = new Map<string, { files: string[]; settled: boolean }>();
+  for (const [filePath, snapshot] of current) {
+    if (isKnown(filePath)) continue;
+    const folder = path.dirname(filePath);
+    const batch = byFolder.get(folder) ?? { files: [], settled: true };
+    batch.files.push(filePath);
+    batch.settled = batch.settled && isSettled(previous.get(filePath), snapshot, now);
+    byFolder.set(folder, batch);
+  }
+
+  const ready = new Map<string, string[]>();
+  for (const [folder, batch] of byFolder) {
+    if (batch.settled) ready.set(folder, batch.files.sort());
+  }
+  return ready;
+}
@@ -0,0 +1,166 @@
+import { BrowserWindow, Notification } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { getAnalyzedFilePaths } from '../db/audio-files';
+import { listJobs } from '../db/analysis-jobs';
+import { findLatestRunForSource } from '../db/runs';
+import { isAudioFile } from '../ipc/files';
+import { queueAnalysis } from '../ipc/queue';
+import { settingsStore } from '../settings/store';
+import { findReadyBatches, type FileSnapshot } from './batches';
+import type { AnalysisJobStatus, AnalysisRequest, WatchFolder, WatchFolderStatus } from '$shared/types';
+
+// Polling rather than fs.watch: network shares often deliver no change events at all
+const POLL_INTERVAL_MS = 30_000;
+
+const OPEN_JOB_STATUSES = new Set<AnalysisJobStatus>(['pending', 'running', 'paused']);
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let scanning = false;
+// Latest scan of each watched folder, compared with the next to see when copying has finished
+const snapshots = new Map<string, Map<string, FileSnapshot>>();
+const statuses = new Map<string, WatchFolderStatus>();
+// Sub-folders with a job queued by this session
+const queuedFolders = new Set<string>();
+// Files birda could not import; retried after a restart rather than every poll
+const failedFiles = new Set<string>();
+
+async function listAudioFiles(root: string): Promise<Map<string, FileSnapshot>> {
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  const entries = await fs.promises.readdir(root, { recursive: true });
+  const files = new Map<string, FileSnapshot>();
+  for (const entry of entries.filter(isAudioFile)) {
+    const filePath = path.join(root, entry);
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      const stat = await fs.promises.stat(filePath);
+      if (stat.isFile()) files.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs });
+    } catch {
+      // Moved or deleted between listing and stat
+    }
+  }
+  return files;
+}
+
+/** A job from an earlier session may still be waiting in the queue for this folder. */
+function hasOpenJob(folder: string): boolean {
+  return listJobs().some((job) => job.request.source_path === folder && OPEN_JOB_STATUSES.has(job.status));
+}
+
+function notify(title: string, body: string): void {
+  if (!Notification.isSupported()) return;
+  const notification = new Notification({ title, body });
+  notification.on('click', () => {
+    const win = BrowserWindow.getAllWindows().at(0);
+    if (!win) return;
+    if (win.isMinimized()) win.restore();
+    win.focus();
+  });
+  notification.show();
+}
+
+/** Analyze new files in one folder; a folder analyzed before continues its run so only new files are added. */
+function queueBatch(watch: WatchFolder, folder: string, files: string[]): void {
+  const previousRun = findLatestRunForSource(folder, watch.model);
+  const request: AnalysisRequest = {
+    source_path: folder,
+    model: watch.model,
+    min_confidence: watch.min_confidence,
+    latitude: watch.latitude,
+    longitude: watch.longitude,
+    location_name: watch.location_name,
+    resume_run_id: previousRun?.id,
+  };
+  queuedFolders.add(folder);
+  console.log(`[watch] Queued ${files.length} new file(s) in ${folder}`);
+
+  const { done } = queueAnalysis(request);
+  done
+    .then(({ status }) => {
+      // Cancelled files are skipped too, so the next poll does not undo the cancel
+      const analyzed = getAnalyzedFilePaths(files);
+      const missed = files.filter((f) => !analyzed.has(f));
+      for (const file of missed) failedFiles.add(file);
+      if (status === 'cancelled') return;
+      notify(
+        status === 'failed' ? 'Watch folder analysis failed' : 'New recordings analyzed',
+        `${files.length - missed.length} of ${files.length} new file(s) in ${folder}`,
+      );
+    })
+    .catch((err: unknown) => {
+      for (const file of files) failedFiles.add(file);
+      notify('Watch folder analysis failed', `${folder}: ${(err as Error).message}`);
+    })
+    .finally(() => {
+      queuedFolders.delete(folder);
+    });
+}
+
+async function scanFolder(watch: WatchFolder): Promise<void> {
+  const status: WatchFolderStatus = statuses.get(watch.path) ?? {
+    path: watch.path,
+    waiting_files: 0,
+    queued_batches: 0,
+    last_scan: null,
+    error: null,
+  };
+  try {
+    const current = await listAudioFiles(watch.path);
+    const previous = snapshots.get(watch.path) ?? new Map<string, FileSnapshot>();
+    snapshots.set(watch.path, current);
+
+    const candidates = [...current.keys()].filter((f) => !failedFiles.has(f));
+    const analyzed = getAnalyzedFilePaths(candidates);
+    const isKnown = (filePath: string) => analyzed.has(filePath) || failedFiles.has(filePath);
+    for (const [folder, files] of findReadyBatches(previous, current, Date.now(), isKnown)) {
+      if (queuedFolders.has(folder) || hasOpenJob(folder)) continue;
+      queueBatch(watch, folder, files);
+    }
+
+    status.waiting_files = candidates.filter((f) => !analyzed.has(f)).length;
+    status.queued_batches = [...queuedFolders].filter((f) => f.startsWith(watch.path)).length;
+    status.error = null;
+  } catch (err) {
+    status.error = (err as Error).message;
+  }
+  status.last_scan = new Date().toISOString();
+  statuses.set(watch.path, status);
+}
+
+async function scanAll(): Promise<void> {
+  if (scanning) return;
+  scanning = true;
+  try {
+    const { watch_folders } = await settingsStore.get();
+    const enabled = watch_folders.filter((w) => w.enabled);
+    for (const watch of enabled) {
+      await scanFolder(watch);
+    }
+    // Forget folders that were removed or switched off
+    const active = new Set(enabled.map((w) => w.path));
+    for (const folder of [...snapshots.keys()].filter((f) => !active.has(f))) {
+      snapshots.delete(folder);
+      statuses.delete(folder);
+    }
+  } catch (err) {
+    console.error('[watch] Scan failed:', err);
+  } finally {
+    scanning = false;
+  }
+}
+
+/** Poll the watched folders from settings until the app quits. */
+export function startWatching(): void {
+  if (timer) return;
+  timer = setInterval(() => void scanAll(), POLL_INTERVAL_MS);
+  void scanAll();
+}
+
+/** Scan right away, e.g. after the watched folders changed. */
+export function rescanWatchFolders(): void {
+  void scanAll();
+}
+
+export function getWatchStatuses(): WatchFolderStatus[] {
+  return [...statuses.values()];
+}
@@ -4,13 +4,23 @@ const ALLOWED_INVOKE_CHANNELS = new Set([
   'annotations:list',
   'annotations:upsert',
   'annotations:delete',
+  'annotations:verify',
   'annotations:resolve-file',
+  'annotations:export-dataset',
   'app:get-settings',
   'app:set-settings',
   'app:check-birda',
   'app:get-log',
   'birda:analyze',
   'birda:cancel-analysis',
+  'queue:list',
+  'queue:enqueue',
+  'queue:resume-run',
+  'queue:move',
+  'queue:pause',
+  'queue:resume',
+  'queue:remove',
+  'queue:clear-finished',
   'birda:config-show',
   'birda:config-path',
   'birda:models-list',
@@ -28,8 +38,11 @@ const ALLOWED_INVOKE_CHANNELS = new Set([
   'catalog:get-runs',
   'catalog:delete-run',
   'catalog:get-detections',
+  'catalog:export-detections',
   'catalog:get-run-species',
   'catalog:get-hourly-detections',
+  'catalog:get-sun-activity',
+  'catalog:verification-stats',
   'catalog:search-species',
   'catalog:get-species-summary',
   'catalog:species-locations',
@@ -41,6 +54,32 @@ const ALLOWED_INVOKE_CHANNELS = new Set([
   'catalog:db-health',
   'catalog:db-optimize',
   'catalog:db-vacuum',
+  'deployments:list',
+  'deployments:known-devices',
+  'deployments:create',
+  'deployments:update',
+  'deployments:delete',
+  'presets:list',
+  'presets:create',
+  'presets:update',
+  'presets:delete',
+  'devices:list',
+  'devices:health',
+  'effort:locations',
+  'effort:location',
+  'effort:by-hour',
+  'evaluation:runs',
+  'phenology:get',
+  'comparison:sites',
+  'comparison:runs',
+  'ensembles:combine',
+  'import:preview-results',
+  'import:results',
+  'import:annotations',
+  'recording:overview-info',
+  'recording:overview',
+  'recording:cancel-overview',
+  'recording:region-wav',
   'labels:resolve-all',
   'labels:search-by-common-name',
   'labels:available-languages',
@@ -50,6 +89,20 @@ const ALLOWED_INVOKE_CHANNELS = new Set([
   'species:get-lists',
   'species:get-entries',
   'species:delete-list',
+  'species:rename-list',
+  'species:add-entries',
+  'species:remove-entries',
+  'species:duplicate-list',
+  'species:combine-lists',
+  'species:get-history',
+  'site-profiles:get',
+  'site-profiles:build',
+  'site-profiles:delete',
+  'species:import-preview',
+  'species:export-list',
+  'thresholds:calibrate',
+  'thresholds:set',
+  'watch:status',
   'fs:open-file-dialog',
   'fs:open-executable-dialog',
   'fs:open-folder-dialog',
@@ -70,8 +123,11 @@ const ALLOWED_INVOKE_CHANNELS = new Set([
 
 const ALLOWED_RECEIVE_CHANNELS = new Set([
   'birda:analysis-progress',
+  'queue:updated',
+  'recording:overview-chunk',
   'birda:models-install-progress',
   'cuda:download-progress',
+  'site-profiles:progress',
   'app:log',
   'menu:open-file',
   'menu:open-folder',
@@ -1,4 +1,4 @@
-export type Tab = 'analysis' | 'detections' | 'map' | 'species' | 'settings';
+export type Tab = 'analysis' | 'detections' | 'map' | 'species' | 'devices' | 'settings';
 
 interface AppState {
   activeTab: Tab;
@@ -7,6 +7,8 @@ interface AppState {
   sourcePath: string | null;
   selectedModel: string;
   minConfidence: number;
+  /** Let stored per-species thresholds override minConfidence in catalog views. */
+  useSpeciesThresholds: boolean;
   analysisConfidence: number;
   catalogStats: {
     total_detections: number;
@@ -30,6 +32,7 @@ export const appState = $state<AppState>({
   sourcePath: null,
   selectedModel: 'birdnet-v24',
   minConfidence: 0.5,
+  useSpeciesThresholds: false,
   analysisConfidence: 0.1,
   catalogStats: {
     total_detections: 0,
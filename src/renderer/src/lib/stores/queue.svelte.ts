@@ -0,0 +1,44 @@
+import type { AnalysisJob } from '$shared/types';
+import { analysisState, resetAnalysis } from '$lib/stores/analysis.svelte';
+import { appState } from '$lib/stores/app.svelte';
+
+interface QueueState {
+  jobs: AnalysisJob[];
+}
+
+/** Mirror of the main-process analysis queue, refreshed from queue:updated broadcasts. */
+export const queueState = $state<QueueState>({ jobs: [] });
+
+let runningJobId: number | null = null;
+
+/** Jobs still waiting to run (pending or paused). */
+export function waitingJobs(): AnalysisJob[] {
+  return queueState.jobs.filter((j) => j.status === 'pending' || j.status === 'paused');
+}
+
+/**
+ * Apply a queue snapshot. Progress events carry no job id, so the progress panel
+ * is reset whenever a different job starts running and settled when it stops.
+ */
+export function handleQueueUpdate(jobs: AnalysisJob[]): void {
+  queueState.jobs = jobs;
+  const running = jobs.find((j) => j.status === 'running');
+
+  if (running && running.id !== runningJobId) {
+    resetAnalysis();
+    analysisState.status = 'running';
+  } else if (!running && runningJobId !== null && analysisState.status === 'running') {
+    const finished = jobs.find((j) => j.id === runningJobId);
+    if (finished?.status === 'failed') {
+      analysisState.status = 'failed';
+      analysisState.error = finished.error;
+    } else if (finished?.status === 'completed' || finished?.status === 'completed_with_errors') {
+      analysisState.status = 'completed';
+    } else {
+      resetAnalysis();
+    }
+  }
+
+  runningJobId = running?.id ?? null;
+  appState.isAnalysisRunning = running !== undefined;
+}
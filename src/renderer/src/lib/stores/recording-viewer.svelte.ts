@@ -0,0 +1,104 @@
+import { SvelteMap } from 'svelte/reactivity';
+import type { EnrichedDetection } from '$shared/types';
+import { getDetections } from '$lib/utils/ipc';
+
+/** One species row of the detection timeline. */
+interface SpeciesLane {
+  scientific_name: string;
+  common_name: string;
+  color: string;
+  detections: EnrichedDetection[];
+}
+
+interface RecordingViewerState {
+  open: boolean;
+  audioFileId: number | null;
+  filePath: string | null;
+  /** Time to zoom into on open (e.g. the detection the viewer was opened from). */
+  focusTime: number | null;
+  lanes: SpeciesLane[];
+  /** Duration known from the catalog, used until the overview reports the exact one. */
+  durationSec: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const MAX_LANE_DETECTIONS = 50000;
+
+export const recordingViewer = $state<RecordingViewerState>({
+  open: false,
+  audioFileId: null,
+  filePath: null,
+  focusTime: null,
+  lanes: [],
+  durationSec: null,
+  loading: false,
+  error: null,
+});
+
+/** Golden-angle hues keep neighbouring lanes visually distinct however many species there are. */
+export function laneColor(index: number, alpha = 1): string {
+  return `hsla(${(index * 137.508) % 360}, 70%, 55%, ${alpha})`;
+}
+
+export function openRecordingViewer(audioFileId: number, filePath: string, focusTime: number | null = null): void {
+  recordingViewer.open = true;
+  recordingViewer.audioFileId = audioFileId;
+  recordingViewer.filePath = filePath;
+  recordingViewer.focusTime = focusTime;
+  recordingViewer.lanes = [];
+  recordingViewer.durationSec = null;
+  recordingViewer.error = null;
+  void loadLanes();
+}
+
+export function closeRecordingViewer(): void {
+  recordingViewer.open = false;
+  recordingViewer.audioFileId = null;
+  recordingViewer.filePath = null;
+  recordingViewer.focusTime = null;
+  recordingViewer.lanes = [];
+  recordingViewer.durationSec = null;
+  recordingViewer.loading = false;
+  recordingViewer.error = null;
+}
+
+async function loadLanes(): Promise<void> {
+  const audioFileId = recordingViewer.audioFileId;
+  if (audioFileId === null) return;
+  recordingViewer.loading = true;
+  try {
+    const { detections } = await getDetections({
+      audio_file_id: audioFileId,
+      limit: MAX_LANE_DETECTIONS,
+      offset: 0,
+      sort_column: 'start_time',
+      sort_dir: 'asc',
+    });
+    // The viewer may have been closed or pointed at another file while loading.
+    if (recordingViewer.audioFileId !== audioFileId) return;
+
+    const bySpecies = new SvelteMap<string, EnrichedDetection[]>();
+    for (const d of detections) {
+      const list = bySpecies.get(d.scientific_name);
+      if (list) list.push(d);
+      else bySpecies.set(d.scientific_name, [d]);
+    }
+    // Busiest species first, so the lanes that matter most stay above the fold
+    recordingViewer.lanes = [...bySpecies.values()]
+      .sort((a, b) => b.length - a.length)
+      .map((list, i) => ({
+        scientific_name: list[0].scientific_name,
+        common_name: list[0].common_name,
+        color: laneColor(i),
+        detections: list,
+      }));
+    recordingViewer.durationSec = detections.find((d) => d.audio_file?.duration_sec)?.audio_file?.duration_sec ?? null;
+  } catch (err) {
+    if (recordingViewer.audioFileId === audioFileId) {
+      recordingViewer.error = err instanceof Error ? err.message : String(err);
+    }
+  } finally {
+    if (recordingViewer.audioFileId === audioFileId) recordingViewer.loading = false;
+  }
+}
@@ -0,0 +1,124 @@
+import { SvelteMap } from 'svelte/reactivity';
+import type { DetectionFilter, EnrichedDetection, SpeciesVerificationStats, VerificationVerdict } from '$shared/types';
+import { getDetections, getVerificationStats, verifyDetection } from '$lib/utils/ipc';
+import { showToast } from '$lib/stores/toast.svelte';
+
+interface VerificationState {
+  open: boolean;
+  /** Run, species and species-list scope the queue was opened with; the confidence band is edited in the reviewer. */
+  filter: DetectionFilter;
+  minConfidence: number;
+  maxConfidence: number;
+  queue: EnrichedDetection[];
+  /** Unverified detections matching the filter, which may exceed the queue length. */
+  total: number;
+  index: number;
+  stats: SpeciesVerificationStats[];
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const MAX_QUEUE = 5000;
+
+export const verification = $state<VerificationState>({
+  open: false,
+  filter: {},
+  minConfidence: 0,
+  maxConfidence: 1,
+  queue: [],
+  total: 0,
+  index: 0,
+  stats: [],
+  loading: false,
+  saving: false,
+  error: null,
+});
+
+/** Verdicts given in this session, keyed by detection id, so stepping back shows the earlier ruling. */
+export const sessionVerdicts = new SvelteMap<number, VerificationVerdict>();
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function bandFilter(): DetectionFilter {
+  return {
+    ...verification.filter,
+    min_confidence: verification.minConfidence || undefined,
+    max_confidence: verification.maxConfidence < 1 ? verification.maxConfidence : undefined,
+  };
+}
+
+export function currentDetection(): EnrichedDetection | null {
+  return verification.queue.at(verification.index) ?? null;
+}
+
+export function openVerification(filter: DetectionFilter, minConfidence: number): void {
+  verification.open = true;
+  verification.filter = filter;
+  verification.minConfidence = minConfidence;
+  verification.maxConfidence = 1;
+  verification.error = null;
+  sessionVerdicts.clear();
+  void loadQueue();
+}
+
+export function closeVerification(): void {
+  verification.open = false;
+  verification.queue = [];
+  verification.total = 0;
+  verification.index = 0;
+  verification.stats = [];
+  verification.error = null;
+  sessionVerdicts.clear();
+}
+
+/** Rebuild the queue from the still-unverified detections in the current confidence band. */
+export async function loadQueue(): Promise<void> {
+  verification.loading = true;
+  verification.error = null;
+  try {
+    const { detections, total } = await getDetections({
+      ...bandFilter(),
+      unverified_only: true,
+      sort_column: 'confidence',
+      sort_dir: 'desc',
+      limit: MAX_QUEUE,
+      offset: 0,
+    });
+    verification.queue = detections;
+    verification.total = total;
+    verification.index = 0;
+    await refreshStats();
+  } catch (err) {
+    verification.error = errorMessage(err);
+  } finally {
+    verification.loading = false;
+  }
+}
+
+async function refreshStats(): Promise<void> {
+  verification.stats = await getVerificationStats(bandFilter());
+}
+
+/** Record a verdict on the current detection and advance to the next one. */
+export async function decide(verdict: VerificationVerdict, scientificName?: string): Promise<void> {
+  const detection = currentDetection();
+  if (!detection || verification.saving) return;
+  verification.saving = true;
+  try {
+    await verifyDetection(detection.id, verdict, scientificName);
+    sessionVerdicts.set(detection.id, verdict);
+    verification.index = Math.min(verification.index + 1, verification.queue.length);
+    await refreshStats();
+  } catch (err) {
+    showToast(errorMessage(err), { severity: 'error' });
+  } finally {
+    verification.saving = false;
+  }
+}
+
+export function step(delta: number): void {
+  verification.index = Math.max(0, Math.min(verification.queue.length, verification.index + delta));
+}
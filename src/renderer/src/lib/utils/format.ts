@@ -46,6 +46,19 @@ export function formatNumber(n: number): string {
   return n.toLocaleString();
 }
 
+/** Recorded seconds as hours, with one decimal below ten hours. */
+export function formatHours(seconds: number): string {
+  const hours = seconds / 3600;
+  return hours < 10
+    ? hours.toLocaleString(undefined, { maximumFractionDigits: 1 })
+    : Math.round(hours).toLocaleString();
+}
+
+/** Detections per recorded hour, with one decimal below ten. */
+export function formatRate(rate: number): string {
+  return rate < 10 ? rate.toLocaleString(undefined, { maximumFractionDigits: 1 }) : Math.round(rate).toLocaleString();
+}
+
 /**
  * Parse recording start time from AudioMoth-style filenames: YYYYMMDD_HHMMSS
  * Returns null if the filename doesn't match the pattern.
@@ -1,13 +1,46 @@
 import type {
+  AnnotationImportResult,
+  AnalysisJob,
+  AnalysisPreset,
+  AnalysisPresetInput,
   AnalysisRequest,
   Annotation,
   AnnotationInput,
+  SpeciesVerificationStats,
+  SpeciesCalibration,
+  VerificationVerdict,
   EnrichedDetection,
   DetectionFilter,
+  DetectionExportFormat,
+  DetectionExportResult,
+  TrainingDatasetFormat,
+  TrainingDatasetResult,
+  ResultsImportPreview,
+  ResultsImportRequest,
+  ResultsImportResult,
+  RecordingOverviewChunk,
+  RecordingOverviewInfo,
   EnrichedSpeciesSummary,
   RunSpeciesAggregation,
   HourlyDetectionCell,
+  SunActivity,
+  SunAnchor,
   Location,
+  Deployment,
+  DeploymentInput,
+  DeploymentWithStats,
+  DeviceHealth,
+  DeviceSummary,
+  HourlyEffort,
+  LocationEffort,
+  LocationEffortSummary,
+  Phenology,
+  ModelEvaluation,
+  ComparisonSite,
+  SiteComparison,
+  RunDiff,
+  EnsembleMethod,
+  EnsembleResult,
   InstalledModel,
   AvailableModel,
   AppSettings,
@@ -15,6 +48,10 @@ import type {
   SourceScanResult,
   RunWithStats,
   SpeciesList,
+  SpeciesListFileFormat,
+  SpeciesListImportPreview,
+  SpeciesListSetOperation,
+  SpeciesListChange,
   EnrichedSpeciesListEntry,
   SpeciesFetchRequest,
   BirdaSpeciesResponse,
@@ -29,6 +66,9 @@ import type {
   CudaDownloadResult,
   DatabaseHealthResult,
   ClearDatabaseResult,
+  WatchFolderStatus,
+  SiteProfile,
+  SiteProfileProgress,
 } from '$shared/types';
 
 declare global {
@@ -58,6 +98,48 @@ export function offAnalysisProgress(): void {
   window.birda.removeAllListeners('birda:analysis-progress');
 }
 
+// Analysis queue
+export function getAnalysisQueue(): Promise<AnalysisJob[]> {
+  return window.birda.invoke('queue:list') as Promise<AnalysisJob[]>;
+}
+
+/** Every job the request became: one, or one per model of an ensemble. */
+export function enqueueAnalysis(request: AnalysisRequest): Promise<AnalysisJob[]> {
+  return window.birda.invoke('queue:enqueue', request) as Promise<AnalysisJob[]>;
+}
+
+export function resumeRun(runId: number): Promise<AnalysisJob[]> {
+  return window.birda.invoke('queue:resume-run', runId) as Promise<AnalysisJob[]>;
+}
+
+export function moveAnalysisJob(id: number, direction: 'up' | 'down'): Promise<void> {
+  return window.birda.invoke('queue:move', id, direction) as Promise<void>;
+}
+
+export function pauseAnalysisJob(id: number): Promise<void> {
+  return window.birda.invoke('queue:pause', id) as Promise<void>;
+}
+
+export function resumeAnalysisJob(id: number): Promise<void> {
+  return window.birda.invoke('queue:resume', id) as Promise<void>;
+}
+
+export function removeAnalysisJob(id: number): Promise<void> {
+  return window.birda.invoke('queue:remove', id) as Promise<void>;
+}
+
+export function clearFinishedAnalysisJobs(): Promise<void> {
+  return window.birda.invoke('queue:clear-finished') as Promise<void>;
+}
+
+export function onQueueUpdated(callback: (jobs: AnalysisJob[]) => void): void {
+  window.birda.on('queue:updated', callback as (...args: unknown[]) => void);
+}
+
+export function offQueueUpdated(): void {
+  window.birda.removeAllListeners('queue:updated');
+}
+
 // Catalog
 export function getRuns(): Promise<RunWithStats[]> {
   return window.birda.invoke('catalog:get-runs') as Promise<RunWithStats[]>;
@@ -74,6 +156,25 @@ export function getDetections(filter: DetectionFilter): Promise<{ detections: En
   }>;
 }
 
+export function exportDetections(
+  filter: DetectionFilter,
+  format: DetectionExportFormat,
+): Promise<DetectionExportResult | null> {
+  return window.birda.invoke('catalog:export-detections', filter, format) as Promise<DetectionExportResult | null>;
+}
+
+export function previewResultsImport(resultsPath: string, audioPath: string): Promise<ResultsImportPreview> {
+  return window.birda.invoke('import:preview-results', resultsPath, audioPath) as Promise<ResultsImportPreview>;
+}
+
+export function importResults(request: ResultsImportRequest): Promise<ResultsImportResult> {
+  return window.birda.invoke('import:results', request) as Promise<ResultsImportResult>;
+}
+
+export function importAnnotations(runId: number | null): Promise<AnnotationImportResult | null> {
+  return window.birda.invoke('import:annotations', runId) as Promise<AnnotationImportResult | null>;
+}
+
 export function getRunSpecies(filter: DetectionFilter): Promise<RunSpeciesAggregation[]> {
   return window.birda.invoke('catalog:get-run-species', filter) as Promise<RunSpeciesAggregation[]>;
 }
@@ -82,6 +183,22 @@ export function getHourlyDetections(filter: DetectionFilter): Promise<HourlyDete
   return window.birda.invoke('catalog:get-hourly-detections', filter) as Promise<HourlyDetectionCell[]>;
 }
 
+export function getSunActivity(filter: DetectionFilter, anchor: SunAnchor, binMinutes: number): Promise<SunActivity> {
+  return window.birda.invoke('catalog:get-sun-activity', filter, anchor, binMinutes) as Promise<SunActivity>;
+}
+
+export function getVerificationStats(filter: DetectionFilter): Promise<SpeciesVerificationStats[]> {
+  return window.birda.invoke('catalog:verification-stats', filter) as Promise<SpeciesVerificationStats[]>;
+}
+
+export function getSpeciesCalibration(targetPrecision: number): Promise<SpeciesCalibration[]> {
+  return window.birda.invoke('thresholds:calibrate', targetPrecision) as Promise<SpeciesCalibration[]>;
+}
+
+export function setSpeciesThreshold(scientificName: string, threshold: number | null): Promise<void> {
+  return window.birda.invoke('thresholds:set', scientificName, threshold) as Promise<void>;
+}
+
 export function searchSpecies(query: string): Promise<EnrichedSpeciesSummary[]> {
   return window.birda.invoke('catalog:search-species', query) as Promise<EnrichedSpeciesSummary[]>;
 }
@@ -106,6 +223,120 @@ export function getLocationsWithCounts(): Promise<(Location & { detection_count:
   >;
 }
 
+// Deployments
+export function getDeployments(): Promise<DeploymentWithStats[]> {
+  return window.birda.invoke('deployments:list') as Promise<DeploymentWithStats[]>;
+}
+
+export function getKnownDeviceIds(): Promise<string[]> {
+  return window.birda.invoke('deployments:known-devices') as Promise<string[]>;
+}
+
+export function createDeployment(input: DeploymentInput): Promise<Deployment> {
+  return window.birda.invoke('deployments:create', input) as Promise<Deployment>;
+}
+
+export function updateDeployment(id: number, input: DeploymentInput): Promise<Deployment> {
+  return window.birda.invoke('deployments:update', id, input) as Promise<Deployment>;
+}
+
+export function deleteDeployment(id: number): Promise<void> {
+  return window.birda.invoke('deployments:delete', id) as Promise<void>;
+}
+
+// Analysis presets
+export function getPresets(): Promise<AnalysisPreset[]> {
+  return window.birda.invoke('presets:list') as Promise<AnalysisPreset[]>;
+}
+
+export function createPreset(input: AnalysisPresetInput): Promise<AnalysisPreset> {
+  return window.birda.invoke('presets:create', input) as Promise<AnalysisPreset>;
+}
+
+export function updatePreset(id: number, input: AnalysisPresetInput): Promise<AnalysisPreset> {
+  return window.birda.invoke('presets:update', id, input) as Promise<AnalysisPreset>;
+}
+
+export function deletePreset(id: number): Promise<void> {
+  return window.birda.invoke('presets:delete', id) as Promise<void>;
+}
+
+// Device health
+export function getDevices(): Promise<DeviceSummary[]> {
+  return window.birda.invoke('devices:list') as Promise<DeviceSummary[]>;
+}
+
+export function getDeviceHealth(deviceId: string): Promise<DeviceHealth> {
+  return window.birda.invoke('devices:health', deviceId) as Promise<DeviceHealth>;
+}
+
+// Recording effort
+export function getEffortLocations(): Promise<LocationEffortSummary[]> {
+  return window.birda.invoke('effort:locations') as Promise<LocationEffortSummary[]>;
+}
+
+export function getLocationEffort(locationId: number): Promise<LocationEffort> {
+  return window.birda.invoke('effort:location', locationId) as Promise<LocationEffort>;
+}
+
+export function getHourlyEffort(filter: DetectionFilter): Promise<HourlyEffort> {
+  return window.birda.invoke('effort:by-hour', filter) as Promise<HourlyEffort>;
+}
+
+// Ensembles
+export function combineEnsemble(
+  ensembleId: number,
+  method: EnsembleMethod,
+  threshold: number,
+): Promise<EnsembleResult> {
+  return window.birda.invoke('ensembles:combine', ensembleId, method, threshold) as Promise<EnsembleResult>;
+}
+
+// Model evaluation
+export function evaluateRuns(runIds: number[], threshold: number): Promise<ModelEvaluation[]> {
+  return window.birda.invoke('evaluation:runs', runIds, threshold) as Promise<ModelEvaluation[]>;
+}
+
+// Phenology
+export function getPhenology(filter: DetectionFilter): Promise<Phenology> {
+  return window.birda.invoke('phenology:get', filter) as Promise<Phenology>;
+}
+
+// Site comparison
+export function compareSites(sites: ComparisonSite[], minConfidence: number): Promise<SiteComparison> {
+  return window.birda.invoke('comparison:sites', sites, minConfidence) as Promise<SiteComparison>;
+}
+
+export function diffRuns(runA: number, runB: number, threshold: number): Promise<RunDiff> {
+  return window.birda.invoke('comparison:runs', runA, runB, threshold) as Promise<RunDiff>;
+}
+
+// Site profiles
+export function getSiteProfile(locationId: number): Promise<SiteProfile | null> {
+  return window.birda.invoke('site-profiles:get', locationId) as Promise<SiteProfile | null>;
+}
+
+export function buildSiteProfile(locationId: number, threshold: number): Promise<SiteProfile> {
+  return window.birda.invoke('site-profiles:build', locationId, threshold) as Promise<SiteProfile>;
+}
+
+export function deleteSiteProfile(locationId: number): Promise<void> {
+  return window.birda.invoke('site-profiles:delete', locationId) as Promise<void>;
+}
+
+export function onSiteProfileProgress(callback: (progress: SiteProfileProgress) => void): void {
+  window.birda.on('site-profiles:progress', callback as unknown as (...args: unknown[]) => void);
+}
+
+export function offSiteProfileProgress(): void {
+  window.birda.removeAllListeners('site-profiles:progress');
+}
+
+// Watch folders
+export function getWatchStatuses(): Promise<WatchFolderStatus[]> {
+  return window.birda.invoke('watch:status') as Promise<WatchFolderStatus[]>;
+}
+
 export function getCatalogStats(): Promise<CatalogStats> {
   return window.birda.invoke('catalog:stats') as Promise<CatalogStats>;
 }
@@ -297,6 +528,40 @@ export function offSetupWizard(): void {
   window.birda.removeAllListeners('menu:setup-wizard');
 }
 
+// Recording viewer
+export function getRecordingOverviewInfo(
+  filePath: string,
+  columns: number,
+  freqMax: number,
+): Promise<RecordingOverviewInfo> {
+  return window.birda.invoke('recording:overview-info', filePath, columns, freqMax) as Promise<RecordingOverviewInfo>;
+}
+
+export function streamRecordingOverview(
+  requestId: number,
+  filePath: string,
+  columns: number,
+  freqMax: number,
+): Promise<void> {
+  return window.birda.invoke('recording:overview', requestId, filePath, columns, freqMax) as Promise<void>;
+}
+
+export function cancelRecordingOverview(): Promise<void> {
+  return window.birda.invoke('recording:cancel-overview') as Promise<void>;
+}
+
+export function onRecordingOverviewChunk(callback: (chunk: RecordingOverviewChunk) => void): void {
+  window.birda.on('recording:overview-chunk', callback as unknown as (...args: unknown[]) => void);
+}
+
+export function offRecordingOverviewChunk(): void {
+  window.birda.removeAllListeners('recording:overview-chunk');
+}
+
+export function getRecordingRegionWav(filePath: string, startSec: number, endSec: number): Promise<Uint8Array> {
+  return window.birda.invoke('recording:region-wav', filePath, startSec, endSec) as Promise<Uint8Array>;
+}
+
 // Region export
 export function exportRegionAsWav(wavBytes: Uint8Array, defaultName?: string): Promise<string | null> {
   return window.birda.invoke('clip:export-region', wavBytes, defaultName) as Promise<string | null>;
@@ -344,6 +609,42 @@ export function deleteSpeciesListById(id: number): Promise<void> {
   return window.birda.invoke('species:delete-list', id) as Promise<void>;
 }
 
+export function renameSpeciesList(id: number, name: string, description: string | null): Promise<SpeciesList> {
+  return window.birda.invoke('species:rename-list', id, name, description) as Promise<SpeciesList>;
+}
+
+export function addSpeciesListEntries(listId: number, scientificNames: string[]): Promise<SpeciesList> {
+  return window.birda.invoke('species:add-entries', listId, scientificNames) as Promise<SpeciesList>;
+}
+
+export function removeSpeciesListEntries(listId: number, scientificNames: string[]): Promise<SpeciesList> {
+  return window.birda.invoke('species:remove-entries', listId, scientificNames) as Promise<SpeciesList>;
+}
+
+export function duplicateSpeciesList(id: number, name: string): Promise<SpeciesList> {
+  return window.birda.invoke('species:duplicate-list', id, name) as Promise<SpeciesList>;
+}
+
+export function combineSpeciesLists(
+  name: string,
+  operation: SpeciesListSetOperation,
+  listIds: number[],
+): Promise<SpeciesList> {
+  return window.birda.invoke('species:combine-lists', name, operation, listIds) as Promise<SpeciesList>;
+}
+
+export function getSpeciesListHistory(listId: number): Promise<SpeciesListChange[]> {
+  return window.birda.invoke('species:get-history', listId) as Promise<SpeciesListChange[]>;
+}
+
+export function previewSpeciesListImport(): Promise<SpeciesListImportPreview | null> {
+  return window.birda.invoke('species:import-preview') as Promise<SpeciesListImportPreview | null>;
+}
+
+export function exportSpeciesList(listId: number, format: SpeciesListFileFormat): Promise<string | null> {
+  return window.birda.invoke('species:export-list', listId, format) as Promise<string | null>;
+}
+
 // Spectrogram cache
 export function saveSpectrogram(clipPath: string, freqMax: number, height: number, dataUrl: string): Promise<string> {
   return window.birda.invoke('clip:save-spectrogram', clipPath, freqMax, height, dataUrl) as Promise<string>;
@@ -362,10 +663,25 @@ export function deleteAnnotation(id: number): Promise<void> {
   return window.birda.invoke('annotations:delete', id) as Promise<void>;
 }
 
+export function verifyDetection(
+  detectionId: number,
+  verdict: VerificationVerdict,
+  scientificName?: string,
+): Promise<Annotation> {
+  return window.birda.invoke('annotations:verify', detectionId, verdict, scientificName) as Promise<Annotation>;
+}
+
 export function resolveAnnotationFile(filePath: string, runId: number | null): Promise<number | null> {
   return window.birda.invoke('annotations:resolve-file', filePath, runId) as Promise<number | null>;
 }
 
+export function exportTrainingDataset(
+  format: TrainingDatasetFormat,
+  runId: number | null,
+): Promise<TrainingDatasetResult | null> {
+  return window.birda.invoke('annotations:export-dataset', format, runId) as Promise<TrainingDatasetResult | null>;
+}
+
 // System
 export function getSystemLocale(): Promise<string> {
   return window.birda.invoke('system:get-locale') as Promise<string>;
@@ -0,0 +1,18 @@
+import { searchByCommonName, resolveAllLabels } from '$lib/utils/ipc';
+import type { EnrichedSpeciesSummary } from '$shared/types';
+
+/** Search the full model label list (not just detected species), shaped for SpeciesSearch. */
+export async function searchAllLabels(query: string): Promise<EnrichedSpeciesSummary[]> {
+  const scientific = (await searchByCommonName(query)).slice(0, 20);
+  if (scientific.length === 0) return [];
+  const common = await resolveAllLabels(scientific);
+  return scientific.map((scientific_name) => ({
+    scientific_name,
+    common_name: common[scientific_name] ?? scientific_name,
+    location_count: 0,
+    detection_count: 0,
+    event_count: 0,
+    last_detected: '',
+    avg_confidence: 0,
+  }));
+}
@@ -0,0 +1,45 @@
+/** Colour stops (intensity 0–1 → RGB) of a magma-like palette: quiet is near black, loud is pale yellow. */
+const PALETTE_STOPS: [number, [number, number, number]][] = [
+  [0, [0, 0, 4]],
+  [0.25, [59, 15, 112]],
+  [0.5, [140, 41, 129]],
+  [0.75, [241, 96, 93]],
+  [1, [252, 253, 191]],
+];
+
+function buildPalette(): Uint8ClampedArray {
+  const lut = new Uint8ClampedArray(256 * 3);
+  for (let v = 0; v < 256; v++) {
+    const t = v / 255;
+    const upper = PALETTE_STOPS.findIndex(([stop]) => stop >= t);
+    const [hiStop, hi] = PALETTE_STOPS[Math.max(1, upper)];
+    const [loStop, lo] = PALETTE_STOPS[Math.max(1, upper) - 1];
+    const f = (t - loStop) / (hiStop - loStop);
+    for (let c = 0; c < 3; c++) {
+      lut[v * 3 + c] = lo[c] + (hi[c] - lo[c]) * f;
+    }
+  }
+  return lut;
+}
+
+const PALETTE = buildPalette();
+
+/**
+ * Turn column-major overview intensities (row 0 = lowest frequency) into RGBA
+ * pixels for an ImageData of `data.length / rows` columns, low frequencies at the bottom.
+ */
+export function overviewToRgba(data: Uint8Array, rows: number): Uint8ClampedArray {
+  const columns = Math.floor(data.length / rows);
+  const pixels = new Uint8ClampedArray(columns * rows * 4);
+  for (let col = 0; col < columns; col++) {
+    for (let row = 0; row < rows; row++) {
+      const v = data[col * rows + row];
+      const p = ((rows - 1 - row) * columns + col) * 4;
+      pixels[p] = PALETTE[v * 3];
+      pixels[p + 1] = PALETTE[v * 3 + 1];
+      pixels[p + 2] = PALETTE[v * 3 + 2];
+      pixels[p + 3] = 255;
+    }
+  }
+  return pixels;
+}
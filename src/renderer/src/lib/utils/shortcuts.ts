@@ -1,7 +1,7 @@
 import { appState, type Tab } from '$lib/stores/app.svelte';
 import { openFileDialog, openFolderDialog } from '$lib/utils/ipc';
 
-const VALID_TABS = new Set<Tab>(['analysis', 'detections', 'map', 'species', 'settings']);
+const VALID_TABS = new Set<Tab>(['analysis', 'detections', 'map', 'species', 'devices', 'settings']);
 
 export function isTab(value: unknown): value is Tab {
   return typeof value === 'string' && VALID_TABS.has(value as Tab);